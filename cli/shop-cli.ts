@@ -0,0 +1,392 @@
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { attachLines, parseJsonWithIssues, validateConfig, validatePokemonData } from '../src/lib/configValidation';
+import { DEFAULT_CONFIG, DEFAULT_POKEMON, mergeConfigDefaults } from '../src/lib/defaults';
+import { computePrice } from '../src/lib/pricing';
+import { randomSeed } from '../src/lib/random';
+import { rngFor, sellRefundOf } from '../src/lib/runActions';
+import { parseSaveData, SAVE_VERSION, SaveDataError } from '../src/lib/saveSchema';
+import { simulateShops } from '../src/lib/simulator';
+import { buildShopWithReport } from '../src/lib/storeLogic';
+import type { AppConfig, Pokemon, ValidationIssue } from '../src/types';
+
+// CLI sin interfaz: genera tiendas, simula configuraciones, valida archivos e inspecciona save.sav
+// con los mismos módulos que la app (storeLogic, simulator, configValidation, saveSchema).
+
+const USAGE = `Uso: shop-cli <comando> [opciones]
+
+Comandos:
+  generate  --region <región> [--config cfg.json] [--data pokemon.json] [--seed N]
+            Genera la primera tienda de una partida nueva en esa región.
+  simulate  [--config cfg.json] [--data pokemon.json] [--region <región>]... [--runs N] [--seed N]
+            Simula muchas tiendas por región (como el simulador de la app).
+  validate  [--config cfg.json] [--data pokemon.json]
+            Valida los archivos; termina con código 1 si hay errores.
+  inspect   <save.sav>
+            Resume el guardado: dinero, compras y estado de las regiones.
+
+Opciones comunes:
+  --json    Salida en JSON en vez de texto.
+  --help    Muestra esta ayuda.
+
+Sin --config se usa la configuración de serie. Sin --data se usa el dataFile
+indicado en la config (junto a ella) o, sin --config, el catálogo de serie.`;
+
+class CliError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliError';
+    }
+}
+
+// Archivo JSON leído del disco, con sus incidencias de sintaxis (con número de línea)
+interface JsonFile {
+    path: string;
+    text: string;
+    value: unknown;
+    issues: ValidationIssue[];
+}
+
+interface LoadedInputs {
+    cfg: AppConfig;
+    data: Pokemon[];
+    configFile: JsonFile | null;
+    dataFile: JsonFile | null;
+    configIssues: ValidationIssue[];
+    dataIssues: ValidationIssue[];
+}
+
+// Salida del comando. Los logs de los módulos de la app (console.log) van a stderr
+// para no mezclarse con ella, sobre todo con --json
+const out = (line: string) => process.stdout.write(`${line}\n`);
+console.log = (...args: unknown[]) => console.error(...args);
+
+const isError = (issue: ValidationIssue) => issue.severity !== 'warning';
+
+function readJsonFile(path: string): JsonFile {
+    let text: string;
+    try {
+        text = readFileSync(path, 'utf8');
+    } catch (err) {
+        throw new CliError(`No se pudo leer ${path}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const { value, issues } = parseJsonWithIssues(text);
+    return { path, text, value, issues };
+}
+
+// Lee config y datos como loadConfigAndData, pero desde rutas del disco y sin "última versión válida"
+function loadInputs(configPath: string | undefined, dataPath: string | undefined): LoadedInputs {
+    const configFile = configPath ? readJsonFile(configPath) : null;
+    const rawConfig = configFile ? configFile.value : DEFAULT_CONFIG;
+    const configObject = rawConfig && typeof rawConfig === 'object' && !Array.isArray(rawConfig)
+        ? (rawConfig as Partial<AppConfig>)
+        : null;
+    const cfg = mergeConfigDefaults(configObject ?? undefined);
+
+    const resolvedDataPath = dataPath ?? (configPath ? join(dirname(configPath), cfg.dataFile) : undefined);
+    const dataFile = resolvedDataPath ? readJsonFile(resolvedDataPath) : null;
+    const rawData = dataFile ? dataFile.value : DEFAULT_POKEMON;
+
+    const configIssues = configFile?.issues.length
+        ? configFile.issues
+        : configFile
+            ? attachLines(validateConfig(rawConfig, rawData), configFile.text)
+            : [];
+    const dataIssues = dataFile?.issues.length
+        ? dataFile.issues
+        : dataFile
+            ? attachLines(validatePokemonData(rawData, cfg.regionsOrder), dataFile.text)
+            : [];
+
+    return {
+        cfg,
+        data: Array.isArray(rawData) ? (rawData as Pokemon[]) : [],
+        configFile,
+        dataFile,
+        configIssues,
+        dataIssues,
+    };
+}
+
+function formatIssue(issue: ValidationIssue): string {
+    const level = issue.severity === 'warning' ? 'aviso' : 'error';
+    const line = issue.line !== undefined ? `línea ${issue.line}: ` : '';
+    return `  [${level}] ${line}${issue.path}: ${issue.message}`;
+}
+
+function printIssues(label: string, issues: ValidationIssue[]): void {
+    if (!issues.length) return;
+    console.error(`${label} (${issues.length} incidencia(s)):`);
+    for (const issue of issues) console.error(formatIssue(issue));
+}
+
+// generate/simulate no trabajan con archivos con errores (los avisos solo se muestran)
+function requireValidInputs(inputs: LoadedInputs): void {
+    printIssues(inputs.configFile?.path ?? 'config de serie', inputs.configIssues);
+    printIssues(inputs.dataFile?.path ?? 'catálogo de serie', inputs.dataIssues);
+    if (inputs.configIssues.some(isError) || inputs.dataIssues.some(isError)) {
+        throw new CliError('La configuración tiene errores: corrígelos antes de continuar');
+    }
+}
+
+function parseIntOption(value: string | undefined, name: string): number | undefined {
+    if (value === undefined) return undefined;
+    const n = Number(value);
+    if (!Number.isInteger(n)) throw new CliError(`--${name} debe ser un número entero`);
+    return n;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)} %`;
+
+// ================= Comandos =================
+
+type Options = {
+    config?: string;
+    data?: string;
+    region?: string[];
+    seed?: string;
+    runs?: string;
+    json?: boolean;
+};
+
+function runGenerate(options: Options): number {
+    const region = options.region?.[0];
+    if (!region) throw new CliError('generate necesita --region');
+
+    const inputs = loadInputs(options.config, options.data);
+    requireValidInputs(inputs);
+    const { cfg, data } = inputs;
+    if (!cfg.regionsOrder.includes(region)) {
+        console.error(`Aviso: la región "${region}" no está en regionsOrder`);
+    }
+
+    // Misma semilla (--seed, si no la de config.seed) y sub-semilla que la primera tienda de una partida nueva en la app
+    const cfgSeed = typeof cfg.seed === 'number' && Number.isFinite(cfg.seed) ? cfg.seed >>> 0 : undefined;
+    const seed = parseIntOption(options.seed, 'seed') ?? cfgSeed ?? randomSeed();
+    const { shop, requestedCounts } = buildShopWithReport(data, region, cfg, new Set(), rngFor(seed, 'shop', region, 1));
+    const priceCtx = { region, visitedRegions: [region], purchases: [] };
+    const slots = shop.map((slot, index) => ({
+        slot: index + 1,
+        id: slot.id,
+        nombre: slot.id === -1 ? null : slot.nombre,
+        tier: slot.id === -1 ? null : slot.tier.toUpperCase(),
+        precio: slot.id === -1 ? null : computePrice(slot, cfg, priceCtx).final,
+    }));
+
+    if (options.json) {
+        out(JSON.stringify({ region, seed, requestedCounts, slots }, null, 2));
+        return 0;
+    }
+
+    out(`Tienda de ${region} (semilla ${seed})`);
+    for (const slot of slots) {
+        const label = slot.id === -1
+            ? '(vacío)'
+            : `${slot.nombre} [${slot.tier}] #${slot.id} — ${slot.precio}$`;
+        out(`  ${String(slot.slot).padStart(2)}. ${label}`);
+    }
+    const requested = Object.entries(requestedCounts).map(([tier, count]) => `${tier}×${count}`).join(' ');
+    out(`Reparto pedido: ${requested || '(ninguno)'}`);
+    return 0;
+}
+
+function runSimulate(options: Options): number {
+    const inputs = loadInputs(options.config, options.data);
+    requireValidInputs(inputs);
+    const results = simulateShops(inputs.data, inputs.cfg, {
+        runs: parseIntOption(options.runs, 'runs'),
+        seed: parseIntOption(options.seed, 'seed'),
+        regions: options.region?.length ? options.region : undefined,
+    });
+
+    if (options.json) {
+        out(JSON.stringify(results, null, 2));
+        return 0;
+    }
+
+    for (const sim of results) {
+        out(`${sim.region}: ${sim.runs} tiendas, ${sim.poolSize} pokémon, ${sim.shopSize} slots`);
+        const tiers = Object.entries(sim.tierDistribution)
+            .map(([tier, avg]) => `${tier} ${avg.toFixed(2)}`)
+            .join(' · ');
+        out(`  Slots por tier: ${tiers || '(ninguno)'}`);
+        out(`  Fallback: ${percent(sim.fallbackSlotRate)} de los slots, ${percent(sim.fallbackShopRate)} de las tiendas`);
+        out(`  Huecos: ${percent(sim.emptySlotRate)} de los slots, ${percent(sim.emptyShopRate)} de las tiendas`);
+        out(`  Coste medio de la tienda entera: ${Math.round(sim.expectedCost)}$`);
+        const top = sim.pokemonOdds.slice(0, 5).map((p) => `${p.nombre} ${percent(p.probability)}`).join(', ');
+        out(`  Más probables: ${top || '(ninguno)'}`);
+    }
+    return 0;
+}
+
+function runValidate(options: Options): number {
+    const inputs = loadInputs(options.config, options.data);
+    const reports = [
+        { file: inputs.configFile?.path ?? '(config de serie)', issues: inputs.configIssues },
+        { file: inputs.dataFile?.path ?? '(catálogo de serie)', issues: inputs.dataIssues },
+    ];
+    const hasErrors = reports.some((report) => report.issues.some(isError));
+
+    if (options.json) {
+        out(JSON.stringify({ ok: !hasErrors, reports }, null, 2));
+    } else {
+        for (const report of reports) {
+            const errors = report.issues.filter(isError).length;
+            const warnings = report.issues.length - errors;
+            out(`${report.file}: ${errors} error(es), ${warnings} aviso(s)`);
+            for (const issue of report.issues) out(formatIssue(issue));
+        }
+    }
+    return hasErrors ? 1 : 0;
+}
+
+function runInspect(savePath: string | undefined, options: Options): number {
+    if (!savePath) throw new CliError('inspect necesita la ruta de save.sav');
+    let text: string;
+    try {
+        text = readFileSync(savePath, 'utf8');
+    } catch (err) {
+        throw new CliError(`No se pudo leer ${savePath}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    let fileVersion: unknown;
+    try {
+        fileVersion = JSON.parse(text)?.version ?? 1;
+    } catch {
+        fileVersion = undefined;
+    }
+
+    let save;
+    try {
+        save = parseSaveData(text);
+    } catch (err) {
+        if (!(err instanceof SaveDataError)) throw err;
+        if (options.json) {
+            out(JSON.stringify({ ok: false, error: err.message, issues: err.issues }, null, 2));
+        } else {
+            console.error(`${savePath}: ${err.message}`);
+            for (const issue of err.issues) console.error(formatIssue(issue));
+        }
+        return 1;
+    }
+
+    const active = save.purchases.filter((p) => !p.soldAt);
+    const sold = save.purchases.filter((p) => p.soldAt);
+    // Las devoluciones se toman del guardado; si faltan, se estiman con la config de serie
+    const refunded = sold.reduce((n, p) => n + (p.refund ?? sellRefundOf(DEFAULT_CONFIG, p)), 0);
+    const spent = save.purchases.reduce((n, p) => n + p.precio, 0);
+    const regions = save.regions.map((name, index) => ({
+        name,
+        visited: save.visitedRegions.includes(name),
+        current: index === save.currentRegionIndex,
+        purchases: save.purchases.filter((p) => p.region === name).length,
+    }));
+    const summary = {
+        version: save.version,
+        fileVersion,
+        profileId: save.profileId,
+        savedAt: save.savedAt,
+        money: save.money,
+        runSeed: save.runSeed,
+        rngNonce: save.rngNonce,
+        currentRegion: save.regions[save.currentRegionIndex] ?? null,
+        rerollsUsed: save.rerollsUsedGlobal,
+        regions,
+        shop: save.shop.map((slot) => ({
+            id: slot.id,
+            nombre: slot.id === -1 ? null : slot.nombre,
+            tier: slot.id === -1 ? null : slot.tier.toUpperCase(),
+            purchased: !!slot.__purchased,
+        })),
+        purchases: {
+            total: save.purchases.length,
+            active: active.length,
+            sold: sold.length,
+            spent,
+            refunded,
+            items: active.map((p) => ({ nombre: p.nombre, tier: p.tier, region: p.region, precio: p.precio })),
+        },
+        reservations: save.reservations.map((r) => ({
+            nombre: r.nombre,
+            tier: r.tier,
+            region: r.region,
+            precio: r.precio,
+            deposit: r.deposit,
+            regionsLeft: r.regionsLeft,
+        })),
+        history: save.history.length,
+        undo: save.undoStack.length,
+        redo: save.redoStack.length,
+    };
+
+    if (options.json) {
+        out(JSON.stringify({ ok: true, ...summary }, null, 2));
+        return 0;
+    }
+
+    const migrated = fileVersion !== SAVE_VERSION ? ` (migrado desde v${String(fileVersion)})` : '';
+    out(`${savePath}: guardado v${save.version}${migrated}, ${save.savedAt}`);
+    out(`Perfil: ${save.profileId || '(sin perfil)'} · semilla ${save.runSeed ?? '-'} · acciones aleatorias ${save.rngNonce ?? '-'}`);
+    out(`Dinero: ${save.money}$`);
+    out(`Región activa: ${summary.currentRegion ?? '-'} · rerolls usados: ${save.rerollsUsedGlobal}`);
+    out('Regiones:');
+    for (const region of regions) {
+        const marks = [region.current ? 'activa' : '', region.visited ? 'visitada' : ''].filter(Boolean).join(', ');
+        out(`  ${region.current ? '>' : ' '} ${region.name}${marks ? ` (${marks})` : ''} — ${region.purchases} compra(s)`);
+    }
+    out(`Tienda actual: ${summary.shop.map((s) => (s.id === -1 ? '(vacío)' : `${s.nombre}${s.purchased ? ' ✓' : ''}`)).join(', ') || '(vacía)'}`);
+    out(`Compras: ${save.purchases.length} (${active.length} en el equipo, ${sold.length} vendidas) · gastado ${spent}$ · devuelto ${refunded}$`);
+    for (const p of active) out(`  ${p.nombre} [${p.tier}] — ${p.precio}$ en ${p.region}`);
+    if (save.reservations.length) {
+        out(`Reservas: ${save.reservations.length}`);
+        for (const r of save.reservations) {
+            out(`  ${r.nombre} [${r.tier}] — depósito ${r.deposit}$ de ${r.precio}$ en ${r.region}, aguanta ${r.regionsLeft} cambio(s) de grupo`);
+        }
+    }
+    out(`Historial: ${save.history.length} evento(s) · deshacer ${save.undoStack.length} · rehacer ${save.redoStack.length}`);
+    return 0;
+}
+
+function main(argv: string[]): number {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            config: { type: 'string', short: 'c' },
+            data: { type: 'string', short: 'd' },
+            region: { type: 'string', short: 'r', multiple: true },
+            seed: { type: 'string', short: 's' },
+            runs: { type: 'string', short: 'n' },
+            json: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    const [command, ...rest] = positionals;
+
+    if (values.help || !command) {
+        out(USAGE);
+        return values.help ? 0 : 1;
+    }
+
+    switch (command) {
+        case 'generate':
+            return runGenerate(values);
+        case 'simulate':
+            return runSimulate(values);
+        case 'validate':
+            return runValidate(values);
+        case 'inspect':
+            return runInspect(rest[0], values);
+        default:
+            throw new CliError(`Comando desconocido: ${command}\n\n${USAGE}`);
+    }
+}
+
+try {
+    process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+    // Errores de uso y de lectura (opciones desconocidas de parseArgs incluidas) sin traza
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exitCode = 1;
+}
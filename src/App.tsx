@@ -1,6 +1,8 @@
+import ConfigDiagnosticsPanel from './components/ConfigDiagnosticsPanel';
 import HistoryPanel from './components/HistoryPanel';
 import PokemonRow from './components/PokemonRow';
 import PurchasesPanel from './components/PurchasesPanel';
+import SaveErrorBanner from './components/SaveErrorBanner';
 import SettingsPanel from './components/SettingsPanel';
 import TopBar from './components/TopBar';
 import { useShopStore } from './store/useShopStore';
@@ -10,6 +12,8 @@ export default function App() {
     return (
         <div className='min-h-screen bg-neutral-950'>
             <TopBar />
+            <SaveErrorBanner />
+            <ConfigDiagnosticsPanel />
             <main className='container mx-auto max-w-screen-xl p-4 grid gap-4 lg:grid-cols-[1fr_420px]'>
                 <div className='pr-3 max-h-[755px] text-neutral-100'>
                     <div className='flex flex-col gap-2 h-full overflow-auto customScroll'>
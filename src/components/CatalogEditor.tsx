@@ -0,0 +1,484 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { validatePokemonData } from '../lib/configValidation';
+import { tierColor, tierPriority } from '../lib/tiers';
+import { useShopStore } from '../store/useShopStore';
+import type { Pokemon, TierDefinition } from '../types';
+import SpriteImg from './SpriteImg';
+
+type SortKey = 'id' | 'nombre' | 'tier' | 'precio' | 'peso';
+type SortDir = 'asc' | 'desc';
+
+const UNDO_LIMIT = 50; // cambios del editor que se pueden deshacer
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+    { key: 'id', label: 'ID' },
+    { key: 'nombre', label: 'Nombre' },
+    { key: 'tier', label: 'Tier' },
+    { key: 'precio', label: 'Precio' },
+    { key: 'peso', label: 'Rareza' },
+];
+
+// Compara dos pokémon por la columna elegida (los tiers según config.tiers)
+function compareBy(key: SortKey, a: Pokemon, b: Pokemon, tierDefs?: TierDefinition[]): number {
+    switch (key) {
+        case 'nombre':
+            return a.nombre.localeCompare(b.nombre);
+        case 'tier':
+            return tierPriority(a.tier, tierDefs) - tierPriority(b.tier, tierDefs);
+        case 'peso':
+            return (a.peso ?? 1) - (b.peso ?? 1);
+        default:
+            return a[key] - b[key];
+    }
+}
+
+// Lista de regiones editable como texto separado por comas (se aplica al salir del campo)
+function RegionsCell({ value, onCommit }: { value: string[]; onCommit: (regiones: string[]) => void }) {
+    const joined = value.join(', ');
+    const [text, setText] = useState(joined);
+
+    useEffect(() => setText(joined), [joined]);
+
+    return (
+        <input
+            className='input w-full py-0.5'
+            value={text}
+            list='catalog-regions'
+            onChange={(e) => setText(e.target.value)}
+            onBlur={() => {
+                const regiones = text.split(',').map((r) => r.trim()).filter(Boolean);
+                if (regiones.join(', ') !== joined) onCommit(regiones);
+                else setText(joined);
+            }}
+        />
+    );
+}
+
+// Pesos por región editables como texto "Kanto: 3, Sinnoh: 0.2" (se aplica al salir del campo)
+function RegionWeightsCell({
+    value,
+    onCommit,
+}: {
+    value: Record<string, number> | undefined;
+    onCommit: (pesoPorRegion: Record<string, number> | undefined) => void;
+}) {
+    const joined = Object.entries(value ?? {})
+        .map(([region, weight]) => `${region}: ${weight}`)
+        .join(', ');
+    const [text, setText] = useState(joined);
+
+    useEffect(() => setText(joined), [joined]);
+
+    return (
+        <input
+            className='input w-full py-0.5'
+            placeholder='Región: peso'
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={() => {
+                const entries = text
+                    .split(',')
+                    .map((part) => part.split(':').map((s) => s.trim()))
+                    .filter(([region]) => region)
+                    .map(([region, weight]) => [region, weight === undefined || weight === '' ? NaN : Number(weight)]);
+                const next = entries.length ? Object.fromEntries(entries) : undefined;
+                if (JSON.stringify(next) !== JSON.stringify(value)) onCommit(next);
+                else setText(joined);
+            }}
+        />
+    );
+}
+
+export default function CatalogEditor({ onClose }: { onClose: () => void }) {
+    const cfg = useShopStore((s) => s.cfg);
+    const data = useShopStore((s) => s.data);
+    const updatePokemonData = useShopStore((s) => s.updatePokemonData);
+
+    const [rows, setRows] = useState<Pokemon[]>(() => data.map((p) => ({ ...p, regiones: [...p.regiones] })));
+    const [undoStack, setUndoStack] = useState<Pokemon[][]>([]);
+    const lastEditKey = useRef<string | null>(null);
+
+    const [query, setQuery] = useState('');
+    const [sortKey, setSortKey] = useState<SortKey>('id');
+    const [sortDir, setSortDir] = useState<SortDir>('asc');
+    const [selected, setSelected] = useState<Set<number>>(new Set());
+    const [bulkTier, setBulkTier] = useState('');
+    const [bulkPrice, setBulkPrice] = useState('');
+    const [bulkPriceMode, setBulkPriceMode] = useState<'set' | 'percent'>('set');
+    const [saving, setSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+
+    const regionsOrder = cfg?.regionsOrder ?? [];
+    const issues = useMemo(() => validatePokemonData(rows, regionsOrder), [rows, regionsOrder]);
+    const errorCount = issues.filter((issue) => issue.severity !== 'warning').length;
+    const dirty = useMemo(() => JSON.stringify(rows) !== JSON.stringify(data), [rows, data]);
+    const knownTiers = useMemo(
+        () =>
+            Array.from(new Set(rows.map((p) => p.tier.toUpperCase()))).sort(
+                (a, b) => tierPriority(b, cfg?.tiers) - tierPriority(a, cfg?.tiers)
+            ),
+        [rows, cfg?.tiers]
+    );
+
+    // Incidencias por fila (índice en `rows`) para marcar las filas con problemas
+    const issuesByRow = useMemo(() => {
+        const map = new Map<number, string[]>();
+        for (const issue of issues) {
+            const match = /^\[(\d+)\]/.exec(issue.path);
+            if (!match) continue;
+            const i = Number(match[1]);
+            map.set(i, [...(map.get(i) ?? []), `${issue.path}: ${issue.message}`]);
+        }
+        return map;
+    }, [issues]);
+
+    // Filas visibles: índice original + pokémon, filtradas y ordenadas
+    const visible = useMemo(() => {
+        const q = query.trim().toLowerCase();
+        const list = rows
+            .map((p, i) => ({ p, i }))
+            .filter(({ p }) =>
+                !q ||
+                String(p.id) === q ||
+                p.nombre.toLowerCase().includes(q) ||
+                p.tier.toLowerCase() === q ||
+                p.regiones.some((r) => r.toLowerCase().includes(q))
+            );
+        list.sort((a, b) => compareBy(sortKey, a.p, b.p, cfg?.tiers) * (sortDir === 'asc' ? 1 : -1) || a.i - b.i);
+        return list;
+    }, [rows, query, sortKey, sortDir, cfg?.tiers]);
+
+    // Aplica un cambio guardando el estado anterior para deshacer.
+    // Las pulsaciones seguidas sobre el mismo campo (`editKey`) cuentan como un único cambio.
+    const apply = (next: Pokemon[], editKey: string | null = null) => {
+        if (editKey === null || editKey !== lastEditKey.current) {
+            setUndoStack((stack) => [rows, ...stack].slice(0, UNDO_LIMIT));
+        }
+        lastEditKey.current = editKey;
+        setRows(next);
+    };
+
+    const editRow = (index: number, patch: Partial<Pokemon>, field: string) => {
+        apply(rows.map((p, i) => (i === index ? { ...p, ...patch } : p)), `${index}:${field}`);
+    };
+
+    const undo = () => {
+        const [top, ...rest] = undoStack;
+        if (!top) return;
+        lastEditKey.current = null;
+        setRows(top);
+        setUndoStack(rest);
+        setSelected(new Set());
+    };
+
+    const toggleSort = (key: SortKey) => {
+        if (key === sortKey) {
+            setSortDir(sortDir === 'asc' ? 'desc' : 'asc');
+        } else {
+            setSortKey(key);
+            setSortDir('asc');
+        }
+    };
+
+    const toggleSelected = (index: number) => {
+        const next = new Set(selected);
+        if (next.has(index)) next.delete(index);
+        else next.add(index);
+        setSelected(next);
+    };
+
+    const allVisibleSelected = visible.length > 0 && visible.every(({ i }) => selected.has(i));
+    const toggleAllVisible = () => {
+        const next = new Set(selected);
+        for (const { i } of visible) {
+            if (allVisibleSelected) next.delete(i);
+            else next.add(i);
+        }
+        setSelected(next);
+    };
+
+    const addRow = () => {
+        const nextId = rows.reduce((max, p) => Math.max(max, Number(p.id) || 0), 0) + 1;
+        apply([
+            ...rows,
+            {
+                id: nextId,
+                nombre: 'Nuevo pokémon',
+                tier: knownTiers[knownTiers.length - 1] ?? 'C',
+                precio: 0,
+                regiones: regionsOrder.slice(0, 1),
+            },
+        ]);
+        setQuery('');
+        setSortKey('id');
+        setSortDir('desc');
+    };
+
+    const deleteRows = (indices: Set<number>) => {
+        apply(rows.filter((_, i) => !indices.has(i)));
+        setSelected(new Set());
+    };
+
+    const applyBulkTier = () => {
+        const tier = bulkTier.trim().toUpperCase();
+        if (!tier || selected.size === 0) return;
+        apply(rows.map((p, i) => (selected.has(i) ? { ...p, tier } : p)));
+    };
+
+    const applyBulkPrice = () => {
+        const value = Number(bulkPrice);
+        if (bulkPrice.trim() === '' || !Number.isFinite(value) || selected.size === 0) return;
+        apply(
+            rows.map((p, i) => {
+                if (!selected.has(i)) return p;
+                const precio = bulkPriceMode === 'set' ? value : Math.round(p.precio * (1 + value / 100));
+                return { ...p, precio: Math.max(0, precio) };
+            })
+        );
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        setSaveError(null);
+        try {
+            await updatePokemonData(rows);
+            setUndoStack([]);
+            lastEditKey.current = null;
+        } catch (err) {
+            console.error(`[Catálogo] Error guardando catálogo:`, err);
+            setSaveError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleClose = () => {
+        if (dirty && !window.confirm('Hay cambios sin guardar en el catálogo. ¿Cerrar igualmente?')) return;
+        onClose();
+    };
+
+    return (
+        <div className='fixed inset-0 z-40 bg-black/70 flex items-center justify-center p-4 text-neutral-100'>
+            <div className='card bg-neutral-900 w-full max-w-screen-xl h-full flex flex-col'>
+                <div className='p-4 border-b border-neutral-800 flex items-center gap-3'>
+                    <h2 className='font-semibold'>Catálogo de pokémon</h2>
+                    <span className='text-sm opacity-70'>
+                        <code>{cfg?.dataFile}</code> · {rows.length} pokémon
+                    </span>
+                    <div className='ml-auto flex gap-2'>
+                        <button
+                            className='btn-secondary'
+                            onClick={undo}
+                            disabled={undoStack.length === 0}
+                            title='Deshacer último cambio del catálogo'
+                        >
+                            ↶
+                        </button>
+                        <button
+                            className='btn-confirm'
+                            onClick={handleSave}
+                            disabled={!dirty || errorCount > 0 || saving}
+                            title={errorCount > 0 ? 'Corrige los errores antes de guardar' : 'Guardar y recargar la tienda'}
+                        >
+                            {saving ? 'Guardando…' : 'Guardar'}
+                        </button>
+                        <button className='btn-secondary' onClick={handleClose}>
+                            ✕
+                        </button>
+                    </div>
+                </div>
+
+                <div className='p-4 flex flex-wrap items-center gap-2 border-b border-neutral-800 text-sm'>
+                    <input
+                        className='input w-64'
+                        placeholder='Buscar por id, nombre, tier o región'
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                    />
+                    <button className='btn' onClick={addRow}>
+                        Añadir
+                    </button>
+
+                    <div className='ml-auto flex flex-wrap items-center gap-2'>
+                        <span className='opacity-70'>{selected.size} seleccionado(s):</span>
+                        <input
+                            className='input w-16'
+                            placeholder='Tier'
+                            list='catalog-tiers'
+                            value={bulkTier}
+                            onChange={(e) => setBulkTier(e.target.value)}
+                        />
+                        <button className='btn-secondary' onClick={applyBulkTier} disabled={selected.size === 0}>
+                            Cambiar tier
+                        </button>
+                        <select
+                            className='input w-auto'
+                            value={bulkPriceMode}
+                            onChange={(e) => setBulkPriceMode(e.target.value as 'set' | 'percent')}
+                        >
+                            <option value='set'>Precio =</option>
+                            <option value='percent'>Precio ± %</option>
+                        </select>
+                        <input
+                            className='input w-24'
+                            type='number'
+                            value={bulkPrice}
+                            onChange={(e) => setBulkPrice(e.target.value)}
+                        />
+                        <button className='btn-secondary' onClick={applyBulkPrice} disabled={selected.size === 0}>
+                            Cambiar precio
+                        </button>
+                        <button className='btn-danger' onClick={() => deleteRows(selected)} disabled={selected.size === 0}>
+                            Borrar
+                        </button>
+                    </div>
+                </div>
+
+                {(issues.length > 0 || saveError) && (
+                    <div className='px-4 pt-2 text-sm'>
+                        {saveError && <p className='text-red-400'>{saveError}</p>}
+                        {issues.length > 0 && (
+                            <p className={errorCount > 0 ? 'text-red-400' : 'text-yellow-400'}>
+                                {errorCount} error(es) y {issues.length - errorCount} aviso(s). Las filas marcadas muestran el
+                                detalle al pasar el ratón.
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                <div className='flex-1 overflow-auto customScroll p-4'>
+                    <table className='w-full text-sm'>
+                        <thead className='text-left opacity-80'>
+                            <tr>
+                                <th className='p-1 w-8'>
+                                    <input type='checkbox' checked={allVisibleSelected} onChange={toggleAllVisible} />
+                                </th>
+                                <th className='p-1 w-10' />
+                                {COLUMNS.map((col) => (
+                                    <th
+                                        key={col.key}
+                                        className='p-1 cursor-pointer select-none'
+                                        onClick={() => toggleSort(col.key)}
+                                    >
+                                        {col.label}
+                                        {sortKey === col.key && (sortDir === 'asc' ? ' ▲' : ' ▼')}
+                                    </th>
+                                ))}
+                                <th className='p-1'>Regiones</th>
+                                <th className='p-1'>Rareza por región</th>
+                                <th className='p-1 w-10' />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visible.map(({ p, i }) => {
+                                const rowIssues = issuesByRow.get(i);
+                                return (
+                                    <tr
+                                        key={i}
+                                        className={`border-t border-neutral-800 ${rowIssues ? 'bg-red-400/10' : ''}`}
+                                        title={rowIssues?.join('\n')}
+                                    >
+                                        <td className='p-1'>
+                                            <input
+                                                type='checkbox'
+                                                checked={selected.has(i)}
+                                                onChange={() => toggleSelected(i)}
+                                            />
+                                        </td>
+                                        <td className='p-1'>
+                                            <SpriteImg id={p.id} size={24} />
+                                        </td>
+                                        <td className='p-1 w-24'>
+                                            <input
+                                                className='input w-full py-0.5'
+                                                type='number'
+                                                value={Number.isNaN(p.id) ? '' : p.id}
+                                                onChange={(e) => editRow(i, { id: parseInt(e.target.value, 10) }, 'id')}
+                                            />
+                                        </td>
+                                        <td className='p-1'>
+                                            <input
+                                                className='input w-full py-0.5'
+                                                value={p.nombre}
+                                                onChange={(e) => editRow(i, { nombre: e.target.value }, 'nombre')}
+                                            />
+                                        </td>
+                                        <td className='p-1 w-20'>
+                                            <input
+                                                className='input w-full py-0.5'
+                                                list='catalog-tiers'
+                                                value={p.tier}
+                                                style={{ color: tierColor(cfg, p.tier) }}
+                                                onChange={(e) => editRow(i, { tier: e.target.value.toUpperCase() }, 'tier')}
+                                            />
+                                        </td>
+                                        <td className='p-1 w-28'>
+                                            <input
+                                                className='input w-full py-0.5'
+                                                type='number'
+                                                value={Number.isNaN(p.precio) ? '' : p.precio}
+                                                onChange={(e) => editRow(i, { precio: parseFloat(e.target.value) }, 'precio')}
+                                            />
+                                        </td>
+                                        <td className='p-1 w-20'>
+                                            <input
+                                                className='input w-full py-0.5'
+                                                type='number'
+                                                min={0}
+                                                step={0.1}
+                                                placeholder='1'
+                                                value={p.peso === undefined || Number.isNaN(p.peso) ? '' : p.peso}
+                                                onChange={(e) =>
+                                                    editRow(
+                                                        i,
+                                                        { peso: e.target.value === '' ? undefined : parseFloat(e.target.value) },
+                                                        'peso'
+                                                    )
+                                                }
+                                            />
+                                        </td>
+                                        <td className='p-1'>
+                                            <RegionsCell
+                                                value={p.regiones}
+                                                onCommit={(regiones) => editRow(i, { regiones }, 'regiones')}
+                                            />
+                                        </td>
+                                        <td className='p-1 w-44'>
+                                            <RegionWeightsCell
+                                                value={p.pesoPorRegion}
+                                                onCommit={(pesoPorRegion) => editRow(i, { pesoPorRegion }, 'pesoPorRegion')}
+                                            />
+                                        </td>
+                                        <td className='p-1'>
+                                            <button
+                                                className='btn-secondary py-0.5'
+                                                onClick={() => deleteRows(new Set([i]))}
+                                                title='Borrar pokémon'
+                                            >
+                                                🗑
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    {visible.length === 0 && (
+                        <p className='text-sm opacity-70 p-2'>Ningún pokémon coincide con la búsqueda.</p>
+                    )}
+                </div>
+
+                <datalist id='catalog-tiers'>
+                    {knownTiers.map((tier) => (
+                        <option key={tier} value={tier} />
+                    ))}
+                </datalist>
+                <datalist id='catalog-regions'>
+                    {regionsOrder.map((region) => (
+                        <option key={region} value={region} />
+                    ))}
+                </datalist>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,113 @@
+import type { ConfigFileReport } from '../lib/config';
+import { useShopStore } from '../store/useShopStore';
+
+// Texto que explica de dónde salen los datos cargados de cada archivo
+const SOURCE_LABELS: Record<ConfigFileReport['source'], string> = {
+    file: 'cargado desde el archivo',
+    'last-good': 'se usa la última versión válida',
+    default: 'se usan los valores por defecto',
+};
+
+export default function ConfigDiagnosticsPanel() {
+    const diagnostics = useShopStore((s) => s.configDiagnostics);
+    const bootstrap = useShopStore((s) => s.bootstrap);
+    const dismiss = useShopStore((s) => s.dismissConfigDiagnostics);
+
+    if (!diagnostics) return null;
+
+    return (
+        <div className='container mx-auto max-w-screen-xl px-4 pt-4 text-neutral-100'>
+            <div
+                className={`card p-3 flex flex-col gap-2 ${
+                    diagnostics.hasErrors ? 'border-red-500' : 'border-yellow-600'
+                }`}
+            >
+                <h2
+                    className={`font-semibold ${
+                        diagnostics.hasErrors ? 'text-red-400' : 'text-yellow-400'
+                    }`}
+                >
+                    {diagnostics.hasErrors
+                        ? 'Errores en la configuración'
+                        : 'Avisos en la configuración'}
+                </h2>
+
+                {diagnostics.reports
+                    .filter((report) => report.issues.length > 0)
+                    .map((report) => (
+                        <div key={report.file} className='text-sm'>
+                            <div className='mb-1'>
+                                <code>{report.file}</code>{' '}
+                                <span className='opacity-70'>
+                                    ({report.issues.length} incidencia(s),{' '}
+                                    {SOURCE_LABELS[report.source]})
+                                </span>
+                            </div>
+                            <ul className='max-h-40 overflow-auto customScroll space-y-1'>
+                                {report.issues.map((issue, i) => (
+                                    <li
+                                        key={`${issue.path}-${i}`}
+                                        className={`p-1 rounded ${
+                                            issue.severity === 'warning'
+                                                ? 'text-yellow-400 bg-yellow-400/10'
+                                                : 'text-red-400 bg-red-400/10'
+                                        }`}
+                                    >
+                                        {issue.line !== undefined && (
+                                            <span className='opacity-70'>
+                                                Línea {issue.line} ·{' '}
+                                            </span>
+                                        )}
+                                        <code>{issue.path}</code>: {issue.message}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+
+                <div className='flex gap-2 flex-wrap'>
+                    {diagnostics.hasErrors ? (
+                        <>
+                            <button
+                                className='btn-warning'
+                                disabled={!diagnostics.canLoadAnyway}
+                                onClick={async () => {
+                                    await bootstrap('load-anyway');
+                                }}
+                                title={
+                                    diagnostics.canLoadAnyway
+                                        ? 'Usar los archivos descartando las entradas y campos con errores'
+                                        : 'Algún archivo no es JSON válido'
+                                }
+                            >
+                                Cargar de todos modos
+                            </button>
+                            <button
+                                className='btn-confirm'
+                                onClick={async () => {
+                                    await bootstrap('keep-last-good');
+                                    dismiss();
+                                }}
+                            >
+                                Mantener últimos datos válidos
+                            </button>
+                            <button
+                                className='btn'
+                                onClick={async () => {
+                                    await bootstrap();
+                                }}
+                                title='Volver a leer los archivos tras corregirlos'
+                            >
+                                Reintentar
+                            </button>
+                        </>
+                    ) : (
+                        <button className='btn-secondary' onClick={dismiss}>
+                            Cerrar
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
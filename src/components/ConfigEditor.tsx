@@ -0,0 +1,894 @@
+import { useMemo, useState } from 'react';
+import { validateConfig } from '../lib/configValidation';
+import { DEFAULT_REROLL_COST, DEFAULT_REROLL_COST_INCREASE, REROLL_POLICIES, rerollPolicyOf } from '../lib/rerollPolicy';
+import { findTierDefinition, sortTiersDesc, tierColor, tierLabel } from '../lib/tiers';
+import { useShopStore } from '../store/useShopStore';
+import type { AppConfig, PricingConfig, RegionOverride, RerollPolicy, TierDefinition } from '../types';
+import OddsSimulator from './OddsSimulator';
+
+// Opciones booleanas de AppConfig con su etiqueta en el formulario
+const FLAGS: { key: keyof AppConfig; label: string }[] = [
+    { key: 'rerollResetOnRefresh', label: 'Resetear rerolls al actualizar' },
+    { key: 'allowDuplicates', label: 'Permitir duplicados en la tienda' },
+    { key: 'includePurchasedInRerollPool', label: 'Incluir comprados en los rerolls' },
+    { key: 'shopBuySlotAutofill', label: 'Autorrellenar al comprar' },
+    { key: 'tierFallback', label: 'Fallback de tiers' },
+    { key: 'tierFallbackNoUpgrade', label: 'El fallback nunca sube de tier' },
+    { key: 'sellReturnsToPool', label: 'Los vendidos vuelven a la tienda' },
+    { key: 'confirmSell', label: 'Confirmar antes de vender' },
+];
+
+// Reglas de precio dinámico (config.pricing) con su etiqueta y valor por defecto
+const PRICING_FIELDS: { key: keyof PricingConfig; label: string; placeholder: string }[] = [
+    { key: 'inflationPerRegion', label: 'Inflación por región visitada (%)', placeholder: '0' },
+    { key: 'inflationPerPurchase', label: 'Inflación por compra (%)', placeholder: '0' },
+    { key: 'saturationDiscount', label: 'Descuento por compra del mismo tier (%)', placeholder: '0' },
+    { key: 'maxSaturationDiscount', label: 'Descuento máximo por saturación (%)', placeholder: '50' },
+    { key: 'variance', label: 'Variación aleatoria ± (%)', placeholder: '0' },
+    { key: 'rounding', label: 'Redondear a múltiplos de', placeholder: '1' },
+];
+
+// Intervalos en regiones (-1 = nunca)
+const INTERVALS: { key: 'shopRefreshEveryRegions' | 'rerollRechargeEveryRegions'; label: string }[] = [
+    { key: 'shopRefreshEveryRegions', label: 'Regenerar tienda cada N cambios de región' },
+    { key: 'rerollRechargeEveryRegions', label: 'Recargar rerolls cada N regiones nuevas' },
+];
+
+// Cadena de fallback como texto: "A, B" → ['A', 'B'], "-" → [] (sin fallback), vacío → automática
+const parseChain = (text: string): string[] | undefined => {
+    const value = text.trim();
+    if (!value) return undefined;
+    if (value === '-') return [];
+    return value.split(/[\s,>→]+/).filter(Boolean).map((tier) => tier.toUpperCase());
+};
+const formatChain = (chain: string[] | undefined) => (chain === undefined ? '' : chain.length ? chain.join(', ') : '-');
+
+// Copia profunda para editar sin tocar la config del store
+const cloneConfig = (cfg: AppConfig): AppConfig => JSON.parse(JSON.stringify(cfg));
+
+// Convierte el texto de un campo numérico (vacío = NaN, para que la validación lo marque)
+const toNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+
+export default function ConfigEditor({ onClose }: { onClose: () => void }) {
+    const cfg = useShopStore((s) => s.cfg);
+    const data = useShopStore((s) => s.data);
+    const updateConfig = useShopStore((s) => s.updateConfig);
+
+    const [draft, setDraft] = useState<AppConfig>(() => cloneConfig(cfg!));
+    const [newTier, setNewTier] = useState('');
+    const [newRegion, setNewRegion] = useState('');
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [overrideRegion, setOverrideRegion] = useState(() => cfg?.regionsOrder[0] ?? '');
+    const [saving, setSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+
+    const issues = useMemo(() => validateConfig(draft, data), [draft, data]);
+    const errorCount = issues.filter((issue) => issue.severity !== 'warning').length;
+    const dirty = useMemo(() => JSON.stringify(draft) !== JSON.stringify(cfg), [draft, cfg]);
+
+    // Tiers a mostrar: los de los datos más los que ya aparezcan en la config
+    const tiers = useMemo(
+        () =>
+            sortTiersDesc(
+                Array.from(
+                    new Set([
+                        ...data.map((p) => p.tier.toUpperCase()),
+                        ...Object.keys(draft.quota),
+                        ...Object.keys(draft.tierWeights ?? {}),
+                        ...Object.keys(draft.tierColors ?? {}),
+                        ...(draft.tiers ?? []).map((def) => def.id.toUpperCase()),
+                    ])
+                ),
+                draft.tiers
+            ),
+        [data, draft.quota, draft.tierWeights, draft.tierColors, draft.tiers]
+    );
+
+    // Porcentaje normalizado de cada peso (igual que normalizeWeights en storeLogic)
+    const weightTotal = Object.values(draft.tierWeights ?? {}).reduce(
+        (sum, w) => sum + (Number.isFinite(w) && w > 0 ? w : 0),
+        0
+    );
+    const percentOf = (tier: string) => {
+        const w = draft.tierWeights?.[tier] ?? 0;
+        return weightTotal > 0 && w > 0 ? (w / weightTotal) * 100 : 0;
+    };
+    const quotaTotal = Object.values(draft.quota).reduce((sum, n) => sum + (Number.isFinite(n) ? n : 0), 0);
+
+    const patch = (changes: Partial<AppConfig>) => setDraft((d) => ({ ...d, ...changes }));
+
+    // Mapa por tier (quota, tierWeights, tierColors): valor undefined = quitar la clave
+    const patchTierMap = <K extends 'quota' | 'tierWeights' | 'tierColors'>(
+        key: K,
+        tier: string,
+        value: NonNullable<AppConfig[K]>[string] | undefined
+    ) =>
+        setDraft((d) => {
+            const map = { ...(d[key] ?? {}) } as Record<string, unknown>;
+            if (value === undefined) delete map[tier];
+            else map[tier] = value;
+            return { ...d, [key]: map };
+        });
+
+    // Rerolls de un tier en la política 'tier': undefined = usar rerollsPerRegion
+    const patchTierBudget = (tier: string, value: number | undefined) =>
+        setDraft((d) => {
+            const budgets = { ...(d.rerollTierBudgets ?? {}) };
+            if (value === undefined) delete budgets[tier];
+            else budgets[tier] = value;
+            return { ...d, rerollTierBudgets: Object.keys(budgets).length ? budgets : undefined };
+        });
+
+    // Cadena de fallback de un tier (global o de una región): undefined = búsqueda automática
+    const withChain = (chains: Record<string, string[]> | undefined, tier: string, chain: string[] | undefined) => {
+        const next = { ...(chains ?? {}) };
+        if (chain === undefined) delete next[tier];
+        else next[tier] = chain;
+        return Object.keys(next).length ? next : undefined;
+    };
+
+    // Cambia la definición de un tier en config.tiers
+    const patchTierDef = (tier: string, changes: Partial<TierDefinition>) =>
+        setDraft((d) => ({
+            ...d,
+            tiers: (d.tiers ?? []).map((def) => (def === findTierDefinition(tier, d.tiers) ? { ...def, ...changes } : def)),
+        }));
+
+    // Activa config.tiers con los tiers actuales en su orden actual, o la quita (orden por letra)
+    const toggleTierDefs = (enabled: boolean) =>
+        patch({
+            tiers: enabled
+                ? tiers.map((id, i) => ({ id, rank: tiers.length - i, color: draft.tierColors?.[id] }))
+                : undefined,
+        });
+
+    // El color se guarda en la definición del tier si la tiene, y si no en tierColors
+    const setTierColor = (tier: string, color: string) =>
+        findTierDefinition(tier, draft.tiers) ? patchTierDef(tier, { color }) : patchTierMap('tierColors', tier, color);
+
+    const addTier = () => {
+        const tier = newTier.trim().toUpperCase();
+        if (!tier || tiers.includes(tier)) return;
+        patchTierMap('tierWeights', tier, 0);
+        if (draft.tiers?.length) {
+            // Los tiers nuevos entran por debajo de todos
+            const rank = Math.min(...draft.tiers.map((def) => def.rank)) - 1;
+            patch({ tiers: [...draft.tiers, { id: tier, rank }] });
+        }
+        setNewTier('');
+    };
+
+    const addRegion = () => {
+        const region = newRegion.trim();
+        if (!region) return;
+        patch({ regionsOrder: [...draft.regionsOrder, region] });
+        setNewRegion('');
+    };
+
+    const moveRegion = (from: number, to: number) => {
+        if (from === to) return;
+        const regionsOrder = [...draft.regionsOrder];
+        const [moved] = regionsOrder.splice(from, 1);
+        regionsOrder.splice(to, 0, moved);
+        patch({ regionsOrder });
+    };
+
+    // Cambia los ajustes de una región: undefined = heredar el valor global.
+    // Si la región se queda sin ajustes se elimina de regionOverrides.
+    const patchOverride = (region: string, changes: Partial<RegionOverride>) =>
+        setDraft((d) => {
+            const overrides = { ...(d.regionOverrides ?? {}) };
+            const next: Record<string, unknown> = { ...(overrides[region] ?? {}), ...changes };
+            for (const key of Object.keys(next)) {
+                if (next[key] === undefined) delete next[key];
+            }
+            if (Object.keys(next).length) overrides[region] = next as RegionOverride;
+            else delete overrides[region];
+            return { ...d, regionOverrides: Object.keys(overrides).length ? overrides : undefined };
+        });
+
+    // quota/tierWeights de la región por tier: si queda vacío, la región hereda el mapa global
+    const patchOverrideTier = (region: string, key: 'quota' | 'tierWeights', tier: string, value: number | undefined) => {
+        const map = { ...(draft.regionOverrides?.[region]?.[key] ?? {}) };
+        if (value === undefined) delete map[tier];
+        else map[tier] = value;
+        patchOverride(region, { [key]: Object.keys(map).length ? map : undefined });
+    };
+
+    // Regla de precio: undefined = valor por defecto. Sin reglas se quita "pricing"
+    const patchPricing = (key: keyof PricingConfig, value: number | undefined) =>
+        setDraft((d) => {
+            const pricing: PricingConfig = { ...(d.pricing ?? {}), [key]: value };
+            if (value === undefined) delete pricing[key];
+            return { ...d, pricing: Object.keys(pricing).length ? pricing : undefined };
+        });
+
+    const override = draft.regionOverrides?.[overrideRegion];
+    // Valor de un input numérico opcional (vacío = heredar)
+    const optional = (value: number | undefined) => (value === undefined || Number.isNaN(value) ? '' : value);
+    const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+    const handleSave = async () => {
+        setSaving(true);
+        setSaveError(null);
+        try {
+            await updateConfig(draft);
+        } catch (err) {
+            console.error(`[Ajustes] Error guardando configuración:`, err);
+            setSaveError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleClose = () => {
+        if (dirty && !window.confirm('Hay cambios sin guardar en la configuración. ¿Cerrar igualmente?')) return;
+        onClose();
+    };
+
+    return (
+        <div className='space-y-4 text-sm'>
+            <div className='flex items-center justify-between'>
+                <h3 className='font-semibold'>Editar configuración</h3>
+                <button className='btn-secondary' onClick={handleClose}>
+                    ✕
+                </button>
+            </div>
+
+            {/* Tienda */}
+            <label className='flex items-center justify-between gap-2'>
+                Tamaño de tienda
+                <input
+                    className='input w-20'
+                    type='number'
+                    min={1}
+                    value={Number.isNaN(draft.shopSize) ? '' : draft.shopSize}
+                    onChange={(e) => patch({ shopSize: toNumber(e.target.value) })}
+                />
+            </label>
+
+            {/* Cuotas, pesos y colores por tier */}
+            <div>
+                <div className='mb-1 font-medium'>Tiers</div>
+                <table className='w-full'>
+                    <thead className='text-left opacity-70 text-xs'>
+                        <tr>
+                            <th className='pr-1'>Tier</th>
+                            <th className='pr-1'>Mínimo</th>
+                            <th className='pr-1'>Peso</th>
+                            <th className='pr-1'>%</th>
+                            <th className='pr-1'>Color</th>
+                            <th>Fallback</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {tiers.map((tier) => (
+                            <tr key={tier}>
+                                <td className='pr-1 font-semibold' style={{ color: tierColor(draft, tier) }}>
+                                    {tierLabel(draft, tier)}
+                                </td>
+                                <td className='pr-1 py-0.5'>
+                                    <input
+                                        className='input w-14 py-0.5'
+                                        type='number'
+                                        min={0}
+                                        value={draft.quota[tier] === undefined || Number.isNaN(draft.quota[tier]) ? '' : draft.quota[tier]}
+                                        onChange={(e) =>
+                                            patchTierMap('quota', tier, e.target.value === '' ? undefined : toNumber(e.target.value))
+                                        }
+                                    />
+                                </td>
+                                <td className='pr-1 py-0.5'>
+                                    <input
+                                        className='input w-14 py-0.5'
+                                        type='number'
+                                        min={0}
+                                        value={
+                                            draft.tierWeights?.[tier] === undefined || Number.isNaN(draft.tierWeights[tier])
+                                                ? ''
+                                                : draft.tierWeights[tier]
+                                        }
+                                        onChange={(e) =>
+                                            patchTierMap('tierWeights', tier, e.target.value === '' ? undefined : toNumber(e.target.value))
+                                        }
+                                    />
+                                </td>
+                                <td className='pr-1 opacity-80 tabular-nums'>{percentOf(tier).toFixed(1)}</td>
+                                <td className='pr-1 py-0.5'>
+                                    <input
+                                        type='color'
+                                        className='h-7 w-10 bg-transparent cursor-pointer'
+                                        value={tierColor(draft, tier)}
+                                        onChange={(e) => setTierColor(tier, e.target.value)}
+                                    />
+                                </td>
+                                <td className='py-0.5'>
+                                    <input
+                                        key={formatChain(draft.tierFallbackChain?.[tier])}
+                                        className='input w-20 py-0.5'
+                                        placeholder='auto'
+                                        defaultValue={formatChain(draft.tierFallbackChain?.[tier])}
+                                        onBlur={(e) =>
+                                            patch({
+                                                tierFallbackChain: withChain(draft.tierFallbackChain, tier, parseChain(e.target.value)),
+                                            })
+                                        }
+                                    />
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <div className='text-xs opacity-70 mt-1'>
+                    Mínimos: {quotaTotal} de {Number.isFinite(draft.shopSize) ? draft.shopSize : '?'} slots. Los pesos
+                    se normalizan a porcentaje para rellenar el resto.
+                </div>
+                <div className='text-xs opacity-70'>
+                    Fallback: tiers que se prueban en orden si no quedan pokémon del tier (ej: A, B). Vacío = inferiores
+                    y luego superiores según los pesos; "-" = sin fallback.
+                </div>
+                <div className='flex gap-2 mt-2'>
+                    <input
+                        className='input w-20 py-0.5'
+                        placeholder='Tier'
+                        value={newTier}
+                        onChange={(e) => setNewTier(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && addTier()}
+                    />
+                    <button className='btn-secondary py-0.5' onClick={addTier}>
+                        Añadir tier
+                    </button>
+                </div>
+                <label className='flex items-center gap-2 mt-2'>
+                    <input
+                        type='checkbox'
+                        checked={!!draft.tiers?.length}
+                        onChange={(e) => toggleTierDefs(e.target.checked)}
+                    />
+                    Orden, nombres e iconos propios (en lugar de S &gt; A &gt; B…)
+                </label>
+                {!!draft.tiers?.length && (
+                    <table className='w-full mt-1'>
+                        <thead className='text-left opacity-70 text-xs'>
+                            <tr>
+                                <th className='pr-1'>Tier</th>
+                                <th className='pr-1'>Nombre</th>
+                                <th className='pr-1'>Icono</th>
+                                <th>Rango</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {draft.tiers.map((def) => (
+                                <tr key={def.id}>
+                                    <td className='pr-1 font-semibold' style={{ color: tierColor(draft, def.id) }}>
+                                        {def.id}
+                                    </td>
+                                    <td className='pr-1 py-0.5'>
+                                        <input
+                                            className='input w-28 py-0.5'
+                                            placeholder={def.id}
+                                            value={def.name ?? ''}
+                                            onChange={(e) => patchTierDef(def.id, { name: e.target.value || undefined })}
+                                        />
+                                    </td>
+                                    <td className='pr-1 py-0.5'>
+                                        <input
+                                            className='input w-12 py-0.5'
+                                            value={def.icon ?? ''}
+                                            onChange={(e) => patchTierDef(def.id, { icon: e.target.value || undefined })}
+                                        />
+                                    </td>
+                                    <td className='py-0.5'>
+                                        <input
+                                            className='input w-16 py-0.5'
+                                            type='number'
+                                            value={Number.isNaN(def.rank) ? '' : def.rank}
+                                            onChange={(e) => patchTierDef(def.id, { rank: toNumber(e.target.value) })}
+                                        />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+                {!!draft.tiers?.length && (
+                    <div className='text-xs opacity-70 mt-1'>
+                        Mayor rango = mejor tier. Los tiers que no están en la lista quedan por debajo de todos.
+                    </div>
+                )}
+                <label className='flex items-center justify-between gap-2 mt-2'>
+                    Color por defecto
+                    <input
+                        type='color'
+                        className='h-7 w-10 bg-transparent cursor-pointer'
+                        value={draft.defaultTierColor ?? '#9ca3af'}
+                        onChange={(e) => patch({ defaultTierColor: e.target.value })}
+                    />
+                </label>
+            </div>
+
+            {/* Orden de regiones (arrastrar para reordenar) */}
+            <div>
+                <div className='mb-1 font-medium'>Orden de regiones</div>
+                <ul className='space-y-1'>
+                    {draft.regionsOrder.map((region, i) => (
+                        <li
+                            key={`${region}-${i}`}
+                            draggable
+                            onDragStart={() => setDragIndex(i)}
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={() => {
+                                if (dragIndex !== null) moveRegion(dragIndex, i);
+                                setDragIndex(null);
+                            }}
+                            onDragEnd={() => setDragIndex(null)}
+                            className={`flex items-center gap-2 px-2 py-1 rounded-md bg-neutral-800 cursor-move ${
+                                dragIndex === i ? 'opacity-50' : ''
+                            }`}
+                        >
+                            <span className='opacity-50'>⋮⋮</span>
+                            <span className='flex-1'>{region}</span>
+                            <button
+                                className='opacity-70 hover:opacity-100'
+                                onClick={() => patch({ regionsOrder: draft.regionsOrder.filter((_, j) => j !== i) })}
+                                title='Quitar región'
+                            >
+                                ✕
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                <div className='flex gap-2 mt-2'>
+                    <input
+                        className='input flex-1 py-0.5'
+                        placeholder='Nueva región'
+                        value={newRegion}
+                        onChange={(e) => setNewRegion(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && addRegion()}
+                    />
+                    <button className='btn-secondary py-0.5' onClick={addRegion}>
+                        Añadir
+                    </button>
+                </div>
+            </div>
+
+            {/* Ajustes por región (vacío = usar el valor global) */}
+            <div>
+                <div className='mb-1 font-medium'>Ajustes por región</div>
+                <div className='flex gap-2 mb-2'>
+                    <select
+                        className='input flex-1 py-0.5'
+                        value={overrideRegion}
+                        onChange={(e) => setOverrideRegion(e.target.value)}
+                    >
+                        {draft.regionsOrder.map((region) => (
+                            <option key={region} value={region}>
+                                {region}
+                                {draft.regionOverrides?.[region] ? ' *' : ''}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        className='btn-secondary py-0.5'
+                        onClick={() => patchOverride(overrideRegion, {
+                            shopSize: undefined,
+                            quota: undefined,
+                            tierWeights: undefined,
+                            allowDuplicates: undefined,
+                            rerollsPerRegion: undefined,
+                            priceMultiplier: undefined,
+                            tierFallback: undefined,
+                            tierFallbackChain: undefined,
+                            tierFallbackNoUpgrade: undefined,
+                        })}
+                        disabled={!override}
+                        title='Quitar los ajustes de esta región'
+                    >
+                        Quitar
+                    </button>
+                </div>
+                {overrideRegion && (
+                    <div className='space-y-2'>
+                        <label className='flex items-center justify-between gap-2'>
+                            Tamaño de tienda
+                            <input
+                                className='input w-20 py-0.5'
+                                type='number'
+                                placeholder={String(draft.shopSize)}
+                                value={optional(override?.shopSize)}
+                                onChange={(e) => patchOverride(overrideRegion, { shopSize: optionalNumber(e.target.value) })}
+                            />
+                        </label>
+                        <label className='flex items-center justify-between gap-2'>
+                            Rerolls máximos
+                            <input
+                                className='input w-20 py-0.5'
+                                type='number'
+                                placeholder={String(draft.rerollsPerRegion)}
+                                value={optional(override?.rerollsPerRegion)}
+                                onChange={(e) =>
+                                    patchOverride(overrideRegion, { rerollsPerRegion: optionalNumber(e.target.value) })
+                                }
+                            />
+                        </label>
+                        <label className='flex items-center justify-between gap-2'>
+                            Multiplicador de precio
+                            <input
+                                className='input w-20 py-0.5'
+                                type='number'
+                                step={0.1}
+                                placeholder='1'
+                                value={optional(override?.priceMultiplier)}
+                                onChange={(e) =>
+                                    patchOverride(overrideRegion, { priceMultiplier: optionalNumber(e.target.value) })
+                                }
+                            />
+                        </label>
+                        <label className='flex items-center justify-between gap-2'>
+                            Duplicados
+                            <select
+                                className='input w-auto py-0.5'
+                                value={override?.allowDuplicates === undefined ? '' : String(override.allowDuplicates)}
+                                onChange={(e) =>
+                                    patchOverride(overrideRegion, {
+                                        allowDuplicates: e.target.value === '' ? undefined : e.target.value === 'true',
+                                    })
+                                }
+                            >
+                                <option value=''>Global ({draft.allowDuplicates ? 'sí' : 'no'})</option>
+                                <option value='true'>Sí</option>
+                                <option value='false'>No</option>
+                            </select>
+                        </label>
+                        {([
+                            ['tierFallback', 'Fallback de tiers'],
+                            ['tierFallbackNoUpgrade', 'Fallback sin subir de tier'],
+                        ] as const).map(([key, label]) => (
+                            <label key={key} className='flex items-center justify-between gap-2'>
+                                {label}
+                                <select
+                                    className='input w-auto py-0.5'
+                                    value={override?.[key] === undefined ? '' : String(override[key])}
+                                    onChange={(e) =>
+                                        patchOverride(overrideRegion, {
+                                            [key]: e.target.value === '' ? undefined : e.target.value === 'true',
+                                        })
+                                    }
+                                >
+                                    <option value=''>Global ({draft[key] ? 'sí' : 'no'})</option>
+                                    <option value='true'>Sí</option>
+                                    <option value='false'>No</option>
+                                </select>
+                            </label>
+                        ))}
+                        <table className='w-full'>
+                            <thead className='text-left opacity-70 text-xs'>
+                                <tr>
+                                    <th className='pr-1'>Tier</th>
+                                    <th className='pr-1'>Mínimo</th>
+                                    <th className='pr-1'>Peso</th>
+                                    <th>Fallback</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {tiers.map((tier) => (
+                                    <tr key={tier}>
+                                        <td className='pr-1 font-semibold' style={{ color: tierColor(draft, tier) }}>
+                                            {tierLabel(draft, tier)}
+                                        </td>
+                                        {(['quota', 'tierWeights'] as const).map((key) => (
+                                            <td key={key} className='pr-1 py-0.5'>
+                                                <input
+                                                    className='input w-16 py-0.5'
+                                                    type='number'
+                                                    min={0}
+                                                    placeholder={String(draft[key]?.[tier] ?? 0)}
+                                                    value={optional(override?.[key]?.[tier])}
+                                                    onChange={(e) =>
+                                                        patchOverrideTier(overrideRegion, key, tier, optionalNumber(e.target.value))
+                                                    }
+                                                />
+                                            </td>
+                                        ))}
+                                        <td className='py-0.5'>
+                                            <input
+                                                key={formatChain(override?.tierFallbackChain?.[tier])}
+                                                className='input w-20 py-0.5'
+                                                placeholder={formatChain(draft.tierFallbackChain?.[tier]) || 'auto'}
+                                                defaultValue={formatChain(override?.tierFallbackChain?.[tier])}
+                                                onBlur={(e) =>
+                                                    patchOverride(overrideRegion, {
+                                                        tierFallbackChain: withChain(
+                                                            override?.tierFallbackChain,
+                                                            tier,
+                                                            parseChain(e.target.value)
+                                                        ),
+                                                    })
+                                                }
+                                            />
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <div className='text-xs opacity-70'>
+                            Los campos vacíos usan el valor global. Si das algún mínimo, peso o fallback, la región usa
+                            solo los suyos en lugar de los globales.
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {/* Precios dinámicos (vacío = sin esa regla) */}
+            <div className='space-y-2'>
+                <div className='font-medium'>Precios</div>
+                {PRICING_FIELDS.map(({ key, label, placeholder }) => (
+                    <label key={key} className='flex items-center justify-between gap-2'>
+                        {label}
+                        <input
+                            className='input w-20 py-0.5'
+                            type='number'
+                            min={0}
+                            placeholder={placeholder}
+                            value={optional(draft.pricing?.[key])}
+                            onChange={(e) => patchPricing(key, optionalNumber(e.target.value))}
+                        />
+                    </label>
+                ))}
+                <label className='flex items-center justify-between gap-2'>
+                    Devolución al vender (%)
+                    <input
+                        className='input w-20 py-0.5'
+                        type='number'
+                        min={0}
+                        max={100}
+                        placeholder='50'
+                        value={optional(draft.sellRefundPercent)}
+                        onChange={(e) => patch({ sellRefundPercent: optionalNumber(e.target.value) })}
+                    />
+                </label>
+            </div>
+
+            {/* Rerolls e intervalos */}
+            <div className='space-y-2'>
+                <label className='flex items-center justify-between gap-2'>
+                    Rerolls máximos
+                    <input
+                        className='input w-20'
+                        type='number'
+                        min={0}
+                        value={Number.isNaN(draft.rerollsPerRegion) ? '' : draft.rerollsPerRegion}
+                        onChange={(e) => patch({ rerollsPerRegion: toNumber(e.target.value) })}
+                    />
+                </label>
+                <label className='flex items-center justify-between gap-2'>
+                    Política de rerolls
+                    <select
+                        className='input w-auto'
+                        value={rerollPolicyOf(draft)}
+                        onChange={(e) => patch({ rerollPolicy: e.target.value as RerollPolicy })}
+                    >
+                        {REROLL_POLICIES.map(({ id, label }) => (
+                            <option key={id} value={id}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                {rerollPolicyOf(draft) === 'tier' && (
+                    <div className='space-y-1 pl-3'>
+                        {tiers.map((tier) => (
+                            <label key={tier} className='flex items-center justify-between gap-2'>
+                                <span style={{ color: tierColor(draft, tier) }}>Rerolls del tier {tierLabel(draft, tier)}</span>
+                                <input
+                                    className='input w-20 py-0.5'
+                                    type='number'
+                                    min={0}
+                                    placeholder={String(draft.rerollsPerRegion)}
+                                    value={optional(draft.rerollTierBudgets?.[tier])}
+                                    onChange={(e) => patchTierBudget(tier, optionalNumber(e.target.value))}
+                                />
+                            </label>
+                        ))}
+                    </div>
+                )}
+                {rerollPolicyOf(draft) === 'slot' && (
+                    <label className='flex items-center justify-between gap-2 pl-3'>
+                        Rerolls por slot
+                        <input
+                            className='input w-20'
+                            type='number'
+                            min={0}
+                            placeholder='1'
+                            value={optional(draft.rerollsPerSlot)}
+                            onChange={(e) => patch({ rerollsPerSlot: optionalNumber(e.target.value) })}
+                        />
+                    </label>
+                )}
+                {rerollPolicyOf(draft) === 'paid' && (
+                    <>
+                        <label className='flex items-center justify-between gap-2 pl-3'>
+                            Precio del primer reroll
+                            <input
+                                className='input w-20'
+                                type='number'
+                                min={0}
+                                placeholder={String(DEFAULT_REROLL_COST)}
+                                value={optional(draft.rerollCost)}
+                                onChange={(e) => patch({ rerollCost: optionalNumber(e.target.value) })}
+                            />
+                        </label>
+                        <label
+                            className='flex items-center justify-between gap-2 pl-3'
+                            title='El precio vuelve al inicial cuando se recargan los rerolls'
+                        >
+                            Subida por cada reroll (%)
+                            <input
+                                className='input w-20'
+                                type='number'
+                                min={0}
+                                placeholder={String(DEFAULT_REROLL_COST_INCREASE)}
+                                value={optional(draft.rerollCostIncrease)}
+                                onChange={(e) => patch({ rerollCostIncrease: optionalNumber(e.target.value) })}
+                            />
+                        </label>
+                    </>
+                )}
+                {INTERVALS.map(({ key, label }) => (
+                    <label key={key} className='flex items-center justify-between gap-2'>
+                        <span>
+                            {label} <span className='opacity-60'>(-1 = nunca)</span>
+                        </span>
+                        <input
+                            className='input w-20'
+                            type='number'
+                            min={-1}
+                            value={Number.isNaN(draft[key]) ? '' : draft[key]}
+                            onChange={(e) => patch({ [key]: toNumber(e.target.value) })}
+                        />
+                    </label>
+                ))}
+                <label
+                    className='flex items-center justify-between gap-2'
+                    title='Los slots bloqueados se conservan al actualizar o regenerar la tienda. 0 = sin bloqueos'
+                >
+                    Slots bloqueables a la vez
+                    <input
+                        className='input w-20'
+                        type='number'
+                        min={0}
+                        placeholder='2'
+                        value={optional(draft.maxLockedSlots)}
+                        onChange={(e) => patch({ maxLockedSlots: optionalNumber(e.target.value) })}
+                    />
+                </label>
+                <label
+                    className='flex items-center justify-between gap-2'
+                    title='Cambios de grupo de regiones que aguanta una reserva antes de caducar y perder el depósito. 0 = sin reservas'
+                >
+                    Duración de las reservas
+                    <input
+                        className='input w-20'
+                        type='number'
+                        min={0}
+                        placeholder='2'
+                        value={optional(draft.reserveHoldRegions)}
+                        onChange={(e) => patch({ reserveHoldRegions: optionalNumber(e.target.value) })}
+                    />
+                </label>
+                <label
+                    className='flex items-center justify-between gap-2'
+                    title='Parte del precio que se paga al reservar; el resto se paga al completar la compra'
+                >
+                    Depósito de reserva (%)
+                    <input
+                        className='input w-20'
+                        type='number'
+                        min={0}
+                        max={100}
+                        placeholder='25'
+                        value={optional(draft.reserveDepositPercent)}
+                        onChange={(e) => patch({ reserveDepositPercent: optionalNumber(e.target.value) })}
+                    />
+                </label>
+                <label className='flex items-center justify-between gap-2'>
+                    Acciones que se pueden deshacer
+                    <input
+                        className='input w-20'
+                        type='number'
+                        min={0}
+                        placeholder='20'
+                        value={optional(draft.undoDepth)}
+                        onChange={(e) => patch({ undoDepth: optionalNumber(e.target.value) })}
+                    />
+                </label>
+                <label
+                    className='flex items-center justify-between gap-2'
+                    title='Los eventos más antiguos se mueven a history-archive.jsonl. 0 = sin límite'
+                >
+                    Eventos del historial en el guardado
+                    <input
+                        className='input w-20'
+                        type='number'
+                        min={0}
+                        placeholder='500'
+                        value={optional(draft.historyLimit)}
+                        onChange={(e) => patch({ historyLimit: optionalNumber(e.target.value) })}
+                    />
+                </label>
+            </div>
+
+            {/* Opciones */}
+            <div className='space-y-1'>
+                {FLAGS.map(({ key, label }) => (
+                    <label key={key} className='flex items-center gap-2'>
+                        <input
+                            type='checkbox'
+                            checked={Boolean(draft[key])}
+                            onChange={(e) => patch({ [key]: e.target.checked })}
+                        />
+                        {label}
+                    </label>
+                ))}
+            </div>
+
+            {/* Archivos y semilla */}
+            <div className='space-y-2'>
+                <label className='flex items-center justify-between gap-2'>
+                    Archivo de datos
+                    <input
+                        className='input w-40'
+                        value={draft.dataFile}
+                        onChange={(e) => patch({ dataFile: e.target.value })}
+                    />
+                </label>
+                <label className='flex items-center justify-between gap-2'>
+                    <span>
+                        Semilla fija <span className='opacity-60'>(vacío = aleatoria)</span>
+                    </span>
+                    <input
+                        className='input w-32'
+                        type='number'
+                        value={typeof draft.seed === 'number' && !Number.isNaN(draft.seed) ? draft.seed : ''}
+                        onChange={(e) => patch({ seed: e.target.value.trim() === '' ? null : toNumber(e.target.value) })}
+                    />
+                </label>
+            </div>
+
+            {/* Vista previa de la configuración sin guardar */}
+            <OddsSimulator config={draft} disabled={errorCount > 0} />
+
+            {(issues.length > 0 || saveError) && (
+                <ul className='space-y-1 max-h-32 overflow-auto customScroll'>
+                    {saveError && <li className='text-red-400 p-1 bg-red-400/10 rounded'>{saveError}</li>}
+                    {issues.map((issue, i) => (
+                        <li
+                            key={`${issue.path}-${i}`}
+                            className={`p-1 rounded ${
+                                issue.severity === 'warning'
+                                    ? 'text-yellow-400 bg-yellow-400/10'
+                                    : 'text-red-400 bg-red-400/10'
+                            }`}
+                        >
+                            <code>{issue.path}</code>: {issue.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className='flex gap-2'>
+                <button
+                    className='btn-confirm flex-1'
+                    onClick={handleSave}
+                    disabled={!dirty || errorCount > 0 || saving}
+                    title={errorCount > 0 ? 'Corrige los errores antes de guardar' : 'Guardar en config.json y aplicar'}
+                >
+                    {saving ? 'Guardando…' : 'Guardar y aplicar'}
+                </button>
+                <button className='btn-secondary' onClick={() => setDraft(cloneConfig(cfg!))} disabled={!dirty}>
+                    Descartar
+                </button>
+            </div>
+        </div>
+    );
+}
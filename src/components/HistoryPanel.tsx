@@ -1,25 +1,217 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+    EMPTY_HISTORY_FILTER,
+    exportHistory,
+    filterHistory,
+    HISTORY_TYPE_LABELS,
+    type HistoryFilter,
+} from '../lib/history';
 import { useShopStore } from '../store/useShopStore';
+import type { HistoryEventType } from '../types';
+
+const PAGE_SIZE = 50;
 
 export default function HistoryPanel() {
     const history = useShopStore((s) => s.history);
+    const regions = useShopStore((s) => s.regions);
+    const undoStack = useShopStore((s) => s.undoStack);
+    const undoTo = useShopStore((s) => s.undoTo);
+
+    const [filter, setFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+    const [showFilters, setShowFilters] = useState(false);
+    const [page, setPage] = useState(0);
+
+    // Posición en la pila de deshacer de cada evento que aún se puede deshacer
+    const undoDepthById = useMemo(() => {
+        const map = new Map<string, number>();
+        undoStack.forEach((entry, i) => {
+            if (entry.historyId) map.set(entry.historyId, i + 1);
+        });
+        return map;
+    }, [undoStack]);
+
+    const filtered = useMemo(() => filterHistory(history, filter), [history, filter]);
+    const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+    const visible = filtered.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+    const filtering = JSON.stringify(filter) !== JSON.stringify(EMPTY_HISTORY_FILTER);
+
+    // Al cambiar los filtros se vuelve a la primera página
+    useEffect(() => setPage(0), [filter]);
+    useEffect(() => {
+        if (page >= pageCount) setPage(pageCount - 1);
+    }, [page, pageCount]);
+
+    const patchFilter = (changes: Partial<HistoryFilter>) => setFilter((f) => ({ ...f, ...changes }));
+
+    const toggleType = (type: HistoryEventType) =>
+        patchFilter({
+            types: filter.types.includes(type) ? filter.types.filter((t) => t !== type) : [...filter.types, type],
+        });
+
+    const handleUndoTo = (historyId: string, count: number) => {
+        if (count > 1 && !window.confirm(`Se desharán las últimas ${count} acciones. ¿Continuar?`)) return;
+        undoTo(historyId);
+    };
+
+    const handleExport = async (format: 'csv' | 'json') => {
+        try {
+            const path = await exportHistory(filtered, format);
+            if (path) window.alert(`Historial exportado a:\n${path}`);
+        } catch (err) {
+            console.error(`[HistoryPanel] Error exportando historial:`, err);
+            window.alert('No se pudo exportar el historial.');
+        }
+    };
+
     return (
-        <div className='card p-3 max-h-72 text-neutral-100 flex flex-col gap-2'>
-            <h2 className='font-semibold'>Historial</h2>
+        <div className='card p-3 max-h-[32rem] text-neutral-100 flex flex-col gap-2'>
+            <div className='flex items-center gap-2'>
+                <h2 className='font-semibold'>Historial</h2>
+                <span className='text-xs opacity-60'>
+                    {filtering ? `${filtered.length} de ${history.length}` : history.length}
+                </span>
+                <div className='ml-auto flex gap-1'>
+                    <button
+                        className={showFilters || filtering ? 'btn text-xs' : 'btn-secondary text-xs'}
+                        onClick={() => setShowFilters(!showFilters)}
+                    >
+                        Filtros
+                    </button>
+                    <button
+                        className='btn-secondary text-xs'
+                        onClick={() => handleExport('csv')}
+                        disabled={!filtered.length}
+                        title='Exportar los eventos filtrados a CSV'
+                    >
+                        CSV
+                    </button>
+                    <button
+                        className='btn-secondary text-xs'
+                        onClick={() => handleExport('json')}
+                        disabled={!filtered.length}
+                        title='Exportar los eventos filtrados a JSON'
+                    >
+                        JSON
+                    </button>
+                </div>
+            </div>
+
+            <input
+                className='input w-full text-sm'
+                type='search'
+                placeholder='Buscar en el historial…'
+                value={filter.query}
+                onChange={(e) => patchFilter({ query: e.target.value })}
+            />
+
+            {showFilters && (
+                <div className='space-y-2 text-sm'>
+                    <div className='flex flex-wrap gap-1'>
+                        {(Object.keys(HISTORY_TYPE_LABELS) as HistoryEventType[]).map((type) => (
+                            <button
+                                key={type}
+                                className={`px-2 py-0.5 rounded border text-xs ${
+                                    filter.types.includes(type)
+                                        ? 'border-blue-400 bg-blue-400/20'
+                                        : 'border-neutral-700 opacity-70 hover:opacity-100'
+                                }`}
+                                onClick={() => toggleType(type)}
+                            >
+                                {HISTORY_TYPE_LABELS[type]}
+                            </button>
+                        ))}
+                    </div>
+                    <div className='flex flex-wrap items-center gap-2'>
+                        <select
+                            className='input py-0.5'
+                            value={filter.region ?? '*'}
+                            onChange={(e) => patchFilter({ region: e.target.value === '*' ? null : e.target.value })}
+                        >
+                            <option value='*'>Todas las regiones</option>
+                            {regions.map((region) => (
+                                <option key={region} value={region}>
+                                    {region}
+                                </option>
+                            ))}
+                            <option value=''>Sin región</option>
+                        </select>
+                        <label className='flex items-center gap-1'>
+                            Desde
+                            <input
+                                className='input py-0.5'
+                                type='date'
+                                value={filter.from}
+                                onChange={(e) => patchFilter({ from: e.target.value })}
+                            />
+                        </label>
+                        <label className='flex items-center gap-1'>
+                            Hasta
+                            <input
+                                className='input py-0.5'
+                                type='date'
+                                value={filter.to}
+                                onChange={(e) => patchFilter({ to: e.target.value })}
+                            />
+                        </label>
+                        {filtering && (
+                            <button className='btn-secondary text-xs' onClick={() => setFilter(EMPTY_HISTORY_FILTER)}>
+                                Limpiar
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+
             <div className='overflow-auto customScroll h-full'>
+                {filtering && !filtered.length && (
+                    <p className='text-sm opacity-60'>Ningún evento coincide con los filtros.</p>
+                )}
                 <ul className='space-y-1 text-sm'>
-                    {history.map((h) => (
-                        <li
-                            key={h.id}
-                            className='border-b border-neutral-700 pb-1'
-                        >
-                            <span className='opacity-70'>
-                                [{new Date(h.ts).toLocaleString()}]
-                            </span>{' '}
-                            {h.message}
-                        </li>
-                    ))}
+                    {visible.map((h) => {
+                        const count = undoDepthById.get(h.id);
+                        return (
+                            <li
+                                key={h.id}
+                                className='border-b border-neutral-700 pb-1 flex items-start gap-2'
+                            >
+                                <div className='flex-1'>
+                                    <span className='opacity-70'>
+                                        [{new Date(h.ts).toLocaleString()}]
+                                    </span>{' '}
+                                    {h.message}
+                                </div>
+                                {count !== undefined && (
+                                    <button
+                                        className='opacity-60 hover:opacity-100'
+                                        onClick={() => handleUndoTo(h.id, count)}
+                                        title={`Deshacer hasta aquí (${count} acción(es))`}
+                                    >
+                                        ↶
+                                    </button>
+                                )}
+                            </li>
+                        );
+                    })}
                 </ul>
             </div>
+
+            {pageCount > 1 && (
+                <div className='flex items-center justify-center gap-2 text-sm'>
+                    <button className='btn-secondary text-xs' onClick={() => setPage(page - 1)} disabled={page === 0}>
+                        ◀
+                    </button>
+                    <span className='opacity-70'>
+                        Página {page + 1} de {pageCount}
+                    </span>
+                    <button
+                        className='btn-secondary text-xs'
+                        onClick={() => setPage(page + 1)}
+                        disabled={page >= pageCount - 1}
+                    >
+                        ▶
+                    </button>
+                </div>
+            )}
         </div>
     );
 }
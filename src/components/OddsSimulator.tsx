@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { simulateRegion, type RegionSimulation } from '../lib/simulator';
+import { tierColor, tierLabel } from '../lib/tiers';
+import { useShopStore } from '../store/useShopStore';
+import type { AppConfig } from '../types';
+
+const RUN_OPTIONS = [500, 2000, 5000, 10000];
+const TOP_ODDS = 3; // pokémon más probables que se resumen sin desplegar la lista
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Simula la configuración (normalmente el borrador del editor, antes de guardar)
+export default function OddsSimulator({ config, disabled }: { config: AppConfig; disabled?: boolean }) {
+    const data = useShopStore((s) => s.data);
+    const [runs, setRuns] = useState(2000);
+    const [region, setRegion] = useState('');
+    const [results, setResults] = useState<RegionSimulation[]>([]);
+    const [running, setRunning] = useState(false);
+    const [expanded, setExpanded] = useState<string | null>(null);
+
+    const run = async () => {
+        setRunning(true);
+        setResults([]);
+        const regions = region ? [region] : config.regionsOrder;
+        const out: RegionSimulation[] = [];
+        for (const r of regions) {
+            // Cede el hilo entre regiones para que la UI no se congele
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            out.push(simulateRegion(data, r, config, runs));
+            setResults([...out]);
+        }
+        setRunning(false);
+    };
+
+    return (
+        <div className='space-y-2'>
+            <div className='font-medium'>Simular probabilidades</div>
+            <div className='flex gap-2'>
+                <select className='input flex-1 py-0.5' value={region} onChange={(e) => setRegion(e.target.value)}>
+                    <option value=''>Todas las regiones</option>
+                    {config.regionsOrder.map((r) => (
+                        <option key={r} value={r}>
+                            {r}
+                        </option>
+                    ))}
+                </select>
+                <select className='input w-auto py-0.5' value={runs} onChange={(e) => setRuns(Number(e.target.value))}>
+                    {RUN_OPTIONS.map((n) => (
+                        <option key={n} value={n}>
+                            {n} tiendas
+                        </option>
+                    ))}
+                </select>
+                <button className='btn py-0.5' onClick={run} disabled={disabled || running}>
+                    {running ? '…' : 'Simular'}
+                </button>
+            </div>
+
+            {results.map((sim) => (
+                <div key={sim.region} className='rounded-md bg-neutral-800 p-2 space-y-1'>
+                    <div className='flex justify-between'>
+                        <strong>{sim.region}</strong>
+                        <span className='opacity-70'>{sim.poolSize} pokémon en la región</span>
+                    </div>
+                    <div className='flex flex-wrap gap-x-3'>
+                        {Object.entries(sim.tierDistribution).map(([tier, avg]) => (
+                            <span key={tier} style={{ color: tierColor(config, tier) }}>
+                                {tierLabel(config, tier)}: {avg.toFixed(2)} ({pct(sim.shopSize > 0 ? avg / sim.shopSize : 0)})
+                            </span>
+                        ))}
+                    </div>
+                    <div className='opacity-80'>
+                        Huecos: {pct(sim.emptySlotRate)} de los slots, en {pct(sim.emptyShopRate)} de las tiendas
+                    </div>
+                    <div className='opacity-80'>
+                        Fallback: {pct(sim.fallbackSlotRate)} de los slots, en {pct(sim.fallbackShopRate)} de las
+                        tiendas
+                    </div>
+                    <div className='opacity-80'>
+                        Coste medio de la tienda completa: <strong>{Math.round(sim.expectedCost)}$</strong>
+                    </div>
+                    <button
+                        className='text-xs underline opacity-70 hover:opacity-100'
+                        onClick={() => setExpanded(expanded === sim.region ? null : sim.region)}
+                    >
+                        {expanded === sim.region ? 'Ocultar' : 'Ver'} probabilidad por pokémon
+                    </button>
+                    {expanded === sim.region && (
+                        <ul className='max-h-40 overflow-auto customScroll text-xs'>
+                            {sim.pokemonOdds.map((odds) => (
+                                <li key={odds.id} className='flex justify-between'>
+                                    <span>
+                                        {odds.nombre} ({odds.tier}
+                                        {odds.weight !== 1 ? ` · peso ${odds.weight}` : ''})
+                                    </span>
+                                    <span className='tabular-nums'>{pct(odds.probability)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {expanded !== sim.region && sim.pokemonOdds.length > 0 && (
+                        <div className='text-xs opacity-60'>
+                            Más probables:{' '}
+                            {sim.pokemonOdds
+                                .slice(0, TOP_ODDS)
+                                .map((odds) => `${odds.nombre} ${pct(odds.probability)}`)
+                                .join(', ')}
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
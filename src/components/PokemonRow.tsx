@@ -1,13 +1,24 @@
-import { useShopStore } from '../store/useShopStore';
-import type { ShopPokemon } from '../types';
+import { describePrice } from '../lib/pricing';
+import { lockLimitOf, reserveDepositOf, reserveHoldOf } from '../lib/runActions';
+import { canSpendReroll, rerollBudgetOf, rerollsLeft } from '../lib/rerollPolicy';
+import { tierColor, tierIcon, tierLabel, tierPriority } from '../lib/tiers';
+import { priceOf, useShopStore } from '../store/useShopStore';
+import type { RerollPolicy, ShopPokemon } from '../types';
 import SpriteImg from './SpriteImg';
 
+// Dónde se cuentan los rerolls restantes en cada política (tooltip del botón de reroll)
+const REROLL_SCOPES: Record<RerollPolicy, string> = {
+    global: 'en total',
+    region: 'en esta región',
+    tier: 'en este tier',
+    slot: 'en este slot',
+    paid: '',
+};
+
 // Hook para obtener el color asociado a un tier específico
 function useTierColor(tier: string): string {
     const cfg = useShopStore((s) => s.cfg);
-    const normalizedTier = String(tier || '').toUpperCase();
-    const colorMap = cfg?.tierColors || {};
-    return colorMap[normalizedTier] || cfg?.defaultTierColor || '#9ca3af';
+    return tierColor(cfg, String(tier || ''));
 }
 
 export default function PokemonRow({
@@ -20,16 +31,42 @@ export default function PokemonRow({
     // Acciones de la tienda
     const buyAt = useShopStore((s) => s.buyAt);
     const rerollAt = useShopStore((s) => s.rerollAt);
+    const toggleLockAt = useShopStore((s) => s.toggleLockAt);
+    const reserveAt = useShopStore((s) => s.reserveAt);
+    const completeReservation = useShopStore((s) => s.completeReservation);
+    const reservation = useShopStore((s) => s.reservations.find((r) => r.id === p.__reserved));
+    const lockedCount = useShopStore((s) => s.shop.filter((slot) => slot.__locked).length);
     const money = useShopStore((s) => s.money);
     const cfg = useShopStore((s) => s.cfg);
     const usedGlobal = useShopStore((s) => s.rerollsUsedGlobal);
+    const usedBy = useShopStore((s) => s.rerollsUsedBy);
+    const activeRegion = useShopStore((s) => s.regions[s.currentRegionIndex] ?? '');
+    // Precio dinámico (se seleccionan primitivos para no re-renderizar en bucle)
+    const price = useShopStore((s) => priceOf(s, p).final);
+    const priceDetail = useShopStore((s) => describePrice(priceOf(s, p)));
 
     // Estado calculado
-    const maxRerolls = cfg?.rerollsPerRegion ?? 0;
-    const disabledReroll = (usedGlobal ?? 0) >= maxRerolls;
+    // Presupuesto de reroll del slot según la política (global, región, tier, slot o de pago)
+    const rerollBudget = cfg
+        ? rerollBudgetOf({ rerollsUsedGlobal: usedGlobal ?? 0, rerollsUsedBy: usedBy ?? {} }, cfg, activeRegion, p)
+        : null;
+    const disabledReroll = !rerollBudget || !canSpendReroll(rerollBudget, money);
+    const rerollTitle = !rerollBudget
+        ? 'Rerollear'
+        : rerollBudget.policy === 'paid'
+          ? `Rerollear por ${rerollBudget.cost}$`
+          : `Rerollear (${rerollsLeft(rerollBudget)} ${REROLL_SCOPES[rerollBudget.policy]})`;
     const isPurchased = !!p.__purchased;
     const isExhausted = !!p.__exhausted;
+    const isLocked = !!p.__locked;
+    const lockLimit = cfg ? lockLimitOf(cfg) : 0;
+    const canLock = isLocked || (!isPurchased && lockedCount < lockLimit);
+    const holdRegions = cfg ? reserveHoldOf(cfg) : 0;
+    const deposit = cfg ? reserveDepositOf(cfg, price) : 0;
+    const rest = reservation ? reservation.precio - reservation.deposit : 0;
     const borderColor = useTierColor(p.tier);
+    const fallbackFrom = p.__fallbackFrom;
+    const fallbackDown = fallbackFrom !== undefined && tierPriority(p.tier, cfg?.tiers) < tierPriority(fallbackFrom, cfg?.tiers);
 
     // Slot vacío o sin pokémon disponibles
     if (p.id === -1) {
@@ -46,6 +83,11 @@ export default function PokemonRow({
                 <button className='btn' disabled>
                     Comprar
                 </button>
+                {lockLimit > 0 && (
+                    <button className='btn-secondary' disabled title='Bloquear'>
+                        🔓
+                    </button>
+                )}
                 <button className='btn-secondary' disabled title='Rerollear'>
                     ⟳
                 </button>
@@ -55,7 +97,7 @@ export default function PokemonRow({
 
     return (
         <div
-            className='card p-3 flex items-center gap-2 text-neutral-100'
+            className={`card p-3 flex items-center gap-2 text-neutral-100 ${isLocked ? 'border-dashed' : ''}`}
             style={{ borderColor }}
         >
             {isPurchased || p == null ? (
@@ -73,27 +115,103 @@ export default function PokemonRow({
                 ) : (
                     <>
                         {p.nombre}{' '}
-                        <span className='opacity-70'>(Tier {p.tier})</span>
+                        <span className='opacity-70'>
+                            (Tier {tierIcon(cfg, p.tier) ? `${tierIcon(cfg, p.tier)} ` : ''}
+                            {tierLabel(cfg, p.tier)})
+                        </span>
+                        {reservation && (
+                            <span
+                                className='ml-1 px-1 rounded text-xs bg-neutral-700'
+                                title={`Depósito pagado: ${reservation.deposit}$ de ${reservation.precio}$`}
+                            >
+                                Reservado ·{' '}
+                                {reservation.regionsLeft > 0
+                                    ? `aguanta ${reservation.regionsLeft} cambio(s) de grupo`
+                                    : 'caduca en el próximo cambio de grupo'}
+                            </span>
+                        )}
+                        {fallbackFrom !== undefined && (
+                            <span
+                                className='ml-1 px-1 rounded text-xs bg-neutral-700'
+                                style={{ color: tierColor(cfg, fallbackFrom) }}
+                                title={`Fallback: no había pokémon de tier ${tierLabel(cfg, fallbackFrom)}`}
+                            >
+                                {fallbackDown ? '↓' : '↑'} {tierLabel(cfg, fallbackFrom)}
+                            </span>
+                        )}
                     </>
                 )}
             </div>
-            <div className='opacity-80 w-24'>
-                {isPurchased || isExhausted ? '—' : p.precio + '$'}
-            </div>
-            <button
-                className='btn'
-                onClick={() => buyAt(index)}
-                disabled={isPurchased || isExhausted || money < p.precio}
+            <div
+                className='opacity-80 w-24'
+                title={isPurchased || isExhausted ? undefined : priceDetail}
             >
-                Comprar
-            </button>
+                {isPurchased || isExhausted ? '—' : reservation ? reservation.precio + '$' : price + '$'}
+                {!isPurchased && !isExhausted && !reservation && price !== p.precio && (
+                    <span className='ml-1 text-xs line-through opacity-60'>
+                        {p.precio}$
+                    </span>
+                )}
+            </div>
+            {reservation ? (
+                <button
+                    className='btn'
+                    onClick={() => completeReservation(reservation.id)}
+                    title={`Pagar el resto (${rest}$) y completar la compra`}
+                    disabled={money < rest}
+                >
+                    Completar {rest}$
+                </button>
+            ) : (
+                <button
+                    className='btn'
+                    onClick={() => buyAt(index)}
+                    disabled={isPurchased || isExhausted || money < price}
+                >
+                    Comprar
+                </button>
+            )}
+            {holdRegions > 0 && !reservation && (
+                <button
+                    className='btn-secondary'
+                    onClick={() => reserveAt(index)}
+                    title={`Reservar pagando ${deposit}$ de depósito: aguanta ${holdRegions} cambio(s) de grupo de regiones`}
+                    disabled={isPurchased || isExhausted || money < deposit}
+                >
+                    Reservar
+                </button>
+            )}
+            {(lockLimit > 0 || isLocked) && !reservation && (
+                <button
+                    className='btn-secondary'
+                    onClick={() => toggleLockAt(index)}
+                    title={
+                        isLocked
+                            ? 'Desbloquear: se cambiará al actualizar la tienda'
+                            : `Bloquear: se conserva al actualizar la tienda (${lockedCount}/${lockLimit} bloqueados)`
+                    }
+                    disabled={!canLock}
+                >
+                    {isLocked ? '🔒' : '🔓'}
+                </button>
+            )}
             <button
                 className='btn-secondary'
                 onClick={() => rerollAt(index)}
-                title='Rerollear'
-                disabled={disabledReroll}
+                title={
+                    reservation
+                        ? 'Un slot reservado no se puede rerollear'
+                        : isLocked
+                          ? 'Desbloquea el slot para rerollearlo'
+                          : rerollTitle
+                }
+                disabled={disabledReroll || isLocked || !!reservation}
             >
                 ⟳
+                {rerollBudget?.policy === 'paid' && <span className='ml-1 text-xs'>{rerollBudget.cost}$</span>}
+                {rerollBudget?.policy === 'slot' && (
+                    <span className='ml-1 text-xs'>{rerollsLeft(rerollBudget)}</span>
+                )}
             </button>
         </div>
     );
@@ -1,5 +1,12 @@
+import { revealItemInDir } from '@tauri-apps/plugin-opener';
 import { useEffect, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
+import { deletePreset, listPresets, savePresetFromProfile } from '../lib/presets';
+import {
+    exportProfileArchive,
+    importProfileArchive,
+    PROFILE_ARCHIVE_EXTENSION,
+} from '../lib/profileArchive';
 import {
     createProfile,
     deleteProfile,
@@ -11,7 +18,16 @@ import {
     setCurrentProfile,
     type Profile,
 } from '../lib/profileManager';
+import {
+    listSaveBackups,
+    restoreSaveBackup,
+    type SaveBackup,
+} from '../lib/saveManager';
 import { useShopStore } from '../store/useShopStore';
+import type { RulePreset } from '../types';
+
+// Prefijo de las opciones de preset en el selector de "Crear nuevo perfil"
+const PRESET_OPTION = 'preset:';
 
 export default function ProfileManager() {
     const [isOpen, setIsOpen] = useState(false);
@@ -20,10 +36,14 @@ export default function ProfileManager() {
     const [newProfileName, setNewProfileName] = useState('');
     const [showCreateForm, setShowCreateForm] = useState(false);
     const [copyFromProfile, setCopyFromProfile] = useState<string>('');
+    const [presets, setPresets] = useState<RulePreset[]>([]);
     const [editingProfile, setEditingProfile] = useState<string | null>(null);
     const [editName, setEditName] = useState('');
     const [error, setError] = useState<string>('');
+    const [backupsProfile, setBackupsProfile] = useState<string | null>(null);
+    const [backups, setBackups] = useState<SaveBackup[]>([]);
     const buttonRef = useRef<HTMLButtonElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
     const dropdownRef = useRef<HTMLDivElement>(null);
     const [dropdownPosition, setDropdownPosition] = useState({
         top: 0,
@@ -33,6 +53,8 @@ export default function ProfileManager() {
     const refreshForProfileSwitch = useShopStore(
         (s) => s.refreshForProfileSwitch
     );
+    const bootstrap = useShopStore((s) => s.bootstrap);
+    const saveCurrentState = useShopStore((s) => s.saveCurrentState);
 
     const loadProfiles = async () => {
         console.log(`[ProfileManager UI] loadProfiles called`);
@@ -52,6 +74,7 @@ export default function ProfileManager() {
             );
             setProfiles(profileData.profiles);
             setCurrentProfileId(currentId);
+            setPresets(await listPresets());
 
             // Note: Auto-selected profile loading is now handled in the bootstrap function
         } catch (err: any) {
@@ -185,9 +208,13 @@ export default function ProfileManager() {
         );
         try {
             setError('');
+            if (copyFromProfile.startsWith(PRESET_OPTION) && !selectedPreset) {
+                throw new Error('El preset elegido ya no existe');
+            }
             await createProfile(
                 newProfileName.trim(),
-                copyFromProfile || undefined
+                selectedPreset ? undefined : copyFromProfile || undefined,
+                selectedPreset
             );
             console.log(`[ProfileManager UI] Profile created successfully`);
             setNewProfileName('');
@@ -200,6 +227,42 @@ export default function ProfileManager() {
         }
     };
 
+    const handleSavePreset = async (profileId: string) => {
+        const profile = profiles.find((p) => p.id === profileId);
+        const name = prompt(
+            `Nombre del preset con las reglas de "${profile?.name}":`,
+            `Reglas de ${profile?.name}`
+        );
+        if (!name?.trim()) return;
+        const description = prompt('Descripción (opcional):', '') ?? '';
+        const includeCatalogue = confirm(
+            '¿Incluir también el catálogo de pokémon del perfil? (Cancelar = usar el catálogo por defecto)'
+        );
+
+        try {
+            setError('');
+            // El perfil activo se guarda antes por si su config se cambió en memoria
+            if (profileId === currentProfileId) await saveCurrentState();
+            await savePresetFromProfile(profileId, name, description.trim(), includeCatalogue);
+            setPresets(await listPresets());
+        } catch (err: any) {
+            console.error(`[ProfileManager UI] Error saving preset:`, err);
+            setError(err.message || 'Error guardando preset');
+        }
+    };
+
+    const handleDeletePreset = async (preset: RulePreset) => {
+        if (!confirm(`¿Borrar el preset "${preset.name}"? Los perfiles creados con él no cambian.`)) return;
+        try {
+            setError('');
+            await deletePreset(preset.id);
+            setCopyFromProfile('');
+            setPresets(await listPresets());
+        } catch (err: any) {
+            setError(err.message || 'Error borrando preset');
+        }
+    };
+
     const handleRenameProfile = async (profileId: string) => {
         if (!editName.trim()) return;
 
@@ -260,7 +323,87 @@ export default function ProfileManager() {
         }
     };
 
+    const handleToggleBackups = async (profileId: string) => {
+        if (backupsProfile === profileId) {
+            setBackupsProfile(null);
+            setBackups([]);
+            return;
+        }
+
+        try {
+            setError('');
+            setBackups(await listSaveBackups(profileId));
+            setBackupsProfile(profileId);
+        } catch (err: any) {
+            setError(err.message || 'Error listando copias de seguridad');
+        }
+    };
+
+    const handleRestoreBackup = async (
+        profileId: string,
+        backup: SaveBackup
+    ) => {
+        if (
+            !confirm(
+                `¿Restaurar la copia del ${new Date(
+                    backup.createdAt
+                ).toLocaleString()}? El estado actual se guardará antes como otra copia.`
+            )
+        ) {
+            return;
+        }
+
+        try {
+            setError('');
+            await restoreSaveBackup(backup.name, profileId);
+            setBackups(await listSaveBackups(profileId));
+
+            // Si es el perfil activo, recargar la tienda con la partida restaurada
+            if (profileId === currentProfileId) {
+                await bootstrap();
+            }
+        } catch (err: any) {
+            console.error(`[ProfileManager UI] Error restoring backup:`, err);
+            setError(err.message || 'Error restaurando copia de seguridad');
+        }
+    };
+
+    const handleExportProfile = async (profileId: string) => {
+        try {
+            setError('');
+            // El perfil activo se guarda antes para exportar la partida al día
+            if (profileId === currentProfileId) await saveCurrentState();
+            const path = await exportProfileArchive(profileId);
+            if (path) {
+                alert(`Perfil exportado a:\n${path}`);
+                await revealItemInDir(path).catch(() => {});
+            }
+        } catch (err: any) {
+            console.error(`[ProfileManager UI] Error exporting profile:`, err);
+            setError(err.message || 'Error exportando perfil');
+        }
+    };
+
+    const handleImportProfile = async (file: File) => {
+        try {
+            setError('');
+            const { name, warnings } = await importProfileArchive(await file.text());
+            await loadProfiles();
+            alert(
+                warnings.length
+                    ? `Perfil "${name}" importado con avisos:\n- ${warnings.join('\n- ')}`
+                    : `Perfil "${name}" importado.`
+            );
+        } catch (err: any) {
+            console.error(`[ProfileManager UI] Error importing profile:`, err);
+            setError(err.message || 'Error importando perfil');
+        }
+    };
+
     const currentProfile = profiles.find((p) => p.id === currentProfileId);
+    const selectedPreset = copyFromProfile.startsWith(PRESET_OPTION)
+        ? presets.find((p) => p.id === copyFromProfile.slice(PRESET_OPTION.length))
+        : undefined;
 
     // Componente para nombre de perfil con truncamiento simple
     const ProfileNameDisplay = ({ profile }: { profile: Profile }) => {
@@ -394,6 +537,39 @@ export default function ProfileManager() {
                                             >
                                                 ⧉
                                             </button>
+                                            <button
+                                                onClick={() =>
+                                                    handleExportProfile(
+                                                        profile.id
+                                                    )
+                                                }
+                                                className='text-neutral-300 hover:text-neutral-100 px-1'
+                                                title='Exportar a un archivo'
+                                            >
+                                                ⇪
+                                            </button>
+                                            <button
+                                                onClick={() =>
+                                                    handleSavePreset(
+                                                        profile.id
+                                                    )
+                                                }
+                                                className='text-neutral-300 hover:text-neutral-100 px-1'
+                                                title='Guardar sus reglas como preset'
+                                            >
+                                                ★
+                                            </button>
+                                            <button
+                                                onClick={() =>
+                                                    handleToggleBackups(
+                                                        profile.id
+                                                    )
+                                                }
+                                                className='text-neutral-300 hover:text-neutral-100 px-1'
+                                                title='Copias de seguridad'
+                                            >
+                                                🕘
+                                            </button>
                                             {profiles.length > 1 &&
                                                 profile.id !==
                                                     currentProfileId && (
@@ -413,6 +589,42 @@ export default function ProfileManager() {
                                     </>
                                 )}
                             </div>
+                            {backupsProfile === profile.id && (
+                                <div className='mt-2 pt-2 border-t border-neutral-700 text-xs space-y-1'>
+                                    {backups.length === 0 ? (
+                                        <p className='text-neutral-400'>
+                                            No hay copias de seguridad.
+                                        </p>
+                                    ) : (
+                                        backups.map((backup) => (
+                                            <div
+                                                key={backup.name}
+                                                className='flex items-center justify-between gap-2'
+                                            >
+                                                <span
+                                                    className='text-neutral-300 truncate'
+                                                    title={backup.name}
+                                                >
+                                                    {new Date(
+                                                        backup.createdAt
+                                                    ).toLocaleString()}
+                                                </span>
+                                                <button
+                                                    onClick={() =>
+                                                        handleRestoreBackup(
+                                                            profile.id,
+                                                            backup
+                                                        )
+                                                    }
+                                                    className='text-blue-400 hover:text-blue-300 px-1'
+                                                >
+                                                    Restaurar
+                                                </button>
+                                            </div>
+                                        ))
+                                    )}
+                                </div>
+                            )}
                         </div>
                     ))}
                 </div>
@@ -450,12 +662,43 @@ export default function ProfileManager() {
                                 className='w-full px-3 py-2 bg-neutral-800 border border-neutral-600 rounded text-neutral-100'
                             >
                                 <option value=''>Crear perfíl vacío</option>
-                                {profiles.map((profile) => (
-                                    <option key={profile.id} value={profile.id}>
-                                        Copiar de "{profile.name}"
-                                    </option>
-                                ))}
+                                <optgroup label='Reglas predefinidas'>
+                                    {presets.map((preset) => (
+                                        <option
+                                            key={preset.id}
+                                            value={PRESET_OPTION + preset.id}
+                                        >
+                                            {preset.name}
+                                            {!preset.builtin && ' (guardado)'}
+                                        </option>
+                                    ))}
+                                </optgroup>
+                                <optgroup label='Copiar de un perfil'>
+                                    {profiles.map((profile) => (
+                                        <option key={profile.id} value={profile.id}>
+                                            Copiar de "{profile.name}"
+                                        </option>
+                                    ))}
+                                </optgroup>
                             </select>
+                            {selectedPreset && (
+                                <div className='text-xs text-neutral-400 flex items-start gap-2'>
+                                    <p className='flex-1'>
+                                        {selectedPreset.description || 'Sin descripción.'}
+                                        {selectedPreset.data &&
+                                            ` Incluye catálogo propio (${selectedPreset.data.length} pokémon).`}
+                                    </p>
+                                    {!selectedPreset.builtin && (
+                                        <button
+                                            onClick={() => handleDeletePreset(selectedPreset)}
+                                            className='text-red-400 hover:text-red-300'
+                                            title='Borrar preset'
+                                        >
+                                            🗑
+                                        </button>
+                                    )}
+                                </div>
+                            )}
                             <div className='flex gap-2'>
                                 <button
                                     onClick={handleCreateProfile}
@@ -485,6 +728,24 @@ export default function ProfileManager() {
                         >
                             + Crear nuevo perfil
                         </button>
+                        <button
+                            onClick={() => importInputRef.current?.click()}
+                            className='btn w-full mt-2'
+                            title={`Crear un perfil a partir de un archivo ${PROFILE_ARCHIVE_EXTENSION}`}
+                        >
+                            Importar perfil
+                        </button>
+                        <input
+                            ref={importInputRef}
+                            type='file'
+                            accept='.json'
+                            className='hidden'
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                e.target.value = '';
+                                if (file) handleImportProfile(file);
+                            }}
+                        />
                     </div>
                 )}
 
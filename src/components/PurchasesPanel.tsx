@@ -1,12 +1,69 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { sellRefundOf } from '../lib/runActions';
 import { useShopStore } from '../store/useShopStore';
 import SpriteImg from './SpriteImg';
+import StatsDashboard from './StatsDashboard';
 
 export default function PurchasesPanel() {
     const purchases = useShopStore((s) => s.purchases);
+    const cfg = useShopStore((s) => s.cfg);
+    const sellPurchase = useShopStore((s) => s.sellPurchase);
+    const reservations = useShopStore((s) => s.reservations);
+    const money = useShopStore((s) => s.money);
+    const completeReservation = useShopStore((s) => s.completeReservation);
+    const cancelReservation = useShopStore((s) => s.cancelReservation);
+    const [statsOpen, setStatsOpen] = useState(false);
     return (
         <div className='card p-3 max-h-72 text-neutral-100 flex flex-col gap-2'>
-            <h2 className='font-semibold mb-2'>Compras</h2>
+            <div className='flex items-center justify-between mb-2'>
+                <h2 className='font-semibold'>Compras</h2>
+                <button className='btn-secondary text-xs' onClick={() => setStatsOpen(true)}>
+                    Estadísticas
+                </button>
+            </div>
             <div className='overflow-auto customScroll h-full'>
+                {reservations.length > 0 && (
+                    <ul className='space-y-1 text-sm mb-2'>
+                        {reservations.map((r) => (
+                            <li key={r.id} className='border-b border-dashed border-neutral-700 pb-1 flex items-center gap-2'>
+                                <SpriteImg id={r.pokemonId} size={20} />
+                                <div className='truncate flex-1'>
+                                    <span className='opacity-70'>[Reserva]</span> {r.nombre} ({r.tier})
+                                    <span
+                                        className='italic opacity-70'
+                                        title={
+                                            r.regionsLeft > 0
+                                                ? `Aguanta ${r.regionsLeft} cambio(s) de grupo de regiones más`
+                                                : 'Caduca en el próximo cambio de grupo de regiones'
+                                        }
+                                    >
+                                        {' '}
+                                        · {r.deposit}$ de {r.precio}$ · quedan {r.regionsLeft}
+                                    </span>
+                                </div>
+                                <div className='opacity-80 whitespace-nowrap flex gap-2'>
+                                    {r.region}
+                                    <button
+                                        className='btn-secondary px-1 py-0 text-xs'
+                                        onClick={() => completeReservation(r.id)}
+                                        disabled={money < r.precio - r.deposit}
+                                        title={`Pagar el resto (${r.precio - r.deposit}$) y completar la compra`}
+                                    >
+                                        Completar
+                                    </button>
+                                    <button
+                                        className='btn-secondary px-1 py-0 text-xs'
+                                        onClick={() => cancelReservation(r.id)}
+                                        title={`Cancelar: se pierde el depósito de ${r.deposit}$`}
+                                    >
+                                        Cancelar
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
                 {purchases.length === 0 ? (
                     <p className='text-sm opacity-70'>
                         Aún no has comprado ningún Pokémon.
@@ -16,7 +73,9 @@ export default function PurchasesPanel() {
                         {purchases.map((p) => (
                             <li
                                 key={p.id}
-                                className='border-b border-neutral-700 pb-1 flex'
+                                className={`border-b border-neutral-700 pb-1 flex ${
+                                    p.soldAt ? 'opacity-50' : ''
+                                }`}
                             >
                                 <div className='flex items-center gap-2 w-full'>
                                     <SpriteImg id={p.pokemonId} size={20} />
@@ -30,10 +89,33 @@ export default function PurchasesPanel() {
                                                 ]
                                             </span>{' '}
                                             {p.nombre} ({p.tier})
+                                            {p.soldAt && (
+                                                <span className='italic'>
+                                                    {' '}
+                                                    · vendido por {p.refund}$
+                                                </span>
+                                            )}
                                         </div>
                                         <div className='opacity-80 whitespace-nowrap flex gap-2'>
-                                            <span>{p.precio}$</span>
+                                            <span
+                                                title={
+                                                    p.precioBase !== p.precio
+                                                        ? `Precio base ${p.precioBase}$`
+                                                        : undefined
+                                                }
+                                            >
+                                                {p.precio}$
+                                            </span>
                                             {p.region}
+                                            {!p.soldAt && cfg && (
+                                                <button
+                                                    className='btn-secondary px-1 py-0 text-xs'
+                                                    onClick={() => sellPurchase(p.id)}
+                                                    title={`Vender por ${sellRefundOf(cfg, p)}$`}
+                                                >
+                                                    Vender
+                                                </button>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
@@ -42,6 +124,7 @@ export default function PurchasesPanel() {
                     </ul>
                 )}
             </div>
+            {statsOpen && createPortal(<StatsDashboard onClose={() => setStatsOpen(false)} />, document.body)}
         </div>
     );
 }
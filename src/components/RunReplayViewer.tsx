@@ -0,0 +1,245 @@
+import { useEffect, useMemo, useState } from 'react';
+import { replayRun, ReplayError, type ReplayResult } from '../lib/replay';
+import { readRunLog } from '../lib/runLog';
+import { useShopStore } from '../store/useShopStore';
+import type { ValidationIssue } from '../types';
+import SpriteImg from './SpriteImg';
+
+const PLAY_INTERVAL_MS = 700;
+
+// Visor de run.log: repite la partida paso a paso con la config y el catálogo actuales
+export default function RunReplayViewer({ onClose }: { onClose: () => void }) {
+    const cfg = useShopStore((s) => s.cfg);
+    const data = useShopStore((s) => s.data);
+    const regions = useShopStore((s) => s.regions);
+    const rebuildFromLog = useShopStore((s) => s.rebuildFromLog);
+
+    const [result, setResult] = useState<ReplayResult | null>(null);
+    const [issues, setIssues] = useState<ValidationIssue[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [position, setPosition] = useState(-1); // -1 = estado inicial
+    const [playing, setPlaying] = useState(false);
+
+    useEffect(() => {
+        if (!cfg) return;
+        let cancelled = false;
+        (async () => {
+            try {
+                const log = await readRunLog();
+                if (cancelled) return;
+                if (!log) {
+                    setError('No hay registro de la partida (run.log) en este perfil.');
+                    return;
+                }
+                setIssues(log.issues);
+                const replay = replayRun(log.entries, { cfg, data, regions });
+                setResult(replay);
+                setPosition(replay.steps.length - 1);
+            } catch (err) {
+                if (cancelled) return;
+                console.error(`[Repetición] Error repitiendo la partida:`, err);
+                setError(err instanceof ReplayError ? err.message : 'No se pudo leer el registro de la partida.');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [cfg, data, regions]);
+
+    const lastIndex = (result?.steps.length ?? 0) - 1;
+
+    useEffect(() => {
+        if (!playing) return;
+        const timer = window.setInterval(() => {
+            setPosition((p) => Math.min(p + 1, lastIndex));
+        }, PLAY_INTERVAL_MS);
+        return () => window.clearInterval(timer);
+    }, [playing, lastIndex]);
+
+    useEffect(() => {
+        if (playing && position >= lastIndex) setPlaying(false);
+    }, [playing, position, lastIndex]);
+
+    const state = result ? (position < 0 ? result.initial : result.steps[position].state) : null;
+    const divergences = useMemo(() => result?.steps.filter((step) => step.divergence).length ?? 0, [result]);
+
+    const handleRebuild = async () => {
+        if (
+            !window.confirm(
+                '¿Reconstruir la partida desde el registro? El estado actual se sustituirá por el final de la repetición.'
+            )
+        ) {
+            return;
+        }
+        try {
+            await rebuildFromLog();
+            onClose();
+        } catch (err) {
+            console.error(`[Repetición] Error reconstruyendo la partida:`, err);
+            window.alert('No se pudo reconstruir la partida desde el registro.');
+        }
+    };
+
+    return (
+        <div className='fixed inset-0 z-40 bg-black/70 flex items-center justify-center p-4 text-neutral-100'>
+            <div className='card bg-neutral-900 w-full max-w-screen-xl h-full flex flex-col'>
+                <div className='p-4 border-b border-neutral-800 flex items-center gap-3'>
+                    <h2 className='font-semibold'>Repetición de la partida</h2>
+                    {result && (
+                        <span className='text-sm opacity-70'>
+                            Semilla {result.runSeed} · {result.steps.length} acciones
+                            {result.resumed && ' · retomada desde un guardado'}
+                        </span>
+                    )}
+                    <div className='ml-auto flex gap-2'>
+                        <button className='btn-warning' onClick={handleRebuild} disabled={!result}>
+                            Reconstruir partida
+                        </button>
+                        <button className='btn-secondary' onClick={onClose}>
+                            ✕
+                        </button>
+                    </div>
+                </div>
+
+                {loading && <p className='p-4 text-sm opacity-70'>Cargando registro…</p>}
+                {error && <p className='p-4 text-sm text-red-400'>{error}</p>}
+
+                {result && state && (
+                    <>
+                        {(divergences > 0 || issues.length > 0) && (
+                            <div className='px-4 pt-3 text-sm text-yellow-400 space-y-1'>
+                                {divergences > 0 && (
+                                    <p>
+                                        {divergences} paso(s) no coinciden con lo registrado (¿cambió la config o el
+                                        catálogo durante la partida?).{' '}
+                                        <button
+                                            className='underline'
+                                            onClick={() => setPosition(result.firstDivergence ?? -1)}
+                                        >
+                                            Ir al primero
+                                        </button>
+                                    </p>
+                                )}
+                                {issues.length > 0 && <p>{issues.length} línea(s) ilegibles del registro se han omitido.</p>}
+                            </div>
+                        )}
+
+                        <div className='p-4 flex items-center gap-2 border-b border-neutral-800'>
+                            <button className='btn-secondary' onClick={() => setPosition(-1)} title='Inicio'>
+                                ⏮
+                            </button>
+                            <button
+                                className='btn-secondary'
+                                onClick={() => setPosition((p) => Math.max(-1, p - 1))}
+                                title='Paso anterior'
+                            >
+                                ◀
+                            </button>
+                            <button
+                                className='btn'
+                                onClick={() => {
+                                    if (!playing && position >= lastIndex) setPosition(-1);
+                                    setPlaying(!playing);
+                                }}
+                                disabled={lastIndex < 0}
+                            >
+                                {playing ? 'Pausa' : 'Reproducir'}
+                            </button>
+                            <button
+                                className='btn-secondary'
+                                onClick={() => setPosition((p) => Math.min(lastIndex, p + 1))}
+                                title='Paso siguiente'
+                            >
+                                ▶
+                            </button>
+                            <button className='btn-secondary' onClick={() => setPosition(lastIndex)} title='Final'>
+                                ⏭
+                            </button>
+                            <input
+                                className='flex-1'
+                                type='range'
+                                min={-1}
+                                max={lastIndex}
+                                value={position}
+                                onChange={(e) => setPosition(Number(e.target.value))}
+                            />
+                            <span className='text-sm opacity-70 w-24 text-right'>
+                                {position + 1} / {result.steps.length}
+                            </span>
+                        </div>
+
+                        <div className='flex-1 min-h-0 grid grid-cols-1 md:grid-cols-2 gap-4 p-4'>
+                            <ol className='overflow-auto customScroll text-sm space-y-1'>
+                                <li
+                                    className={`p-1 rounded cursor-pointer ${position === -1 ? 'bg-neutral-700' : ''}`}
+                                    onClick={() => setPosition(-1)}
+                                >
+                                    <span className='opacity-70'>0.</span> Inicio de la partida
+                                </li>
+                                {result.steps.map((step, i) => (
+                                    <li
+                                        key={i}
+                                        className={`p-1 rounded cursor-pointer ${
+                                            i === position ? 'bg-neutral-700' : ''
+                                        } ${step.divergence ? 'text-yellow-400' : ''}`}
+                                        onClick={() => setPosition(i)}
+                                        title={step.divergence}
+                                    >
+                                        <span className='opacity-70'>
+                                            {i + 1}. [{new Date(step.ts).toLocaleString()}]
+                                        </span>{' '}
+                                        {step.message}
+                                        {step.divergence && ` ⚠ ${step.divergence}`}
+                                    </li>
+                                ))}
+                            </ol>
+
+                            <div className='overflow-auto customScroll space-y-3 text-sm'>
+                                <div className='space-y-1'>
+                                    <div>
+                                        Región: <strong>{regions[state.currentRegionIndex] ?? '—'}</strong>
+                                    </div>
+                                    <div>
+                                        Dinero: <strong>{state.money}$</strong>
+                                    </div>
+                                    <div>
+                                        Rerolls usados: <strong>{state.rerollsUsedGlobal}</strong>
+                                    </div>
+                                </div>
+                                <div>
+                                    <h3 className='font-semibold mb-1'>Tienda</h3>
+                                    <ul className='space-y-1'>
+                                        {state.shop.map((slot, i) => (
+                                            <li key={i} className='flex items-center gap-2'>
+                                                <SpriteImg id={slot.id} size={24} />
+                                                <span className={slot.__purchased ? 'line-through opacity-50' : ''}>
+                                                    {slot.nombre} ({slot.tier}) · {slot.precio}$
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                                <div>
+                                    <h3 className='font-semibold mb-1'>Compras</h3>
+                                    {state.purchases.length === 0 && <p className='opacity-70'>Ninguna</p>}
+                                    <ul className='space-y-1'>
+                                        {state.purchases.map((p) => (
+                                            <li key={p.id} className={`flex items-center gap-2 ${p.soldAt ? 'opacity-50' : ''}`}>
+                                                <SpriteImg id={p.pokemonId} size={20} />
+                                                {p.nombre} ({p.region}) · {p.precio}$
+                                                {p.soldAt && ` · vendido por ${p.refund ?? 0}$`}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            </div>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
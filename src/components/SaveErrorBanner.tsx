@@ -0,0 +1,102 @@
+import { useShopStore } from '../store/useShopStore';
+
+export default function SaveErrorBanner() {
+    const saveError = useShopStore((s) => s.saveError);
+    const saveRecovery = useShopStore((s) => s.saveRecovery);
+    const bootstrap = useShopStore((s) => s.bootstrap);
+    const discardCorruptSave = useShopStore((s) => s.discardCorruptSave);
+    const rebuildFromLog = useShopStore((s) => s.rebuildFromLog);
+    const dismissSaveRecovery = useShopStore((s) => s.dismissSaveRecovery);
+
+    if (!saveError && saveRecovery) {
+        return (
+            <div className='container mx-auto max-w-screen-xl px-4 pt-4 text-neutral-100'>
+                <div className='card border-yellow-600 p-3 flex items-center gap-3'>
+                    <p className='text-sm flex-1'>
+                        El archivo <code>save.sav</code> estaba dañado (
+                        {saveRecovery.issues[0]?.path}:{' '}
+                        {saveRecovery.issues[0]?.message}). Se ha recuperado la
+                        partida desde la copia <code>{saveRecovery.backup}</code>;
+                        el archivo dañado se conserva en <code>backups/</code>.
+                    </p>
+                    <button className='btn-secondary' onClick={dismissSaveRecovery}>
+                        ✕
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    if (!saveError) return null;
+
+    return (
+        <div className='container mx-auto max-w-screen-xl px-4 pt-4 text-neutral-100'>
+            <div className='card border-red-500 p-3 flex flex-col gap-2'>
+                <h2 className='font-semibold text-red-400'>
+                    No se pudo cargar la partida guardada
+                </h2>
+                <p className='text-sm opacity-80'>
+                    {saveError.message}. La tienda que ves es temporal y{' '}
+                    <strong>no se guardará</strong> hasta que elijas qué hacer,
+                    así el archivo <code>save.sav</code> no se sobrescribe.
+                </p>
+                <ul className='text-sm max-h-32 overflow-auto customScroll space-y-1'>
+                    {saveError.issues.map((issue, i) => (
+                        <li
+                            key={`${issue.path}-${i}`}
+                            className='text-red-400 p-1 bg-red-400/10 rounded'
+                        >
+                            <code>{issue.path}</code>: {issue.message}
+                        </li>
+                    ))}
+                </ul>
+                <div className='flex gap-2'>
+                    <button
+                        className='btn'
+                        onClick={async () => {
+                            await bootstrap();
+                        }}
+                        title='Volver a leer save.sav (por ejemplo tras corregirlo a mano)'
+                    >
+                        Reintentar
+                    </button>
+                    <button
+                        className='btn-warning'
+                        onClick={async () => {
+                            try {
+                                const result = await rebuildFromLog();
+                                if (!result) {
+                                    window.alert('Este perfil no tiene registro de la partida (run.log).');
+                                } else if (result.firstDivergence !== null) {
+                                    window.alert(
+                                        'Partida reconstruida, pero algunos pasos no coinciden con lo registrado. Revísala en Ajustes → Ver repetición de la partida.'
+                                    );
+                                }
+                            } catch (err) {
+                                console.error(`[SaveErrorBanner] Error reconstruyendo la partida:`, err);
+                                window.alert('No se pudo reconstruir la partida desde el registro.');
+                            }
+                        }}
+                        title='Rehacer la partida repitiendo las acciones guardadas en run.log'
+                    >
+                        Reconstruir desde el registro
+                    </button>
+                    <button
+                        className='btn-danger'
+                        onClick={async () => {
+                            if (
+                                window.confirm(
+                                    '¿Seguro que quieres empezar una partida nueva? El archivo de guardado dañado se sobrescribirá.'
+                                )
+                            ) {
+                                await discardCorruptSave();
+                            }
+                        }}
+                    >
+                        Empezar partida nueva
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,15 +1,27 @@
 import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
 import { openConfigFolder } from '../lib/config';
+import { REROLL_POLICIES, rerollPolicyOf } from '../lib/rerollPolicy';
 import { openSpritesFolder } from '../lib/sprites';
+import { getStorage } from '../lib/storage';
 import { useShopStore } from '../store/useShopStore';
+import CatalogEditor from './CatalogEditor';
+import ConfigEditor from './ConfigEditor';
+import RunReplayViewer from './RunReplayViewer';
 
 export default function SettingsPanel() {
     const [open, setOpen] = useState(false);
     const [value, setValue] = useState('0');
+    const [catalogOpen, setCatalogOpen] = useState(false);
+    const [editingConfig, setEditingConfig] = useState(false);
+    const [replayOpen, setReplayOpen] = useState(false);
     const addMoney = useShopStore((s) => s.addMoney);
     const cfg = useShopStore((s) => s.cfg);
     const resetAll = useShopStore((s) => s.resetAll);
     const bootstrap = useShopStore((s) => s.bootstrap);
+    const runSeed = useShopStore((s) => s.runSeed);
+    // En el navegador los archivos viven en localStorage: no hay carpeta que abrir
+    const hasFolders = getStorage().kind === 'tauri';
 
     useEffect(() => {
         const btn = document.getElementById('open-settings');
@@ -26,11 +38,13 @@ export default function SettingsPanel() {
 
     return (
         <aside
-            className={`fixed top-0 right-0 h-full w-80 bg-neutral-900 border-l border-neutral-800 shadow-xl transition-transform z-30 flex flex-col justify-between ${
+            className={`fixed top-0 right-0 h-full ${
+                editingConfig ? 'w-[26rem]' : 'w-80'
+            } bg-neutral-900 border-l border-neutral-800 shadow-xl transition-transform z-30 flex flex-col justify-between ${
                 open ? 'translate-x-0' : 'translate-x-full'
             } text-neutral-100`}
         >
-            <div>
+            <div className='min-h-0 overflow-auto customScroll'>
                 <div className='p-4 border-b border-neutral-800 flex items-center justify-between'>
                     <h2 className='font-semibold'>Ajustes</h2>
                     <button
@@ -69,6 +83,7 @@ export default function SettingsPanel() {
                             onClick={async () => {
                                 await openConfigFolder();
                             }}
+                            disabled={!hasFolders}
                         >
                             Abrir carpeta de configuración
                         </button>
@@ -77,9 +92,25 @@ export default function SettingsPanel() {
                             onClick={async () => {
                                 await openSpritesFolder();
                             }}
+                            disabled={!hasFolders}
                         >
                             Abrir carpeta de sprites
                         </button>
+                        <button
+                            className='btn w-full'
+                            onClick={() => setCatalogOpen(true)}
+                            disabled={!cfg}
+                        >
+                            Editar catálogo de pokémon
+                        </button>
+                        <button
+                            className='btn w-full'
+                            onClick={() => setReplayOpen(true)}
+                            disabled={!cfg}
+                            title='Repetir la partida paso a paso desde run.log'
+                        >
+                            Ver repetición de la partida
+                        </button>
                         <button
                             className='btn-confirm w-full'
                             onClick={async () => {
@@ -91,55 +122,79 @@ export default function SettingsPanel() {
                         </button>
                     </div>
 
-                    <div className='text-sm opacity-80 space-y-1'>
-                        <div>
-                            Rerolls máximos:{' '}
-                            <strong>{cfg?.rerollsPerRegion}</strong>
-                        </div>
-                        <div>
-                            Recarga de rerolls:{' '}
-                            <strong>
-                                {fmtEvery(cfg?.rerollRechargeEveryRegions)}
-                            </strong>
-                        </div>
-                        <div>
-                            Regeneración de tienda:{' '}
-                            <strong>
-                                {fmtEvery(cfg?.shopRefreshEveryRegions)}
-                            </strong>
-                        </div>
-                        <div>
-                            Resetear rerolls al actualizar:{' '}
-                            <strong>
-                                {cfg?.rerollResetOnRefresh ? 'Sí' : 'No'}
-                            </strong>
-                        </div>
-                        <div>
-                            Tamaño de tienda: <strong>{cfg?.shopSize}</strong>
-                        </div>
-                        <div>
-                            Duplicar Pokémon:{' '}
-                            <strong>
-                                {cfg?.allowDuplicates ? 'Sí' : 'No'}
-                            </strong>
-                        </div>
-                        <div>
-                            Incluir pokémon comprados en tienda:{' '}
-                            <strong>
-                                {cfg?.includePurchasedInRerollPool
-                                    ? 'Sí'
-                                    : 'No'}
-                            </strong>
-                        </div>
-                        <div>
-                            Autorrellenar al comprar:{' '}
-                            <strong>
-                                {cfg?.shopBuySlotAutofill ? 'Sí' : 'No'}
-                            </strong>
-                        </div>
-                    </div>
+                    {editingConfig && cfg ? (
+                        <ConfigEditor onClose={() => setEditingConfig(false)} />
+                    ) : (
+                        <>
+                            <div className='text-sm opacity-80 space-y-1'>
+                                <div>
+                                    Rerolls máximos:{' '}
+                                    <strong>{cfg?.rerollsPerRegion}</strong>
+                                </div>
+                                <div>
+                                    Política de rerolls:{' '}
+                                    <strong>
+                                        {cfg ? REROLL_POLICIES.find((p) => p.id === rerollPolicyOf(cfg))?.label : '—'}
+                                    </strong>
+                                </div>
+                                <div>
+                                    Recarga de rerolls:{' '}
+                                    <strong>
+                                        {fmtEvery(cfg?.rerollRechargeEveryRegions)}
+                                    </strong>
+                                </div>
+                                <div>
+                                    Regeneración de tienda:{' '}
+                                    <strong>
+                                        {fmtEvery(cfg?.shopRefreshEveryRegions)}
+                                    </strong>
+                                </div>
+                                <div>
+                                    Resetear rerolls al actualizar:{' '}
+                                    <strong>
+                                        {cfg?.rerollResetOnRefresh ? 'Sí' : 'No'}
+                                    </strong>
+                                </div>
+                                <div>
+                                    Tamaño de tienda: <strong>{cfg?.shopSize}</strong>
+                                </div>
+                                <div>
+                                    Duplicar Pokémon:{' '}
+                                    <strong>
+                                        {cfg?.allowDuplicates ? 'Sí' : 'No'}
+                                    </strong>
+                                </div>
+                                <div>
+                                    Incluir pokémon comprados en tienda:{' '}
+                                    <strong>
+                                        {cfg?.includePurchasedInRerollPool
+                                            ? 'Sí'
+                                            : 'No'}
+                                    </strong>
+                                </div>
+                                <div>
+                                    Autorrellenar al comprar:{' '}
+                                    <strong>
+                                        {cfg?.shopBuySlotAutofill ? 'Sí' : 'No'}
+                                    </strong>
+                                </div>
+                                <div>
+                                    Semilla de la partida:{' '}
+                                    <strong className='select-all'>{runSeed}</strong>
+                                    {typeof cfg?.seed === 'number' && ' (fija)'}
+                                </div>
+                            </div>
+                            <button
+                                className='btn w-full'
+                                onClick={() => setEditingConfig(true)}
+                                disabled={!cfg}
+                            >
+                                Editar configuración
+                            </button>
+                        </>
+                    )}
                     <p className='text-xs opacity-60'>
-                        Edita <code>config.json</code> o <code>pokemon.json</code> y pulsa{' '}
+                        También puedes editar <code>config.json</code> o <code>pokemon.json</code> a mano y pulsar{' '}
                         <strong>Sincronizar configuración</strong>.
                     </p>
                 </div>
@@ -164,6 +219,12 @@ export default function SettingsPanel() {
                     Borrar datos
                 </button>
             </div>
+
+            {/* Fuera del panel: el transform del aside rompería el position: fixed */}
+            {catalogOpen &&
+                createPortal(<CatalogEditor onClose={() => setCatalogOpen(false)} />, document.body)}
+            {replayOpen &&
+                createPortal(<RunReplayViewer onClose={() => setReplayOpen(false)} />, document.body)}
         </aside>
     );
 }
@@ -0,0 +1,260 @@
+import { useEffect, useMemo, useState } from 'react';
+import { readHistoryArchive } from '../lib/history';
+import { getProfiles } from '../lib/profileManager';
+import { computeRunStats, loadAllProfileSources, type StatRow, type StatsSource } from '../lib/stats';
+import { tierColor, tierLabel } from '../lib/tiers';
+import { useShopStore } from '../store/useShopStore';
+import SpriteImg from './SpriteImg';
+
+type Scope = 'profile' | 'all';
+
+const SERIES_COLORS = ['#3b82f6', '#f59e0b', '#22c55e', '#a855f7', '#ef4444', '#14b8a6'];
+
+// Lista de barras horizontales (una fila por grupo)
+function BarList({
+    rows,
+    unit = '',
+    color,
+    label,
+}: {
+    rows: StatRow[];
+    unit?: string;
+    color?: (key: string) => string;
+    label?: (key: string) => string;
+}) {
+    if (!rows.length) return <p className='text-sm opacity-60'>Sin datos</p>;
+    const max = Math.max(...rows.map((row) => row.value), 1);
+    return (
+        <ul className='space-y-1 text-sm'>
+            {rows.map((row) => (
+                <li key={row.key} className='flex items-center gap-2'>
+                    <span className='w-24 truncate'>{label?.(row.key) ?? row.key}</span>
+                    <div className='flex-1 bg-neutral-800 rounded h-3'>
+                        <div
+                            className='h-3 rounded'
+                            style={{ width: `${(row.value / max) * 100}%`, background: color?.(row.key) ?? '#3b82f6' }}
+                        />
+                    </div>
+                    <span className='w-24 text-right opacity-80'>
+                        {row.value}
+                        {unit}
+                    </span>
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+// Compras por día como columnas
+function DayChart({ rows }: { rows: StatRow[] }) {
+    if (!rows.length) return <p className='text-sm opacity-60'>Sin datos</p>;
+    const max = Math.max(...rows.map((row) => row.value), 1);
+    return (
+        <div className='flex items-end gap-1 h-32'>
+            {rows.map((row) => (
+                <div
+                    key={row.key}
+                    className='flex-1 min-w-1 bg-blue-500 rounded-t'
+                    style={{ height: `${(row.value / max) * 100}%` }}
+                    title={`${new Date(`${row.key}T00:00`).toLocaleDateString()}: ${row.value} compra(s)`}
+                />
+            ))}
+        </div>
+    );
+}
+
+// Curva de saldo: una línea por perfil sobre el eje de tiempo común
+function BalanceChart({ series }: { series: { profileName: string; points: { ts: string; money: number }[] }[] }) {
+    const points = series.flatMap((s) => s.points);
+    if (!points.length) {
+        return <p className='text-sm opacity-60'>Sin datos (solo los eventos recientes guardan el saldo)</p>;
+    }
+    const times = points.map((p) => Date.parse(p.ts));
+    const minT = Math.min(...times);
+    const spanT = Math.max(Math.max(...times) - minT, 1);
+    const minM = Math.min(0, ...points.map((p) => p.money));
+    const maxM = Math.max(...points.map((p) => p.money), minM + 1);
+    const x = (ts: string) => ((Date.parse(ts) - minT) / spanT) * 600;
+    const y = (money: number) => 150 - ((money - minM) / (maxM - minM)) * 140;
+
+    return (
+        <div className='space-y-1'>
+            <svg viewBox='0 0 600 160' preserveAspectRatio='none' className='w-full h-40 bg-neutral-800 rounded'>
+                {series.map((s, i) => (
+                    <polyline
+                        key={s.profileName + i}
+                        fill='none'
+                        stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                        strokeWidth={2}
+                        vectorEffect='non-scaling-stroke'
+                        points={s.points.map((p) => `${x(p.ts)},${y(p.money)}`).join(' ')}
+                    />
+                ))}
+            </svg>
+            <div className='flex flex-wrap gap-3 text-xs opacity-80'>
+                <span>
+                    Mín. {minM}$ · Máx. {maxM}$
+                </span>
+                {series.length > 1 &&
+                    series.map((s, i) => (
+                        <span key={s.profileName + i} style={{ color: SERIES_COLORS[i % SERIES_COLORS.length] }}>
+                            ● {s.profileName}
+                        </span>
+                    ))}
+            </div>
+        </div>
+    );
+}
+
+// Panel de estadísticas de compras e historial (perfil actual o todos los perfiles)
+export default function StatsDashboard({ onClose }: { onClose: () => void }) {
+    const cfg = useShopStore((s) => s.cfg);
+    const regions = useShopStore((s) => s.regions);
+    const purchases = useShopStore((s) => s.purchases);
+    const history = useShopStore((s) => s.history);
+
+    const [scope, setScope] = useState<Scope>('profile');
+    const [sources, setSources] = useState<StatsSource[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        setError(null);
+        (async () => {
+            try {
+                // El perfil activo se toma de memoria (incluye lo aún no guardado) más su historial archivado
+                let profileId = '';
+                let profileName = 'Perfil actual';
+                try {
+                    const metadata = await getProfiles();
+                    profileId = metadata.currentProfile;
+                    profileName = metadata.profiles.find((p) => p.id === profileId)?.name ?? profileName;
+                } catch (err) {
+                    console.warn(`[Stats] No se pudo leer la lista de perfiles:`, err);
+                }
+                const archived = await readHistoryArchive(profileId || undefined);
+                const current: StatsSource = {
+                    profileId,
+                    profileName,
+                    regions,
+                    purchases,
+                    history: [...history, ...[...archived].reverse()],
+                };
+                const loaded = scope === 'all' ? await loadAllProfileSources(current) : [current];
+                if (!cancelled) setSources(loaded);
+            } catch (err) {
+                console.error(`[Stats] Error cargando estadísticas:`, err);
+                if (!cancelled) setError('No se pudieron cargar las estadísticas de los perfiles.');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [scope, regions, purchases, history]);
+
+    const stats = useMemo(() => computeRunStats(sources, cfg?.tiers), [sources, cfg?.tiers]);
+    const colorOfTier = (tier: string) => tierColor(cfg, tier);
+    const labelOfTier = (tier: string) => tierLabel(cfg, tier);
+
+    return (
+        <div className='fixed inset-0 z-40 bg-black/70 flex items-center justify-center p-4 text-neutral-100'>
+            <div className='card bg-neutral-900 w-full max-w-screen-xl h-full flex flex-col'>
+                <div className='p-4 border-b border-neutral-800 flex items-center gap-3'>
+                    <h2 className='font-semibold'>Estadísticas</h2>
+                    <select
+                        className='input py-0.5'
+                        value={scope}
+                        onChange={(e) => setScope(e.target.value as Scope)}
+                    >
+                        <option value='profile'>Este perfil</option>
+                        <option value='all'>Todos los perfiles</option>
+                    </select>
+                    {scope === 'all' && !loading && (
+                        <span className='text-sm opacity-70'>{sources.length} perfil(es) con partida</span>
+                    )}
+                    <button className='btn-secondary ml-auto' onClick={onClose}>
+                        ✕
+                    </button>
+                </div>
+
+                {error && <p className='p-4 text-sm text-red-400'>{error}</p>}
+                {loading ? (
+                    <p className='p-4 text-sm opacity-70'>Cargando…</p>
+                ) : (
+                    <div className='flex-1 min-h-0 overflow-auto customScroll p-4 space-y-4'>
+                        <div className='grid grid-cols-2 md:grid-cols-4 gap-4 text-sm'>
+                            <div className='card p-3'>
+                                Compras
+                                <div className='text-xl font-semibold'>{stats.purchaseCount}</div>
+                            </div>
+                            <div className='card p-3'>
+                                Gastado
+                                <div className='text-xl font-semibold'>{stats.totalSpent}$</div>
+                            </div>
+                            <div className='card p-3'>
+                                Vendidos
+                                <div className='text-xl font-semibold'>
+                                    {stats.soldCount} · {stats.totalRefunded}$
+                                </div>
+                            </div>
+                            <div className='card p-3'>
+                                Gasto neto
+                                <div className='text-xl font-semibold'>{stats.totalSpent - stats.totalRefunded}$</div>
+                            </div>
+                        </div>
+
+                        <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+                            <section className='card p-3 space-y-2'>
+                                <h3 className='font-semibold'>Gasto por región</h3>
+                                <BarList rows={stats.spentByRegion} unit='$' />
+                            </section>
+                            <section className='card p-3 space-y-2'>
+                                <h3 className='font-semibold'>Gasto por tier</h3>
+                                <BarList rows={stats.spentByTier} unit='$' color={colorOfTier} label={labelOfTier} />
+                            </section>
+                            <section className='card p-3 space-y-2'>
+                                <h3 className='font-semibold'>Precio medio por tier</h3>
+                                <BarList rows={stats.avgPriceByTier} unit='$' color={colorOfTier} label={labelOfTier} />
+                            </section>
+                            <section className='card p-3 space-y-2'>
+                                <h3 className='font-semibold'>Rerolls por región</h3>
+                                <BarList rows={stats.rerollsByRegion} />
+                            </section>
+                            <section className='card p-3 space-y-2'>
+                                <h3 className='font-semibold'>Compras por día</h3>
+                                <DayChart rows={stats.purchasesByDay} />
+                            </section>
+                            <section className='card p-3 space-y-2'>
+                                <h3 className='font-semibold'>Más comprados</h3>
+                                {stats.topSpecies.length === 0 ? (
+                                    <p className='text-sm opacity-60'>Sin datos</p>
+                                ) : (
+                                    <ol className='space-y-1 text-sm'>
+                                        {stats.topSpecies.map((row) => (
+                                            <li key={row.pokemonId} className='flex items-center gap-2'>
+                                                <SpriteImg id={row.pokemonId} size={20} />
+                                                <span className='flex-1 truncate'>{row.nombre}</span>
+                                                <span className='opacity-80'>
+                                                    ×{row.count} · {row.spent}$
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ol>
+                                )}
+                            </section>
+                        </div>
+
+                        <section className='card p-3 space-y-2'>
+                            <h3 className='font-semibold'>Evolución del saldo</h3>
+                            <BalanceChart series={stats.balance} />
+                        </section>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
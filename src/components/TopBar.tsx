@@ -1,4 +1,7 @@
 import { useEffect } from 'react';
+import { rerollBudgetOf, rerollsLeft, tierRerollBudget } from '../lib/rerollPolicy';
+import { requestedTierOf } from '../lib/storeLogic';
+import { sortTiersDesc, tierLabel } from '../lib/tiers';
 import { useShopStore } from '../store/useShopStore';
 import ProfileManager from './ProfileManager';
 
@@ -11,7 +14,10 @@ export default function TopBar() {
     const money = useShopStore((s) => s.money);
     const cfg = useShopStore((s) => s.cfg);
     const usedGlobal = useShopStore((s) => s.rerollsUsedGlobal);
+    const usedBy = useShopStore((s) => s.rerollsUsedBy);
+    const shop = useShopStore((s) => s.shop);
     const undoStack = useShopStore((s) => s.undoStack);
+    const redoStack = useShopStore((s) => s.redoStack);
 
     // Acciones de la tienda
     const selectRegionIndex = useShopStore((s) => s.selectRegionIndex);
@@ -20,6 +26,7 @@ export default function TopBar() {
     const applySelectedRegionAndRefresh = useShopStore((s) => s.applySelectedRegionAndRefresh);
     const refresh = useShopStore((s) => s.refresh);
     const undo = useShopStore((s) => s.undoLast);
+    const redo = useShopStore((s) => s.redoLast);
 
     // Inicializar tienda si no está configurada
     useEffect(() => {
@@ -30,7 +37,34 @@ export default function TopBar() {
 
     // Valores calculados
     const activeRegion = regions[activeIdx] ?? '';
-    const remainingRerolls = Math.max(0, (cfg?.rerollsPerRegion ?? 0) - (usedGlobal ?? 0));
+    const counters = { rerollsUsedGlobal: usedGlobal ?? 0, rerollsUsedBy: usedBy ?? {} };
+    const budget = cfg ? rerollBudgetOf(counters, cfg, activeRegion) : null;
+
+    // Resumen de rerolls según la política: restantes, por tier, por slot o precio del próximo
+    const rerollSummary = () => {
+        if (!cfg || !budget) return { label: 'Rerolls', value: '0' };
+        switch (budget.policy) {
+            case 'region':
+                return { label: `Rerolls en ${activeRegion}`, value: String(rerollsLeft(budget)) };
+            case 'tier': {
+                const tiers = sortTiersDesc(
+                    Array.from(new Set(shop.filter((p) => p.id !== -1).map((p) => String(requestedTierOf(p)).toUpperCase()))),
+                    cfg.tiers
+                );
+                const value = tiers
+                    .map((tier) => `${tierLabel(cfg, tier)} ${rerollsLeft(tierRerollBudget(counters, cfg, activeRegion, tier))}`)
+                    .join(' · ');
+                return { label: 'Rerolls por tier', value: value || '—' };
+            }
+            case 'slot':
+                return { label: 'Rerolls', value: `${budget.max} por slot` };
+            case 'paid':
+                return { label: 'Próximo reroll', value: `${budget.cost}$` };
+            default:
+                return { label: 'Rerolls', value: String(rerollsLeft(budget)) };
+        }
+    };
+    const rerolls = rerollSummary();
     const hasRegionChange = activeIdx !== selectedIdx;
 
     // Manejadores de eventos
@@ -50,15 +84,23 @@ export default function TopBar() {
 
     return (
         <header className='px-4 py-3 bg-neutral-900/80 backdrop-blur border-b border-neutral-800 flex items-center gap-3 text-neutral-100'>
-            {/* Botón deshacer */}
+            {/* Botones deshacer / rehacer */}
             <button
                 className='btn-secondary'
                 onClick={undo}
                 disabled={undoStack.length === 0}
-                title='Deshacer última acción'
+                title={undoStack[0] ? `Deshacer: ${undoStack[0].label}` : 'Nada que deshacer'}
             >
                 ↶
             </button>
+            <button
+                className='btn-secondary'
+                onClick={redo}
+                disabled={redoStack.length === 0}
+                title={redoStack[0] ? `Rehacer: ${redoStack[0].label}` : 'Nada que rehacer'}
+            >
+                ↷
+            </button>
 
             {/* Selector de región */}
             <select
@@ -103,7 +145,7 @@ export default function TopBar() {
                     Región activa: <strong>{activeRegion}</strong>
                 </span>
                 <span>
-                    Rerolls: <strong>{remainingRerolls}</strong>
+                    {rerolls.label}: <strong>{rerolls.value}</strong>
                 </span>
                 <span>
                     Dinero: <strong>{money}</strong>
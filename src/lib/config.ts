@@ -1,12 +1,14 @@
-import { join } from '@tauri-apps/api/path';
-import {
-    exists,
-    mkdir,
-    readTextFile,
-    writeTextFile,
-} from '@tauri-apps/plugin-fs';
 import { openPath } from '@tauri-apps/plugin-opener';
-import type { AppConfig, Pokemon } from '../types';
+import type { AppConfig, Pokemon, ValidationIssue } from '../types';
+import {
+    attachLines,
+    parseJsonWithIssues,
+    sanitizeConfig,
+    sanitizePokemonData,
+    validateConfig,
+    validatePokemonData,
+} from './configValidation';
+import { DEFAULT_CONFIG, DEFAULT_POKEMON, mergeConfigDefaults, unwrapJson } from './defaults';
 import {
     ensureProfilesStructure,
     getCurrentProfile,
@@ -14,66 +16,9 @@ import {
     migrateExistingConfig
 } from './profileManager';
 import { ensureSpritesDir } from './sprites';
+import { exists, getStorage, join, mkdir, readTextFile, writeTextFile } from './storage';
 
-import defaultConfigJson from '../data/config.json';
-import defaultPokemonJson from '../data/pokemon.json';
-
-// Desenvuelve un objeto JSON que puede venir envuelto en un módulo ES6
-function unwrapJson<T>(modOrObj: any): T {
-    if (modOrObj && typeof modOrObj === 'object' && 'default' in modOrObj) {
-        return modOrObj.default as T;
-    }
-    return modOrObj as T;
-}
-
-// Configuración y datos por defecto
-export const DEFAULT_CONFIG: AppConfig = unwrapJson<AppConfig>(defaultConfigJson);
-export const DEFAULT_POKEMON: Pokemon[] = unwrapJson<Pokemon[]>(defaultPokemonJson);
-
-// Detecta si la aplicación está ejecutándose en Tauri (desktop) o en web
-const isTauri = typeof window !== 'undefined' &&
-    ('__TAURI_INTERNALS__' in window || '__TAURI__' in window);
-
-// Combina la configuración personalizada con los valores por defecto
-function mergeConfigDefaults(cfg: Partial<AppConfig> | undefined): AppConfig {
-    const base = DEFAULT_CONFIG;
-    const input = cfg ?? ({} as Partial<AppConfig>);
-
-    return {
-        ...base,
-        ...input,
-        tierColors: { ...(base.tierColors || {}), ...(input.tierColors || {}) },
-        tierWeights: { ...(base.tierWeights || {}), ...(input.tierWeights || {}) },
-    };
-}
-
-// Lee y procesa un archivo de configuración desde disco
-async function readAndUnwrapConfigFile(configPath: string, rewrite = false): Promise<AppConfig> {
-    try {
-        const raw = await readTextFile(configPath);
-        let parsed: any;
-
-        try {
-            parsed = JSON.parse(raw);
-        } catch (parseErr) {
-            console.error(`[Config] Error al parsear JSON:`, parseErr);
-            return DEFAULT_CONFIG;
-        }
-
-        const unwrapped = unwrapJson<AppConfig>(parsed);
-
-        // Si está envuelto en 'default', reescribir el archivo para corregir formato
-        if (rewrite && parsed && typeof parsed === 'object' && 'default' in parsed) {
-            console.log(`[Config] Corrigiendo formato del archivo de configuración`);
-            await writeTextFile(configPath, JSON.stringify(unwrapped, null, 2));
-        }
-
-        return mergeConfigDefaults(unwrapped);
-    } catch (error) {
-        console.error(`[Config] Error al leer configuración:`, error);
-        return DEFAULT_CONFIG;
-    }
-}
+export { DEFAULT_CONFIG, DEFAULT_POKEMON };
 
 // Asegura que existen los archivos de configuración y datos para el perfil actual
 export async function ensureConfigFiles(): Promise<{
@@ -125,63 +70,199 @@ export async function ensureConfigFiles(): Promise<{
     return { configPath, dataPath, dir };
 }
 
-// Carga la configuración de la aplicación
-export async function loadConfig(): Promise<AppConfig> {
-    if (!isTauri) {
-        // Modo web: intentar cargar desde servidor
-        try {
-            const res = await fetch('/config.json');
-            if (res.ok) {
-                const json = await res.json();
-                return mergeConfigDefaults(unwrapJson<AppConfig>(json));
-            }
-            return DEFAULT_CONFIG;
-        } catch (error) {
-            console.warn(`[Config] Error cargando configuración web:`, error);
-            return DEFAULT_CONFIG;
+// ================= Carga con validación =================
+
+// Qué hacer si config.json o el archivo de datos tienen errores
+// - keep-last-good: usar la última versión válida del archivo (o los valores por defecto)
+// - load-anyway: usar el archivo igualmente, descartando lo que no se puede usar
+export type InvalidConfigPolicy = 'keep-last-good' | 'load-anyway';
+
+// Resultado de validar un archivo y origen de los datos que se han cargado
+export interface ConfigFileReport {
+    file: string; // config.json o el dataFile
+    issues: ValidationIssue[];
+    source: 'file' | 'last-good' | 'default';
+}
+
+export interface ConfigDiagnostics {
+    reports: ConfigFileReport[];
+    hasErrors: boolean; // hay incidencias de severidad 'error'
+    canLoadAnyway: boolean; // false si algún archivo no es JSON válido
+}
+
+export interface ConfigLoadResult {
+    cfg: AppConfig;
+    data: Pokemon[];
+    diagnostics: ConfigDiagnostics | null; // null si no hay ninguna incidencia
+}
+
+const CONFIG_FILE_NAME = 'config.json';
+const LAST_GOOD_SUFFIX = '.last-good'; // copia de la última versión válida de cada archivo
+
+const hasErrors = (issues: ValidationIssue[]) =>
+    issues.some((issue) => issue.severity !== 'warning');
+
+// Lee un archivo del perfil actual. Devuelve null si no existe
+async function readProfileFile(fileName: string): Promise<string | null> {
+    const { dir } = await ensureConfigFiles();
+    const path = await join(dir, fileName);
+    if (!(await exists(path))) return null;
+    return await readTextFile(path);
+}
+
+// Guarda la copia "última válida" de un archivo (solo si ha cambiado)
+async function saveLastGood(fileName: string, text: string): Promise<void> {
+    try {
+        const { dir } = await ensureConfigFiles();
+        const path = await join(dir, fileName + LAST_GOOD_SUFFIX);
+        if ((await exists(path)) && (await readTextFile(path)) === text) return;
+        await writeTextFile(path, text);
+    } catch (error) {
+        console.warn(`[Config] No se pudo guardar la última versión válida de ${fileName}:`, error);
+    }
+}
+
+async function readLastGood(fileName: string): Promise<unknown | null> {
+    try {
+        const text = await readProfileFile(fileName + LAST_GOOD_SUFFIX);
+        return text === null ? null : JSON.parse(text);
+    } catch (error) {
+        console.warn(`[Config] No se pudo leer la última versión válida de ${fileName}:`, error);
+        return null;
+    }
+}
+
+// Lee y valida un archivo: texto, valor parseado e incidencias (con número de línea)
+async function readAndParse(fileName: string): Promise<{ text: string | null; value: unknown; issues: ValidationIssue[] }> {
+    let text: string | null;
+    try {
+        text = await readProfileFile(fileName);
+    } catch (error) {
+        return { text: null, value: undefined, issues: [{ path: '(archivo)', message: `no se pudo leer: ${String(error)}` }] };
+    }
+    if (text === null) return { text, value: undefined, issues: [] };
+
+    const { value, issues } = parseJsonWithIssues(text);
+    return { text, value, issues };
+}
+
+/**
+ * Carga y valida config.json y el archivo de datos de pokémon del perfil actual.
+ * Si un archivo tiene errores, según `policy` se usa su última versión válida
+ * (o los valores por defecto) o se carga igualmente descartando lo inservible.
+ * Las incidencias se devuelven en `diagnostics` para mostrarlas al usuario.
+ */
+export async function loadConfigAndData(
+    policy: InvalidConfigPolicy = 'keep-last-good'
+): Promise<ConfigLoadResult> {
+    // --- config.json ---
+    const cfgFile = await readAndParse(CONFIG_FILE_NAME);
+    const cfgRaw = cfgFile.text === null ? DEFAULT_CONFIG : unwrapJson<unknown>(cfgFile.value);
+    const cfgParsed = cfgFile.issues.length === 0 && cfgRaw && typeof cfgRaw === 'object' && !Array.isArray(cfgRaw)
+        ? mergeConfigDefaults(cfgRaw as Partial<AppConfig>)
+        : null;
+
+    // --- archivo de datos (el nombre sale de la config, si se pudo leer) ---
+    const dataFile = cfgParsed?.dataFile || DEFAULT_CONFIG.dataFile;
+    const dataFileRead = await readAndParse(dataFile);
+    const dataRaw = dataFileRead.value;
+    if (dataFileRead.text === null) {
+        dataFileRead.issues.push({ path: '(archivo)', message: `no existe el archivo ${dataFile}` });
+    }
+
+    // --- validación cruzada ---
+    const cfgIssues = [
+        ...cfgFile.issues,
+        ...(cfgFile.issues.length ? [] : validateConfig(cfgRaw, dataRaw)),
+    ];
+    const dataIssues = [
+        ...dataFileRead.issues,
+        ...(dataFileRead.issues.length ? [] : validatePokemonData(dataRaw, (cfgParsed ?? DEFAULT_CONFIG).regionsOrder)),
+    ];
+
+    const reports: ConfigFileReport[] = [
+        { file: CONFIG_FILE_NAME, issues: cfgFile.text ? attachLines(cfgIssues, cfgFile.text) : cfgIssues, source: 'file' },
+        { file: dataFile, issues: dataFileRead.text ? attachLines(dataIssues, dataFileRead.text) : dataIssues, source: 'file' },
+    ];
+    const [cfgReport, dataReport] = reports;
+
+    // --- config efectiva ---
+    let cfg: AppConfig;
+    if (!hasErrors(cfgIssues)) {
+        cfg = cfgParsed ?? DEFAULT_CONFIG;
+        if (cfgFile.text) await saveLastGood(CONFIG_FILE_NAME, cfgFile.text);
+    } else if (policy === 'load-anyway' && cfgParsed) {
+        cfg = sanitizeConfig(cfgParsed, cfgIssues, DEFAULT_CONFIG);
+    } else {
+        const lastGood = await readLastGood(CONFIG_FILE_NAME);
+        cfg = lastGood ? mergeConfigDefaults(unwrapJson<Partial<AppConfig>>(lastGood)) : DEFAULT_CONFIG;
+        cfgReport.source = lastGood ? 'last-good' : 'default';
+    }
+
+    // --- datos efectivos ---
+    let data: Pokemon[];
+    if (!hasErrors(dataIssues)) {
+        data = dataRaw as Pokemon[];
+        if (dataFileRead.text) await saveLastGood(dataFile, dataFileRead.text);
+    } else if (policy === 'load-anyway' && Array.isArray(dataRaw)) {
+        data = sanitizePokemonData(dataRaw);
+    } else {
+        const lastGood = await readLastGood(dataFile);
+        data = Array.isArray(lastGood) ? (lastGood as Pokemon[]) : DEFAULT_POKEMON;
+        dataReport.source = Array.isArray(lastGood) ? 'last-good' : 'default';
+    }
+
+    for (const report of reports) {
+        if (report.issues.length) {
+            console.warn(`[Config] ${report.issues.length} incidencia(s) en ${report.file} (origen: ${report.source})`, report.issues);
         }
     }
+    console.log(`[Config] Cargados ${data.length} pokémon desde: ${dataFile}`);
+
+    const anyIssue = reports.some((report) => report.issues.length > 0);
+    return {
+        cfg,
+        data,
+        diagnostics: anyIssue
+            ? {
+                reports,
+                hasErrors: hasErrors(cfgIssues) || hasErrors(dataIssues),
+                canLoadAnyway: cfgParsed !== null && Array.isArray(dataRaw),
+            }
+            : null,
+    };
+}
+
+// Escribe config.json del perfil actual.
+// Rechaza configuraciones con errores de validación; `data` se usa para los avisos cruzados.
+export async function saveConfig(cfg: AppConfig, data: Pokemon[]): Promise<void> {
+    const errors = validateConfig(cfg, data).filter((issue) => issue.severity !== 'warning');
+    if (errors.length) {
+        throw new Error(`La configuración tiene ${errors.length} error(es): ${errors[0].path}: ${errors[0].message}`);
+    }
 
-    // Modo Tauri: cargar desde sistema de archivos
     const { configPath } = await ensureConfigFiles();
-    return await readAndUnwrapConfigFile(configPath, true);
+    await writeTextFile(configPath, JSON.stringify(cfg, null, 2));
+    console.log(`[Config] Configuración guardada en: ${configPath}`);
 }
 
-// Carga los datos de pokémon desde el archivo especificado en la configuración
-export async function loadPokemonData(cfg: AppConfig): Promise<Pokemon[]> {
-    if (!isTauri) {
-        // Modo web: intentar cargar desde servidor
-        try {
-            const res = await fetch('/pokemon.json');
-            if (res.ok) {
-                const json = await res.json();
-                return unwrapJson<Pokemon[]>(json);
-            }
-            return DEFAULT_POKEMON;
-        } catch (error) {
-            console.warn(`[Config] Error cargando datos de pokémon web:`, error);
-            return DEFAULT_POKEMON;
-        }
+// Escribe el catálogo de pokémon en el archivo de datos del perfil actual.
+// Rechaza catálogos con errores de validación para no dejar un archivo inservible.
+export async function savePokemonData(cfg: AppConfig, data: Pokemon[]): Promise<void> {
+    const errors = validatePokemonData(data, cfg.regionsOrder).filter((issue) => issue.severity !== 'warning');
+    if (errors.length) {
+        throw new Error(`El catálogo tiene ${errors.length} error(es): ${errors[0].path}: ${errors[0].message}`);
     }
 
-    // Modo Tauri: cargar desde sistema de archivos
     const { dir } = await ensureConfigFiles();
     const dataPath = await join(dir, cfg.dataFile);
-
-    try {
-        const raw = await readTextFile(dataPath);
-        const data = JSON.parse(raw) as Pokemon[];
-        console.log(`[Config] Cargados ${data.length} pokémon desde: ${cfg.dataFile}`);
-        return data;
-    } catch (error) {
-        console.warn(`[Config] Error cargando datos de pokémon, usando por defecto:`, error);
-        return DEFAULT_POKEMON;
-    }
+    await writeTextFile(dataPath, JSON.stringify(data, null, 2));
+    console.log(`[Config] Guardados ${data.length} pokémon en: ${cfg.dataFile}`);
 }
 
-// Abre la carpeta de configuración del perfil actual
+// Abre la carpeta de configuración del perfil actual (solo en la app de escritorio)
 export async function openConfigFolder(): Promise<void> {
-    if (!isTauri) return;
+    if (getStorage().kind !== 'tauri') return;
 
     const currentProfileId = await getCurrentProfile();
     const dir = await getProfileDir(currentProfileId);
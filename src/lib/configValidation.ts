@@ -0,0 +1,567 @@
+import type { AppConfig, Pokemon, ValidationIssue } from '../types';
+
+// ================= Localización de líneas =================
+
+// Recorre un JSON ya válido y anota la línea donde empieza cada valor.
+// Las rutas tienen el mismo formato que las incidencias: "quota.S", "[3].precio"...
+export function indexJsonLines(text: string): Map<string, number> {
+    const lines = new Map<string, number>();
+    let i = 0;
+    let line = 1;
+
+    const skipWhitespace = () => {
+        while (i < text.length && /\s/.test(text[i])) {
+            if (text[i] === '\n') line++;
+            i++;
+        }
+    };
+
+    const readString = (): string => {
+        let out = '';
+        i++; // comilla inicial
+        while (i < text.length && text[i] !== '"') {
+            if (text[i] === '\\') {
+                out += text[i + 1];
+                i += 2;
+            } else {
+                out += text[i++];
+            }
+        }
+        i++; // comilla final
+        return out;
+    };
+
+    const readValue = (path: string) => {
+        skipWhitespace();
+        lines.set(path, line);
+        const ch = text[i];
+
+        if (ch === '{' || ch === '[') {
+            const isArray = ch === '[';
+            const close = isArray ? ']' : '}';
+            let index = 0;
+            i++;
+            skipWhitespace();
+            while (i < text.length && text[i] !== close) {
+                if (isArray) {
+                    readValue(`${path}[${index++}]`);
+                } else {
+                    const key = readString();
+                    skipWhitespace();
+                    i++; // ':'
+                    readValue(path ? `${path}.${key}` : key);
+                }
+                skipWhitespace();
+                if (text[i] === ',') i++;
+                skipWhitespace();
+            }
+            i++;
+        } else if (ch === '"') {
+            readString();
+        } else {
+            while (i < text.length && !/[\s,\]}]/.test(text[i])) i++;
+        }
+    };
+
+    readValue('');
+    return lines;
+}
+
+// Añade el número de línea a cada incidencia (usando la ruta más cercana que exista)
+export function attachLines(issues: ValidationIssue[], text: string): ValidationIssue[] {
+    const lines = indexJsonLines(text);
+    return issues.map((issue) => {
+        if (issue.line !== undefined) return issue;
+        let path = issue.path;
+        while (path && !lines.has(path)) {
+            path = path.replace(/(\.[^.[\]]+|\[\d+\])$/, '');
+        }
+        const line = lines.get(path);
+        return line === undefined ? issue : { ...issue, line };
+    });
+}
+
+// Parsea un JSON; si falla, devuelve la incidencia con la línea del error de sintaxis
+export function parseJsonWithIssues(text: string): { value: unknown; issues: ValidationIssue[] } {
+    try {
+        return { value: JSON.parse(text), issues: [] };
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        const position = /position (\d+)/.exec(message);
+        const lineMatch = /line (\d+)/.exec(message);
+        const line = position
+            ? text.slice(0, Number(position[1])).split('\n').length
+            : lineMatch
+                ? Number(lineMatch[1])
+                : undefined;
+        return {
+            value: undefined,
+            issues: [{ path: '(archivo)', message: `JSON inválido: ${message}`, line }],
+        };
+    }
+}
+
+// ================= Reglas =================
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isInt = (v: unknown): v is number => Number.isInteger(v);
+const isStrArray = (v: unknown): v is string[] =>
+    Array.isArray(v) && v.every((x) => typeof x === 'string');
+
+// Tiers presentes en los datos (en mayúsculas, como los usa storeLogic)
+function tiersInData(data: unknown): Set<string> | null {
+    if (!Array.isArray(data)) return null;
+    return new Set(
+        data
+            .filter((p) => isObject(p) && typeof p.tier === 'string')
+            .map((p) => String((p as Pokemon).tier).toUpperCase())
+    );
+}
+
+/**
+ * Valida el contenido de config.json.
+ * Solo se comprueban los campos presentes: los ausentes se rellenan con los valores por defecto.
+ * Errores: tipos incorrectos, pesos no numéricos, intervalos a 0, tiers o rangos repetidos en tiers...
+ * Avisos: tiers de quota/tierWeights que no existen en los datos o no están en tiers, regiones repetidas,
+ * regionOverrides de regiones que no están en regionsOrder, campos de pricing desconocidos.
+ */
+export function validateConfig(raw: unknown, data: unknown): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    if (!isObject(raw)) {
+        return [{ path: '(archivo)', message: 'se esperaba un objeto con la configuración' }];
+    }
+
+    const error = (path: string, message: string) => issues.push({ path, message });
+    const warn = (path: string, message: string) =>
+        issues.push({ path, message, severity: 'warning' });
+    const dataTiers = tiersInData(data);
+    // Tiers de config.tiers (null = sin lista, orden por letra)
+    const definedTiers = Array.isArray(raw.tiers) && raw.tiers.length
+        ? new Set(raw.tiers.filter((def) => isObject(def) && typeof def.id === 'string').map((def) => String(def.id).trim().toUpperCase()))
+        : null;
+
+    if ('shopSize' in raw && !(isInt(raw.shopSize) && raw.shopSize > 0)) {
+        error('shopSize', `debe ser un entero mayor que 0 (hay ${JSON.stringify(raw.shopSize)})`);
+    }
+
+    if ('quota' in raw) {
+        if (!isObject(raw.quota)) {
+            error('quota', 'debe ser un objeto { tier: mínimo }');
+        } else {
+            for (const [tier, count] of Object.entries(raw.quota)) {
+                if (!(isInt(count) && count >= 0)) {
+                    error(`quota.${tier}`, `debe ser un entero >= 0 (hay ${JSON.stringify(count)})`);
+                } else if (count > 0 && dataTiers && !dataTiers.has(tier.toUpperCase())) {
+                    warn(`quota.${tier}`, `el tier "${tier}" no existe en los datos de pokémon`);
+                }
+            }
+        }
+    }
+
+    if ('tierWeights' in raw && raw.tierWeights !== undefined) {
+        if (!isObject(raw.tierWeights)) {
+            error('tierWeights', 'debe ser un objeto { tier: peso }');
+        } else {
+            for (const [tier, weight] of Object.entries(raw.tierWeights)) {
+                if (!isNum(weight)) {
+                    error(`tierWeights.${tier}`, `el peso debe ser numérico (hay ${JSON.stringify(weight)})`);
+                } else if (weight < 0) {
+                    error(`tierWeights.${tier}`, `el peso no puede ser negativo (${weight})`);
+                } else if (weight > 0 && definedTiers && !definedTiers.has(tier.toUpperCase())) {
+                    warn(`tierWeights.${tier}`, `el tier "${tier}" no está en tiers, su peso se ignora`);
+                } else if (weight > 0 && dataTiers && !dataTiers.has(tier.toUpperCase())) {
+                    warn(`tierWeights.${tier}`, `el tier "${tier}" no existe en los datos de pokémon`);
+                }
+            }
+        }
+    }
+
+    if ('regionsOrder' in raw) {
+        if (!isStrArray(raw.regionsOrder)) {
+            error('regionsOrder', 'debe ser una lista de nombres de región');
+        } else {
+            const seen = new Set<string>();
+            raw.regionsOrder.forEach((region, i) => {
+                const key = region.toLowerCase();
+                if (seen.has(key)) warn(`regionsOrder[${i}]`, `la región "${region}" está repetida`);
+                seen.add(key);
+            });
+        }
+    }
+
+    if ('rerollsPerRegion' in raw && !(isInt(raw.rerollsPerRegion) && raw.rerollsPerRegion >= 0)) {
+        error('rerollsPerRegion', `debe ser un entero >= 0 (hay ${JSON.stringify(raw.rerollsPerRegion)})`);
+    }
+
+    for (const key of ['shopRefreshEveryRegions', 'rerollRechargeEveryRegions'] as const) {
+        if (key in raw && !(isInt(raw[key]) && (raw[key] === -1 || (raw[key] as number) > 0))) {
+            error(key, `debe ser -1 (nunca) o un entero mayor que 0 (hay ${JSON.stringify(raw[key])})`);
+        }
+    }
+
+    for (const key of [
+        'rerollResetOnRefresh',
+        'allowDuplicates',
+        'includePurchasedInRerollPool',
+        'shopBuySlotAutofill',
+        'tierFallback',
+        'tierFallbackNoUpgrade',
+        'sellReturnsToPool',
+        'confirmSell',
+    ] as const) {
+        if (key in raw && typeof raw[key] !== 'boolean') {
+            error(key, `debe ser true o false (hay ${JSON.stringify(raw[key])})`);
+        }
+    }
+
+    if ('rerollPolicy' in raw && raw.rerollPolicy !== undefined && !REROLL_POLICY_IDS.includes(raw.rerollPolicy)) {
+        error('rerollPolicy', `debe ser ${REROLL_POLICY_IDS.join(', ')} (hay ${JSON.stringify(raw.rerollPolicy)})`);
+    }
+
+    if ('rerollTierBudgets' in raw && raw.rerollTierBudgets !== undefined) {
+        if (!isObject(raw.rerollTierBudgets)) {
+            error('rerollTierBudgets', 'debe ser un objeto { tier: rerolls }');
+        } else {
+            for (const [tier, count] of Object.entries(raw.rerollTierBudgets)) {
+                if (!(isInt(count) && count >= 0)) {
+                    error(`rerollTierBudgets.${tier}`, `debe ser un entero >= 0 (hay ${JSON.stringify(count)})`);
+                } else if (dataTiers && !dataTiers.has(tier.toUpperCase())) {
+                    warn(`rerollTierBudgets.${tier}`, `el tier "${tier}" no existe en los datos de pokémon`);
+                }
+            }
+        }
+    }
+
+    for (const key of ['rerollCost', 'rerollCostIncrease'] as const) {
+        if (key in raw && raw[key] !== undefined && !(isNum(raw[key]) && raw[key] >= 0)) {
+            error(key, `debe ser un número >= 0 (hay ${JSON.stringify(raw[key])})`);
+        }
+    }
+
+    for (const key of ['undoDepth', 'historyLimit', 'maxLockedSlots', 'reserveHoldRegions', 'rerollsPerSlot'] as const) {
+        if (key in raw && raw[key] !== undefined && !(isInt(raw[key]) && raw[key] >= 0)) {
+            error(key, `debe ser un entero >= 0 (hay ${JSON.stringify(raw[key])})`);
+        }
+    }
+
+    for (const key of ['sellRefundPercent', 'reserveDepositPercent'] as const) {
+        if (key in raw && raw[key] !== undefined && !(isNum(raw[key]) && raw[key] >= 0 && raw[key] <= 100)) {
+            error(key, `debe ser un número entre 0 y 100 (hay ${JSON.stringify(raw[key])})`);
+        }
+    }
+
+    if ('dataFile' in raw && !(typeof raw.dataFile === 'string' && raw.dataFile.trim())) {
+        error('dataFile', 'debe ser el nombre del archivo de datos');
+    }
+
+    if ('tiers' in raw && raw.tiers !== undefined) {
+        issues.push(...validateTierDefinitions(raw.tiers, dataTiers));
+    }
+
+    if ('tierFallbackChain' in raw && raw.tierFallbackChain !== undefined) {
+        issues.push(...validateFallbackChain(raw.tierFallbackChain, 'tierFallbackChain', dataTiers));
+    }
+
+    if ('tierColors' in raw && raw.tierColors !== undefined) {
+        if (!isObject(raw.tierColors)) {
+            error('tierColors', 'debe ser un objeto { tier: color }');
+        } else {
+            for (const [tier, color] of Object.entries(raw.tierColors)) {
+                if (typeof color !== 'string') error(`tierColors.${tier}`, 'el color debe ser un texto CSS');
+            }
+        }
+    }
+
+    if ('defaultTierColor' in raw && raw.defaultTierColor !== undefined && typeof raw.defaultTierColor !== 'string') {
+        error('defaultTierColor', 'el color debe ser un texto CSS');
+    }
+
+    if ('seed' in raw && raw.seed !== null && raw.seed !== undefined && !isNum(raw.seed)) {
+        error('seed', `debe ser un número o null (hay ${JSON.stringify(raw.seed)})`);
+    }
+
+    if ('regionOverrides' in raw && raw.regionOverrides !== undefined) {
+        if (!isObject(raw.regionOverrides)) {
+            error('regionOverrides', 'debe ser un objeto { región: ajustes }');
+        } else {
+            const knownRegions = isStrArray(raw.regionsOrder)
+                ? new Set(raw.regionsOrder.map((r) => r.toLowerCase()))
+                : null;
+            for (const [region, override] of Object.entries(raw.regionOverrides)) {
+                issues.push(...validateRegionOverride(override, `regionOverrides.${region}`, dataTiers));
+                if (knownRegions && !knownRegions.has(region.toLowerCase())) {
+                    warn(`regionOverrides.${region}`, `la región "${region}" no está en regionsOrder`);
+                }
+            }
+        }
+    }
+
+    if ('pricing' in raw && raw.pricing !== undefined) {
+        if (!isObject(raw.pricing)) {
+            error('pricing', 'debe ser un objeto con las reglas de precio');
+        } else {
+            for (const [key, value] of Object.entries(raw.pricing)) {
+                if (!PRICING_KEYS.includes(key)) {
+                    warn(`pricing.${key}`, 'campo desconocido, se ignora');
+                } else if (!isNum(value) || value < 0) {
+                    error(`pricing.${key}`, `debe ser un número >= 0 (hay ${JSON.stringify(value)})`);
+                } else if (key === 'rounding' && value === 0) {
+                    error('pricing.rounding', 'debe ser mayor que 0');
+                } else if ((key === 'variance' || key === 'maxSaturationDiscount') && value > 100) {
+                    warn(`pricing.${key}`, `más de 100 % (${value}) se trata como 100 %`);
+                }
+            }
+        }
+    }
+
+    return issues;
+}
+
+// Valida config.tiers: ids y rangos únicos. Avisa de los tiers del catálogo que no están en la lista
+function validateTierDefinitions(raw: unknown, dataTiers: Set<string> | null): ValidationIssue[] {
+    if (!Array.isArray(raw)) return [{ path: 'tiers', message: 'debe ser una lista de tiers { id, rank, name?, color?, icon? }' }];
+
+    const issues: ValidationIssue[] = [];
+    const ids = new Map<string, number>();
+    const ranks = new Map<number, number>();
+    raw.forEach((def, i) => {
+        const path = `tiers[${i}]`;
+        if (!isObject(def)) {
+            issues.push({ path, message: 'debe ser un objeto { id, rank, name?, color?, icon? }' });
+            return;
+        }
+        if (!(typeof def.id === 'string' && def.id.trim())) {
+            issues.push({ path: `${path}.id`, message: 'debe ser un texto no vacío' });
+        } else {
+            const key = def.id.trim().toUpperCase();
+            if (ids.has(key)) issues.push({ path: `${path}.id`, message: `el tier "${def.id}" ya está en tiers[${ids.get(key)}]` });
+            else ids.set(key, i);
+        }
+        if (!isNum(def.rank)) {
+            issues.push({ path: `${path}.rank`, message: `debe ser un número (hay ${JSON.stringify(def.rank)})` });
+        } else if (ranks.has(def.rank)) {
+            issues.push({ path: `${path}.rank`, message: `el rango ${def.rank} ya lo usa tiers[${ranks.get(def.rank)}]` });
+        } else {
+            ranks.set(def.rank, i);
+        }
+        for (const key of ['name', 'color', 'icon'] as const) {
+            if (key in def && def[key] !== undefined && typeof def[key] !== 'string') {
+                issues.push({ path: `${path}.${key}`, message: 'debe ser un texto' });
+            }
+        }
+    });
+
+    if (ids.size && dataTiers) {
+        for (const tier of dataTiers) {
+            if (!ids.has(tier)) {
+                issues.push({
+                    path: 'tiers',
+                    message: `el tier "${tier}" de los datos no está en la lista: se ordena por debajo de todos`,
+                    severity: 'warning',
+                });
+            }
+        }
+    }
+    return issues;
+}
+
+// Valida una cadena de fallback { tier: [tiers alternativos] }. Avisa de los tiers que no existen en los datos
+function validateFallbackChain(raw: unknown, path: string, dataTiers: Set<string> | null): ValidationIssue[] {
+    if (!isObject(raw)) return [{ path, message: 'debe ser un objeto { tier: [tiers alternativos] }' }];
+
+    const issues: ValidationIssue[] = [];
+    for (const [tier, chain] of Object.entries(raw)) {
+        if (!isStrArray(chain)) {
+            issues.push({ path: `${path}.${tier}`, message: 'debe ser una lista de tiers ([] = sin fallback)' });
+            continue;
+        }
+        chain.forEach((fallback, i) => {
+            if (fallback.trim().toUpperCase() === tier.trim().toUpperCase()) {
+                issues.push({ path: `${path}.${tier}[${i}]`, message: 'el tier no puede ser su propio fallback', severity: 'warning' });
+            } else if (dataTiers && !dataTiers.has(fallback.trim().toUpperCase())) {
+                issues.push({
+                    path: `${path}.${tier}[${i}]`,
+                    message: `el tier "${fallback}" no existe en los datos de pokémon`,
+                    severity: 'warning',
+                });
+            }
+        });
+    }
+    return issues;
+}
+
+const REROLL_POLICY_IDS: unknown[] = ['global', 'region', 'tier', 'slot', 'paid'];
+
+const PRICING_KEYS = [
+    'inflationPerRegion',
+    'inflationPerPurchase',
+    'saturationDiscount',
+    'maxSaturationDiscount',
+    'variance',
+    'rounding',
+];
+
+// Valida los ajustes de una región (mismas reglas que los campos globales equivalentes)
+function validateRegionOverride(raw: unknown, path: string, dataTiers: Set<string> | null): ValidationIssue[] {
+    if (!isObject(raw)) return [{ path, message: 'debe ser un objeto con los ajustes de la región' }];
+
+    const issues: ValidationIssue[] = [];
+    const error = (key: string, message: string) => issues.push({ path: `${path}.${key}`, message });
+
+    if ('shopSize' in raw && !(isInt(raw.shopSize) && raw.shopSize > 0)) {
+        error('shopSize', `debe ser un entero mayor que 0 (hay ${JSON.stringify(raw.shopSize)})`);
+    }
+    if ('rerollsPerRegion' in raw && !(isInt(raw.rerollsPerRegion) && raw.rerollsPerRegion >= 0)) {
+        error('rerollsPerRegion', `debe ser un entero >= 0 (hay ${JSON.stringify(raw.rerollsPerRegion)})`);
+    }
+    for (const key of ['allowDuplicates', 'tierFallback', 'tierFallbackNoUpgrade'] as const) {
+        if (key in raw && typeof raw[key] !== 'boolean') {
+            error(key, `debe ser true o false (hay ${JSON.stringify(raw[key])})`);
+        }
+    }
+    if ('tierFallbackChain' in raw) {
+        issues.push(...validateFallbackChain(raw.tierFallbackChain, `${path}.tierFallbackChain`, dataTiers));
+    }
+    if ('priceMultiplier' in raw && !(isNum(raw.priceMultiplier) && raw.priceMultiplier >= 0)) {
+        error('priceMultiplier', `debe ser un número >= 0 (hay ${JSON.stringify(raw.priceMultiplier)})`);
+    }
+
+    for (const key of ['quota', 'tierWeights'] as const) {
+        if (!(key in raw)) continue;
+        const map = raw[key];
+        if (!isObject(map)) {
+            error(key, `debe ser un objeto { tier: ${key === 'quota' ? 'mínimo' : 'peso'} }`);
+            continue;
+        }
+        for (const [tier, value] of Object.entries(map)) {
+            const valid = (key === 'quota' ? isInt(value) : isNum(value)) && (value as number) >= 0;
+            if (!valid) {
+                error(`${key}.${tier}`, `debe ser ${key === 'quota' ? 'un entero' : 'un número'} >= 0 (hay ${JSON.stringify(value)})`);
+            } else if ((value as number) > 0 && dataTiers && !dataTiers.has(tier.toUpperCase())) {
+                issues.push({
+                    path: `${path}.${key}.${tier}`,
+                    message: `el tier "${tier}" no existe en los datos de pokémon`,
+                    severity: 'warning',
+                });
+            }
+        }
+    }
+
+    return issues;
+}
+
+// Comprueba la estructura de una entrada: sin esto no se puede usar en la tienda
+function checkPokemonShape(entry: unknown, path: string): ValidationIssue[] {
+    if (!isObject(entry)) return [{ path, message: 'se esperaba un objeto pokémon' }];
+
+    const issues: ValidationIssue[] = [];
+    if (!isInt(entry.id)) issues.push({ path: `${path}.id`, message: `debe ser un entero (hay ${JSON.stringify(entry.id)})` });
+    if (typeof entry.nombre !== 'string') issues.push({ path: `${path}.nombre`, message: 'debe ser un texto' });
+    if (!(typeof entry.tier === 'string' && entry.tier.trim())) issues.push({ path: `${path}.tier`, message: 'debe ser un texto no vacío' });
+    if (!isNum(entry.precio)) issues.push({ path: `${path}.precio`, message: `debe ser un número (hay ${JSON.stringify(entry.precio)})` });
+    if (!isStrArray(entry.regiones)) issues.push({ path: `${path}.regiones`, message: 'debe ser una lista de regiones' });
+    return issues;
+}
+
+/**
+ * Valida el contenido del archivo de datos de pokémon.
+ * Errores: estructura incorrecta, ids duplicados, precios negativos, pesos de rareza que no son números > 0.
+ * Avisos: regiones que no están en regionsOrder (esos pokémon no saldrán en ninguna tienda),
+ * pesos por región de regiones donde el pokémon no aparece.
+ */
+export function validatePokemonData(raw: unknown, regionsOrder: string[]): ValidationIssue[] {
+    if (!Array.isArray(raw)) {
+        return [{ path: '(archivo)', message: 'se esperaba una lista de pokémon' }];
+    }
+
+    const issues: ValidationIssue[] = [];
+    const firstIndexById = new Map<number, number>();
+    const knownRegions = new Set(regionsOrder.map((r) => r.toLowerCase()));
+
+    raw.forEach((entry, i) => {
+        const path = `[${i}]`;
+        const shapeIssues = checkPokemonShape(entry, path);
+        issues.push(...shapeIssues);
+        if (!isObject(entry)) return;
+
+        const label = `${entry.nombre ?? '?'} (id ${entry.id})`;
+
+        if (isInt(entry.id)) {
+            const first = firstIndexById.get(entry.id);
+            if (first !== undefined) {
+                issues.push({ path: `${path}.id`, message: `id ${entry.id} duplicado: ya usado en la entrada [${first}]` });
+            } else {
+                firstIndexById.set(entry.id, i);
+            }
+        }
+
+        if (isNum(entry.precio) && entry.precio < 0) {
+            issues.push({ path: `${path}.precio`, message: `${label}: el precio no puede ser negativo (${entry.precio})` });
+        }
+
+        if ('peso' in entry && entry.peso !== undefined && !(isNum(entry.peso) && entry.peso > 0)) {
+            issues.push({ path: `${path}.peso`, message: `${label}: el peso debe ser un número > 0 (hay ${JSON.stringify(entry.peso)})` });
+        }
+
+        if ('pesoPorRegion' in entry && entry.pesoPorRegion !== undefined) {
+            if (!isObject(entry.pesoPorRegion)) {
+                issues.push({ path: `${path}.pesoPorRegion`, message: `${label}: debe ser un objeto { región: peso }` });
+            } else {
+                const regiones = isStrArray(entry.regiones) ? entry.regiones.map((r) => r.toLowerCase()) : [];
+                for (const [region, weight] of Object.entries(entry.pesoPorRegion)) {
+                    if (!(isNum(weight) && weight > 0)) {
+                        issues.push({
+                            path: `${path}.pesoPorRegion.${region}`,
+                            message: `${label}: el peso debe ser un número > 0 (hay ${JSON.stringify(weight)})`,
+                        });
+                    } else if (!regiones.includes(region.toLowerCase())) {
+                        issues.push({
+                            path: `${path}.pesoPorRegion.${region}`,
+                            message: `${label}: no aparece en "${region}", el peso no se usa`,
+                            severity: 'warning',
+                        });
+                    }
+                }
+            }
+        }
+
+        if (isStrArray(entry.regiones)) {
+            entry.regiones.forEach((region, r) => {
+                if (!knownRegions.has(region.toLowerCase())) {
+                    issues.push({
+                        path: `${path}.regiones[${r}]`,
+                        message: `${label}: la región "${region}" no está en regionsOrder`,
+                        severity: 'warning',
+                    });
+                }
+            });
+        }
+    });
+
+    return issues;
+}
+
+// ================= Saneado para "cargar de todos modos" =================
+
+// Sustituye por el valor por defecto cada campo de primer nivel con errores (o lo quita si no tiene)
+export function sanitizeConfig(
+    config: AppConfig,
+    issues: ValidationIssue[],
+    defaults: AppConfig
+): AppConfig {
+    const result: Record<string, unknown> = { ...config };
+    for (const issue of issues) {
+        if (issue.severity === 'warning') continue;
+        const key = issue.path.split(/[.[]/)[0] as keyof AppConfig;
+        if (key in defaults) result[key] = defaults[key];
+        else delete result[key]; // campo opcional sin valor por defecto (p. ej. regionOverrides)
+    }
+    return result as unknown as AppConfig;
+}
+
+// Descarta las entradas cuya estructura no permite usarlas en la tienda
+export function sanitizePokemonData(raw: unknown[]): Pokemon[] {
+    return raw.filter((entry, i) => checkPokemonShape(entry, `[${i}]`).length === 0) as Pokemon[];
+}
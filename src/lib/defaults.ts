@@ -0,0 +1,31 @@
+import type { AppConfig, Pokemon } from '../types';
+
+import defaultConfigJson from '../data/config.json';
+import defaultPokemonJson from '../data/pokemon.json';
+
+// Configuración y datos de serie. Sin dependencias de Tauri: lo usan la app y el CLI
+
+// Desenvuelve un objeto JSON que puede venir envuelto en un módulo ES6
+export function unwrapJson<T>(modOrObj: any): T {
+    if (modOrObj && typeof modOrObj === 'object' && 'default' in modOrObj) {
+        return modOrObj.default as T;
+    }
+    return modOrObj as T;
+}
+
+// Configuración y datos por defecto
+export const DEFAULT_CONFIG: AppConfig = unwrapJson<AppConfig>(defaultConfigJson);
+export const DEFAULT_POKEMON: Pokemon[] = unwrapJson<Pokemon[]>(defaultPokemonJson);
+
+// Combina la configuración personalizada con los valores por defecto
+export function mergeConfigDefaults(cfg: Partial<AppConfig> | undefined): AppConfig {
+    const base = DEFAULT_CONFIG;
+    const input = cfg ?? ({} as Partial<AppConfig>);
+
+    return {
+        ...base,
+        ...input,
+        tierColors: { ...(base.tierColors || {}), ...(input.tierColors || {}) },
+        tierWeights: { ...(base.tierWeights || {}), ...(input.tierWeights || {}) },
+    };
+}
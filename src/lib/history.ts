@@ -0,0 +1,144 @@
+import type { HistoryEvent, HistoryEventType } from '../types';
+import { getCurrentProfile, getProfileDir } from './profileManager';
+import { downloadTextFile, exists, getStorage, join, mkdir, readTextFile, writeTextFile } from './storage';
+
+// Historial: filtros, exportación y archivo de los eventos antiguos
+
+const ARCHIVE_FILE_NAME = 'history-archive.jsonl';
+const EXPORTS_DIR = 'exports';
+
+export const DEFAULT_HISTORY_LIMIT = 500;
+
+export const HISTORY_TYPE_LABELS: Record<HistoryEventType, string> = {
+    'money:add': 'Dinero añadido',
+    'money:subtract': 'Dinero restado',
+    buy: 'Compra',
+    'buy:failed': 'Compra fallida',
+    sell: 'Venta',
+    reroll: 'Reroll',
+    lock: 'Bloqueo',
+    reserve: 'Reserva',
+    'reserve:complete': 'Reserva completada',
+    'reserve:cancel': 'Reserva cancelada',
+    'reserve:expire': 'Reserva caducada',
+    'region:next': 'Región siguiente',
+    'region:prev': 'Región anterior',
+    refresh: 'Tienda / región',
+    reset: 'Reinicio',
+    undo: 'Deshacer',
+    redo: 'Rehacer',
+};
+
+// Criterios del panel de historial (vacío = sin filtrar)
+export interface HistoryFilter {
+    types: HistoryEventType[];
+    region: string | null; // '' = eventos sin región (anteriores a que se registrara)
+    from: string; // YYYY-MM-DD (día local, incluido)
+    to: string; // YYYY-MM-DD (día local, incluido)
+    query: string;
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = { types: [], region: null, from: '', to: '', query: '' };
+
+// Eventos que se guardan en save.sav según la config (0 = sin límite)
+export function historyLimitOf(limit: number | undefined): number {
+    return Number.isInteger(limit) && (limit as number) >= 0 ? (limit as number) : DEFAULT_HISTORY_LIMIT;
+}
+
+// Día local de un evento en formato YYYY-MM-DD (comparable con <input type='date'>)
+export function localDay(ts: string): string {
+    const d = new Date(ts);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function filterHistory(history: HistoryEvent[], filter: HistoryFilter): HistoryEvent[] {
+    const query = filter.query.trim().toLowerCase();
+    return history.filter((event) => {
+        if (filter.types.length && !filter.types.includes(event.type)) return false;
+        if (filter.region !== null && (event.region ?? '') !== filter.region) return false;
+        if (filter.from || filter.to) {
+            const day = localDay(event.ts);
+            if (filter.from && day < filter.from) return false;
+            if (filter.to && day > filter.to) return false;
+        }
+        return !query || event.message.toLowerCase().includes(query);
+    });
+}
+
+function csvCell(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function historyToCsv(history: HistoryEvent[]): string {
+    const rows = history.map((event) =>
+        [event.ts, event.type, event.region ?? '', event.message].map(csvCell).join(',')
+    );
+    return ['fecha,tipo,region,mensaje', ...rows].join('\n') + '\n';
+}
+
+export function historyToJson(history: HistoryEvent[]): string {
+    return JSON.stringify(history, null, 2);
+}
+
+/**
+ * Exporta el historial a CSV o JSON.
+ * En Tauri se escribe en exports/ dentro del perfil y devuelve la ruta; en web se descarga y devuelve null.
+ */
+export async function exportHistory(history: HistoryEvent[], format: 'csv' | 'json'): Promise<string | null> {
+    const content = format === 'csv' ? historyToCsv(history) : historyToJson(history);
+    const fileName = `historial-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+
+    if (getStorage().kind !== 'tauri') {
+        downloadTextFile(fileName, content, format === 'csv' ? 'text/csv' : 'application/json');
+        return null;
+    }
+
+    const dir = await join(await getProfileDir(await getCurrentProfile()), EXPORTS_DIR);
+    await mkdir(dir, { recursive: true });
+    const path = await join(dir, fileName);
+    await writeTextFile(path, content);
+    console.log(`[History] Exported ${history.length} events to: ${path}`);
+    return path;
+}
+
+/**
+ * Añade eventos (del más antiguo al más reciente) a history-archive.jsonl del perfil.
+ * Devuelve false si no se pudieron archivar, para que no se quiten de save.sav.
+ */
+export async function archiveHistory(events: HistoryEvent[], profileId?: string): Promise<boolean> {
+    if (!events.length) return false;
+    try {
+        const currentProfileId = profileId || await getCurrentProfile();
+        const path = await join(await getProfileDir(currentProfileId), ARCHIVE_FILE_NAME);
+        const lines = events.map((event) => JSON.stringify(event)).join('\n') + '\n';
+        await writeTextFile(path, lines, { append: true });
+        console.log(`[History] Archived ${events.length} events to: ${path}`);
+        return true;
+    } catch (err) {
+        console.error(`[History] Error archiving history:`, err);
+        return false;
+    }
+}
+
+// Eventos archivados del perfil, del más antiguo al más reciente (las líneas ilegibles se saltan)
+export async function readHistoryArchive(profileId?: string): Promise<HistoryEvent[]> {
+    try {
+        const currentProfileId = profileId || await getCurrentProfile();
+        const path = await join(await getProfileDir(currentProfileId), ARCHIVE_FILE_NAME);
+        if (!(await exists(path))) return [];
+        const events: HistoryEvent[] = [];
+        for (const line of (await readTextFile(path)).split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                events.push(JSON.parse(line) as HistoryEvent);
+            } catch {
+                console.warn(`[History] Skipping unreadable archive line in: ${path}`);
+            }
+        }
+        return events;
+    } catch (err) {
+        console.error(`[History] Error reading history archive:`, err);
+        return [];
+    }
+}
@@ -0,0 +1,142 @@
+import type { AppConfig, Pokemon, RulePreset } from '../types';
+import { DEFAULT_CONFIG } from './config';
+import { validateConfig, validatePokemonData } from './configValidation';
+import { getProfileDir } from './profileManager';
+import { appConfigDir, exists, join, mkdir, readDir, readTextFile, remove, writeTextFile } from './storage';
+
+// Presets de reglas para crear perfiles: los de serie más los que guarda el usuario en <appConfigDir>/presets
+
+const PRESETS_DIR = 'presets';
+
+// Config de serie con los cambios de cada preset
+const withDefaults = (overrides: Partial<AppConfig>): AppConfig => ({ ...DEFAULT_CONFIG, ...overrides });
+
+export const BUILTIN_PRESETS: RulePreset[] = [
+    {
+        id: 'builtin:nuzlocke',
+        name: 'Nuzlocke',
+        description: 'Tienda pequeña, sin rerolls ni deshacer, sin duplicados y sin devolución al vender.',
+        builtin: true,
+        config: withDefaults({
+            shopSize: 6,
+            quota: { S: 0, A: 1, B: 1, C: 2 },
+            rerollsPerRegion: 0,
+            allowDuplicates: false,
+            includePurchasedInRerollPool: false,
+            sellRefundPercent: 0,
+            undoDepth: 0,
+        }),
+    },
+    {
+        id: 'builtin:budget',
+        name: 'Presupuesto ajustado',
+        description: 'Predominan los tiers bajos, los precios suben con cada región y vender devuelve el 75 %.',
+        builtin: true,
+        config: withDefaults({
+            shopSize: 8,
+            quota: { S: 0, A: 1, B: 2, C: 3 },
+            tierWeights: { C: 50, B: 30, A: 15, S: 5 },
+            rerollsPerRegion: 1,
+            sellRefundPercent: 75,
+            pricing: { inflationPerRegion: 10, saturationDiscount: 5, rounding: 10 },
+        }),
+    },
+    {
+        id: 'builtin:high-variance',
+        name: 'Alta variación',
+        description: 'Todos los tiers igual de probables, sin mínimos, duplicados permitidos, muchos rerolls y precios muy variables.',
+        builtin: true,
+        config: withDefaults({
+            quota: { S: 0, A: 0, B: 0, C: 0 },
+            tierWeights: { C: 25, B: 25, A: 25, S: 25 },
+            allowDuplicates: true,
+            rerollsPerRegion: 5,
+            pricing: { variance: 40, rounding: 10 },
+        }),
+    },
+];
+
+async function getPresetsDir(): Promise<string> {
+    return await join(await appConfigDir(), PRESETS_DIR);
+}
+
+// Nombre de archivo a partir del nombre del preset
+function presetFileName(name: string): string {
+    return `${name.replace(/[<>:"/\\|?*\s]/g, '_').trim() || 'preset'}.json`;
+}
+
+// Presets de serie y guardados. Los guardados con errores se omiten (con aviso en consola)
+export async function listPresets(): Promise<RulePreset[]> {
+    const presets = [...BUILTIN_PRESETS];
+    try {
+        const dir = await getPresetsDir();
+        if (!(await exists(dir))) return presets;
+        for (const entry of await readDir(dir)) {
+            if (!entry.isFile || !entry.name.endsWith('.json')) continue;
+            try {
+                const raw = JSON.parse(await readTextFile(await join(dir, entry.name)));
+                const errors = validateConfig(raw?.config, raw?.data ?? null).filter((i) => i.severity !== 'warning');
+                if (typeof raw?.name !== 'string' || errors.length) {
+                    console.warn(`[Presets] Skipping invalid preset ${entry.name}:`, errors);
+                    continue;
+                }
+                presets.push({
+                    id: `user:${entry.name}`,
+                    name: raw.name,
+                    description: typeof raw.description === 'string' ? raw.description : '',
+                    config: raw.config,
+                    data: Array.isArray(raw.data) ? raw.data : undefined,
+                });
+            } catch (err) {
+                console.warn(`[Presets] Could not read preset ${entry.name}:`, err);
+            }
+        }
+    } catch (err) {
+        console.error(`[Presets] Error listing presets:`, err);
+    }
+    return presets;
+}
+
+/**
+ * Guarda la config de un perfil (y opcionalmente su catálogo) como preset del usuario.
+ * Falla si ya hay un preset con ese nombre o si config.json / el catálogo tienen errores.
+ */
+export async function savePresetFromProfile(
+    profileId: string,
+    name: string,
+    description: string,
+    includeCatalogue: boolean
+): Promise<RulePreset> {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('El preset necesita un nombre');
+    if ((await listPresets()).some((p) => p.name.toLowerCase() === trimmed.toLowerCase())) {
+        throw new Error(`Ya existe un preset llamado "${trimmed}"`);
+    }
+
+    const profileDir = await getProfileDir(profileId);
+    const config = JSON.parse(await readTextFile(await join(profileDir, 'config.json'))) as AppConfig;
+    let data: Pokemon[] | undefined;
+    if (includeCatalogue) {
+        data = JSON.parse(await readTextFile(await join(profileDir, config.dataFile || DEFAULT_CONFIG.dataFile)));
+        const dataErrors = validatePokemonData(data, config.regionsOrder ?? []).filter((i) => i.severity !== 'warning');
+        if (dataErrors.length) throw new Error(`El catálogo del perfil tiene ${dataErrors.length} error(es)`);
+    }
+    const errors = validateConfig(config, data ?? null).filter((i) => i.severity !== 'warning');
+    if (errors.length) throw new Error(`config.json del perfil tiene ${errors.length} error(es)`);
+
+    const dir = await getPresetsDir();
+    await mkdir(dir, { recursive: true });
+    const fileName = presetFileName(trimmed);
+    const path = await join(dir, fileName);
+    if (await exists(path)) throw new Error(`Ya existe el archivo de preset ${fileName}`);
+    await writeTextFile(path, JSON.stringify({ name: trimmed, description, config, data }, null, 2));
+
+    return { id: `user:${fileName}`, name: trimmed, description, config, data };
+}
+
+// Borra un preset guardado por el usuario (los de serie no se pueden borrar)
+export async function deletePreset(presetId: string): Promise<void> {
+    if (!presetId.startsWith('user:')) throw new Error('Los presets de serie no se pueden borrar');
+    const path = await join(await getPresetsDir(), presetId.slice('user:'.length));
+    if (await exists(path)) await remove(path);
+}
@@ -0,0 +1,67 @@
+import type { AppConfig, PurchaseItem, ShopPokemon } from '../types';
+import { regionPriceMultiplier } from './storeLogic';
+
+// Estado de la partida del que depende el precio
+export interface PriceContext {
+    region: string; // región activa
+    visitedRegions: string[]; // regiones distintas visitadas
+    purchases: PurchaseItem[]; // compras realizadas
+}
+
+// Desglose del precio de un slot (factores multiplicativos sobre el precio base)
+export interface PriceBreakdown {
+    base: number; // precio del catálogo
+    regionMultiplier: number; // regionOverrides[región].priceMultiplier
+    inflation: number; // por regiones visitadas y compras
+    saturation: number; // descuento por compras del mismo tier (0.9 = -10 %)
+    variance: number; // variación aleatoria del slot
+    final: number; // precio mostrado y cobrado
+}
+
+const DEFAULT_MAX_SATURATION = 50;
+
+// Porcentaje de la config como número >= 0 (valores inválidos = 0)
+const percent = (value: number | undefined) => Math.max(0, Number(value) || 0) / 100;
+
+/**
+ * Calcula el precio de un slot a partir de su precio base y las reglas de `config.pricing`:
+ * multiplicador de la región, inflación por región visitada y por compra,
+ * descuento por saturación del tier y la variación tirada al generar el slot.
+ * Sin `pricing` ni multiplicador de región el resultado es el precio del catálogo.
+ */
+export function computePrice(pokemon: ShopPokemon, config: AppConfig, ctx: PriceContext): PriceBreakdown {
+    const base = pokemon.id === -1 ? 0 : pokemon.precio;
+    const rules = config.pricing ?? {};
+
+    const regionMultiplier = regionPriceMultiplier(config, ctx.region);
+
+    const extraRegions = Math.max(0, ctx.visitedRegions.length - 1);
+    const inflation =
+        Math.pow(1 + percent(rules.inflationPerRegion), extraRegions) *
+        Math.pow(1 + percent(rules.inflationPerPurchase), ctx.purchases.length);
+
+    const tier = String(pokemon.tier).toUpperCase();
+    // Los vendidos no saturan el tier (la inflación sí cuenta todas las compras)
+    const sameTier = ctx.purchases.filter((p) => !p.soldAt && String(p.tier).toUpperCase() === tier).length;
+    const maxDiscount = Math.min(1, percent(rules.maxSaturationDiscount ?? DEFAULT_MAX_SATURATION));
+    const saturation = 1 - Math.min(maxDiscount, sameTier * percent(rules.saturationDiscount));
+
+    const variance = pokemon.__priceVariance ?? 1;
+
+    const rounding = Number(rules.rounding) > 0 ? Number(rules.rounding) : 1;
+    const raw = base * regionMultiplier * inflation * saturation * variance;
+    const final = Math.max(0, Math.round(raw / rounding) * rounding);
+
+    return { base, regionMultiplier, inflation, saturation, variance, final };
+}
+
+// Texto corto con los factores que cambian el precio (para tooltips)
+export function describePrice(breakdown: PriceBreakdown): string {
+    const pct = (factor: number) => `${factor >= 1 ? '+' : ''}${Math.round((factor - 1) * 100)}%`;
+    const parts = [`Base ${breakdown.base}$`];
+    if (breakdown.regionMultiplier !== 1) parts.push(`región ×${breakdown.regionMultiplier}`);
+    if (breakdown.inflation !== 1) parts.push(`inflación ${pct(breakdown.inflation)}`);
+    if (breakdown.saturation !== 1) parts.push(`saturación ${pct(breakdown.saturation)}`);
+    if (breakdown.variance !== 1) parts.push(`variación ${pct(breakdown.variance)}`);
+    return parts.join(' · ');
+}
@@ -0,0 +1,254 @@
+import { DEFAULT_CONFIG } from './config';
+import { validateConfig } from './configValidation';
+import { createProfile, deleteProfile, getProfileDir, getProfiles } from './profileManager';
+import { parseSaveData, SAVE_VERSION, SaveDataError } from './saveSchema';
+import {
+    appConfigDir,
+    downloadTextFile,
+    exists,
+    getStorage,
+    join,
+    mkdir,
+    readDir,
+    readFile,
+    readTextFile,
+    writeFile,
+    writeTextFile,
+} from './storage';
+
+// Perfil exportado como un único JSON: archivos de texto tal cual y sprites en base64.
+// Se importa siempre como perfil nuevo (id nuevo y nombre libre), nunca encima de uno existente.
+
+export const PROFILE_ARCHIVE_FORMAT = 'pokemon-shop-profile';
+export const PROFILE_ARCHIVE_VERSION = 1;
+export const PROFILE_ARCHIVE_EXTENSION = '.pshop.json';
+
+const EXPORTS_DIR = 'exports';
+const SPRITES_DIR = 'sprites';
+// Archivos de texto opcionales del perfil que viajan con él (además de config.json y el dataFile)
+const EXTRA_FILES = ['save.sav', 'run.log', 'history-archive.jsonl'];
+const SPRITE_NAME = /^[\w-]+\.(png|gif|webp|jpe?g)$/i;
+const MAX_PROFILE_NAME_LENGTH = 60;
+
+export interface ProfileArchive {
+    format: typeof PROFILE_ARCHIVE_FORMAT;
+    version: number; // versión del formato del archivo
+    saveVersion: number; // versión de save.sav de la app que lo exportó
+    exportedAt: string;
+    profile: { name: string; created: string };
+    files: Record<string, string>; // nombre -> contenido de texto
+    sprites: Record<string, string>; // nombre -> contenido en base64
+}
+
+export interface ProfileImportResult {
+    profileId: string;
+    name: string;
+    warnings: string[];
+}
+
+export class ProfileArchiveError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProfileArchiveError';
+    }
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const CHUNK = 0x8000;
+    for (let i = 0; i < bytes.length; i += CHUNK) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+    }
+    return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+// Solo nombres de archivo simples: nada de rutas ni ".." dentro del archivo importado
+function isPlainFileName(name: string): boolean {
+    return /^[\w.-]+$/.test(name) && !name.startsWith('.');
+}
+
+// Nombre de perfil limpio (sin caracteres de control, recortado) y que no choque con los existentes
+export function uniqueProfileName(name: string, taken: string[]): string {
+    const base = name.replace(/[\u0000-\u001f]/g, '').trim().slice(0, MAX_PROFILE_NAME_LENGTH) || 'Perfil importado';
+    // También se comparan los nombres de carpeta, que ignoran los caracteres no válidos
+    const folder = (n: string) => n.replace(/[<>:"/\\|?*]/g, '_').trim().toLowerCase();
+    const used = new Set(taken.map(folder));
+    if (!used.has(folder(base))) return base;
+    for (let i = 2; ; i++) {
+        const candidate = `${base} (${i})`;
+        if (!used.has(folder(candidate))) return candidate;
+    }
+}
+
+/**
+ * Empaqueta un perfil (config.json, dataFile, save.sav, run.log, historial archivado y sprites/)
+ * en un archivo .pshop.json dentro de <appConfigDir>/exports y devuelve la ruta creada.
+ * En web el archivo se descarga y devuelve null.
+ */
+export async function exportProfileArchive(profileId: string): Promise<string | null> {
+    const { profiles } = await getProfiles();
+    const profile = profiles.find((p) => p.id === profileId);
+    if (!profile) throw new ProfileArchiveError(`No existe el perfil ${profileId}`);
+    const dir = await getProfileDir(profileId);
+
+    const files: Record<string, string> = {};
+    const configPath = await join(dir, 'config.json');
+    let dataFile = DEFAULT_CONFIG.dataFile;
+    if (await exists(configPath)) {
+        files['config.json'] = await readTextFile(configPath);
+        try {
+            dataFile = JSON.parse(files['config.json']).dataFile || dataFile;
+        } catch {
+            // config.json ilegible: se exporta igualmente con el dataFile por defecto
+        }
+    }
+    for (const name of [dataFile, ...EXTRA_FILES]) {
+        const path = await join(dir, name);
+        if (isPlainFileName(name) && (await exists(path))) files[name] = await readTextFile(path);
+    }
+
+    const sprites: Record<string, string> = {};
+    const spritesDir = await join(dir, SPRITES_DIR);
+    if (await exists(spritesDir)) {
+        for (const entry of await readDir(spritesDir)) {
+            if (entry.isFile && SPRITE_NAME.test(entry.name)) {
+                sprites[entry.name] = toBase64(await readFile(await join(spritesDir, entry.name)));
+            }
+        }
+    }
+
+    const archive: ProfileArchive = {
+        format: PROFILE_ARCHIVE_FORMAT,
+        version: PROFILE_ARCHIVE_VERSION,
+        saveVersion: SAVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        profile: { name: profile.name, created: profile.created },
+        files,
+        sprites,
+    };
+
+    const stamp = archive.exportedAt.replace(/[:.]/g, '-');
+    const safeName = profile.name.replace(/[<>:"/\\|?*\s]/g, '_');
+    const fileName = `${safeName}-${stamp}${PROFILE_ARCHIVE_EXTENSION}`;
+    if (getStorage().kind !== 'tauri') {
+        downloadTextFile(fileName, JSON.stringify(archive), 'application/json');
+        console.log(`[ProfileArchive] Downloaded profile ${profile.name} as: ${fileName}`);
+        return null;
+    }
+
+    const exportsDir = await join(await appConfigDir(), EXPORTS_DIR);
+    await mkdir(exportsDir, { recursive: true });
+    const path = await join(exportsDir, fileName);
+    await writeTextFile(path, JSON.stringify(archive));
+    console.log(`[ProfileArchive] Exported profile ${profile.name} (${Object.keys(sprites).length} sprites) to: ${path}`);
+    return path;
+}
+
+// Comprueba el formato y las versiones del archivo. Devuelve el archivo tipado o lanza ProfileArchiveError
+export function parseProfileArchive(content: string): ProfileArchive {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(content);
+    } catch {
+        throw new ProfileArchiveError('El archivo no es JSON válido');
+    }
+    const archive = raw as Partial<ProfileArchive> | null;
+    if (!archive || typeof archive !== 'object' || archive.format !== PROFILE_ARCHIVE_FORMAT) {
+        throw new ProfileArchiveError('El archivo no es un perfil exportado');
+    }
+    if (typeof archive.version !== 'number' || archive.version > PROFILE_ARCHIVE_VERSION) {
+        throw new ProfileArchiveError('El perfil se exportó con una versión más nueva de la app');
+    }
+    if (typeof archive.saveVersion === 'number' && archive.saveVersion > SAVE_VERSION) {
+        throw new ProfileArchiveError(
+            `La partida del perfil es de una versión más nueva (v${archive.saveVersion}, esta app usa v${SAVE_VERSION})`
+        );
+    }
+    if (!archive.files || typeof archive.files !== 'object' || !archive.sprites || typeof archive.sprites !== 'object') {
+        throw new ProfileArchiveError('Al archivo le faltan los archivos del perfil');
+    }
+    return archive as ProfileArchive;
+}
+
+/**
+ * Crea un perfil nuevo a partir de un archivo exportado.
+ * Siempre recibe un id nuevo; si el nombre ya existe se le añade " (2)", " (3)"…
+ * save.sav se valida (y migra) antes de escribirlo. Si algo falla, el perfil a medio crear se borra.
+ */
+export async function importProfileArchive(content: string): Promise<ProfileImportResult> {
+    const archive = parseProfileArchive(content);
+    const warnings: string[] = [];
+
+    let dataFile = DEFAULT_CONFIG.dataFile;
+    if (typeof archive.files['config.json'] === 'string') {
+        let cfg: { dataFile?: unknown };
+        try {
+            cfg = JSON.parse(archive.files['config.json']);
+        } catch {
+            throw new ProfileArchiveError('config.json del perfil no es JSON válido');
+        }
+        const errors = validateConfig(cfg, null).filter((issue) => issue.severity !== 'warning');
+        if (errors.length) warnings.push(`config.json tiene ${errors.length} error(es); revísalo al cambiar a este perfil`);
+        if (typeof cfg.dataFile === 'string' && isPlainFileName(cfg.dataFile)) dataFile = cfg.dataFile;
+    }
+
+    // Solo se escriben los archivos que forman un perfil
+    const allowed = new Set(['config.json', dataFile, ...EXTRA_FILES]);
+    const files: Record<string, string> = {};
+    for (const [name, text] of Object.entries(archive.files)) {
+        if (!allowed.has(name) || typeof text !== 'string') {
+            warnings.push(`Se ha omitido el archivo ${JSON.stringify(name)}`);
+            continue;
+        }
+        files[name] = text;
+    }
+
+    const name = uniqueProfileName(archive.profile?.name ?? '', (await getProfiles()).profiles.map((p) => p.name));
+    const profileId = await createProfile(name);
+
+    try {
+        if (files['save.sav'] !== undefined) {
+            try {
+                const save = parseSaveData(files['save.sav']);
+                files['save.sav'] = JSON.stringify({ ...save, profileId }, null, 2);
+            } catch (err) {
+                if (!(err instanceof SaveDataError)) throw err;
+                delete files['save.sav'];
+                warnings.push(`La partida no se ha importado: ${err.message}`);
+            }
+        }
+
+        const dir = await getProfileDir(profileId);
+        for (const [fileName, text] of Object.entries(files)) {
+            await writeTextFile(await join(dir, fileName), text);
+        }
+
+        const spritesDir = await join(dir, SPRITES_DIR);
+        await mkdir(spritesDir, { recursive: true });
+        for (const [spriteName, data] of Object.entries(archive.sprites)) {
+            if (!SPRITE_NAME.test(spriteName) || typeof data !== 'string') {
+                warnings.push(`Se ha omitido el sprite ${JSON.stringify(spriteName)}`);
+                continue;
+            }
+            try {
+                await writeFile(await join(spritesDir, spriteName), fromBase64(data));
+            } catch {
+                warnings.push(`No se pudo importar el sprite ${spriteName}`);
+            }
+        }
+    } catch (err) {
+        console.error(`[ProfileArchive] Import failed, removing profile ${name}:`, err);
+        await deleteProfile(profileId).catch(() => {});
+        throw err;
+    }
+
+    console.log(`[ProfileArchive] Imported profile ${name} (${profileId}) with ${warnings.length} warning(s)`);
+    return { profileId, name, warnings };
+}
@@ -1,15 +1,17 @@
-import { appConfigDir, join } from '@tauri-apps/api/path';
+import type { RulePreset } from '../types';
+import { DEFAULT_CONFIG, DEFAULT_POKEMON } from './config';
 import {
+    appConfigDir,
     copyFile,
     exists,
+    join,
     mkdir,
     readDir,
     readTextFile,
     remove,
     rename,
     writeTextFile,
-} from '@tauri-apps/plugin-fs';
-import { DEFAULT_CONFIG, DEFAULT_POKEMON } from './config';
+} from './storage';
 
 export interface Profile {
     id: string;
@@ -80,7 +82,6 @@ export async function getProfileDir(profileId: string): Promise<string> {
 
     // First, try to find the actual folder by scanning for save files with matching profile ID
     try {
-        const { readDir } = await import('@tauri-apps/plugin-fs');
         const entries = await readDir(profilesDir);
 
         for (const entry of entries) {
@@ -534,8 +535,8 @@ export async function setCurrentProfile(profileId: string): Promise<void> {
     await saveProfileMetadata(metadata);
 }
 
-export async function createProfile(name: string, copyFromProfile?: string): Promise<string> {
-    console.log(`[ProfileManager] createProfile called with name: "${name}", copyFrom: ${copyFromProfile || 'none'}`);
+export async function createProfile(name: string, copyFromProfile?: string, preset?: RulePreset): Promise<string> {
+    console.log(`[ProfileManager] createProfile called with name: "${name}", copyFrom: ${copyFromProfile || 'none'}, preset: ${preset?.id || 'none'}`);
     const metadata = await getProfiles();
 
     if (metadata.profiles.some(p => p.name === name)) {
@@ -572,8 +573,8 @@ export async function createProfile(name: string, copyFromProfile?: string): Pro
             await createDefaultProfileFiles(profileDir);
         }
     } else {
-        // User wants to create an empty profile - just create default files
-        await createDefaultProfileFiles(profileDir);
+        // User wants to create an empty profile - default files, or the rules of the chosen preset
+        await createDefaultProfileFiles(profileDir, preset);
     }
 
     const newProfile: Profile = {
@@ -797,13 +798,14 @@ async function copyProfileFilesWithSave(sourceDir: string, targetDir: string): P
     }
 }
 
-async function createDefaultProfileFiles(profileDir: string): Promise<void> {
+async function createDefaultProfileFiles(profileDir: string, preset?: RulePreset): Promise<void> {
+    const config = preset?.config ?? DEFAULT_CONFIG;
     const configPath = await join(profileDir, 'config.json');
-    const pokemonPath = await join(profileDir, 'pokemon.json');
+    const pokemonPath = await join(profileDir, config.dataFile || DEFAULT_CONFIG.dataFile);
     const spritesDir = await join(profileDir, 'sprites');
 
-    await writeTextFile(configPath, JSON.stringify(DEFAULT_CONFIG, null, 2));
-    await writeTextFile(pokemonPath, JSON.stringify(DEFAULT_POKEMON, null, 2));
+    await writeTextFile(configPath, JSON.stringify(config, null, 2));
+    await writeTextFile(pokemonPath, JSON.stringify(preset?.data ?? DEFAULT_POKEMON, null, 2));
 
     await mkdir(spritesDir, { recursive: true });
 
@@ -1,6 +1,42 @@
-export function shuffleInPlace<T>(arr: T[]): T[] {
+// Generador de números aleatorios: devuelve valores en [0, 1) como Math.random
+export type Rng = () => number;
+
+// PRNG determinista (mulberry32) a partir de una semilla de 32 bits
+export function createRng(seed: number): Rng {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Hash FNV-1a de 32 bits sobre una lista de partes (texto o números)
+function hashParts(parts: (string | number)[]): number {
+    let hash = 0x811c9dc5;
+    const text = parts.map(String).join('|');
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// Deriva una sub-semilla estable (p. ej. por región, refresh o reroll) de la semilla de la partida
+export function deriveSeed(seed: number, ...parts: (string | number)[]): number {
+    return hashParts([seed >>> 0, ...parts]);
+}
+
+// Genera una semilla nueva para una partida
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+export function shuffleInPlace<T>(arr: T[], rng: Rng = Math.random): T[] {
     for (let i = arr.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
+        const j = Math.floor(rng() * (i + 1));
         [arr[i], arr[j]] = [arr[j], arr[i]];
     }
     return arr;
@@ -10,14 +46,11 @@ export function sampleWithoutReplacement<T>(
     pool: T[],
     count: number,
     isEqual?: (a: T, b: T) => boolean,
-    exclude: T[] = []
+    exclude: T[] = [],
+    rng: Rng = Math.random
 ): T[] {
     const out: T[] = [];
-    const copy = pool.slice();
-    for (let i = copy.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [copy[i], copy[j]] = [copy[j], copy[i]];
-    }
+    const copy = shuffleInPlace(pool.slice(), rng);
     const eq = isEqual ?? ((a, b) => a === b);
     for (const item of copy) {
         if (out.length >= count) break;
@@ -27,3 +60,43 @@ export function sampleWithoutReplacement<T>(
     }
     return out;
 }
+
+// Como sampleWithoutReplacement, pero cada elemento sale con probabilidad proporcional a su peso (> 0).
+// Ordena por la clave u^(1/peso) (Efraimidis-Spirakis) y se queda con las mayores.
+// Si todos pesan lo mismo usa sampleWithoutReplacement: misma semilla, misma tienda que sin pesos.
+export function weightedSampleWithoutReplacement<T>(
+    pool: T[],
+    count: number,
+    weightOf: (item: T) => number,
+    isEqual?: (a: T, b: T) => boolean,
+    exclude: T[] = [],
+    rng: Rng = Math.random
+): T[] {
+    const weights = pool.map(weightOf);
+    if (weights.every((w) => w === weights[0])) return sampleWithoutReplacement(pool, count, isEqual, exclude, rng);
+
+    const keyed = pool.map((item, i) => ({ item, key: Math.pow(rng(), 1 / weights[i]) }));
+    keyed.sort((a, b) => b.key - a.key);
+    const out: T[] = [];
+    const eq = isEqual ?? ((a, b) => a === b);
+    for (const { item } of keyed) {
+        if (out.length >= count) break;
+        const inExclude = exclude.some((x) => eq(x, item));
+        const inOut = out.some((x) => eq(x, item));
+        if (!inExclude && !inOut) out.push(item);
+    }
+    return out;
+}
+
+// Elige un elemento con probabilidad proporcional a su peso (> 0); uniforme si todos pesan lo mismo
+export function pickWeighted<T>(items: T[], weightOf: (item: T) => number, rng: Rng = Math.random): T {
+    const weights = items.map(weightOf);
+    if (weights.every((w) => w === weights[0])) return items[Math.floor(rng() * items.length)];
+
+    let roll = rng() * weights.reduce((sum, w) => sum + w, 0);
+    for (let i = 0; i < items.length; i++) {
+        roll -= weights[i];
+        if (roll < 0) return items[i];
+    }
+    return items[items.length - 1];
+}
@@ -0,0 +1,239 @@
+import type { AppConfig, HistoryEvent, HistoryEventType, Pokemon, RunAction, RunLogEntry, UndoableState } from '../types';
+import {
+    applyBuy,
+    applyCancelReservation,
+    applyCompleteReservation,
+    applyLock,
+    applyMoney,
+    applyRefresh,
+    applyRegion,
+    applyReroll,
+    applyReserve,
+    applySell,
+    undoMessage,
+    type RunContext,
+    type RunStep,
+} from './runActions';
+import { diffState, isEmptyPatch, undoDepthOf } from './undoJournal';
+
+// Estado de la partida tras cada acción del log
+export interface ReplayStep {
+    ts: string;
+    action: RunAction;
+    type: HistoryEventType;
+    message: string;
+    notices?: RunStep['notices']; // eventos extra del historial (reservas caducadas)
+    state: UndoableState;
+    divergence?: string; // el resultado no coincide con lo registrado (o la acción no se pudo aplicar)
+}
+
+export interface ReplayResult {
+    runSeed: number;
+    initial: UndoableState;
+    resumed: boolean; // la partida empezó antes de que existiera el log
+    steps: ReplayStep[];
+    firstDivergence: number | null; // índice del primer paso que no coincide
+}
+
+export class ReplayError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReplayError';
+    }
+}
+
+// Tipo de evento del historial para las acciones que no se pudieron repetir
+const EVENT_TYPES: Record<Exclude<RunAction['type'], 'start' | 'undo' | 'redo'>, HistoryEventType> = {
+    region: 'refresh',
+    refresh: 'refresh',
+    money: 'money:add',
+    buy: 'buy',
+    sell: 'sell',
+    reroll: 'reroll',
+    lock: 'lock',
+    reserve: 'reserve',
+    'reserve:complete': 'reserve:complete',
+    'reserve:cancel': 'reserve:cancel',
+};
+
+const sameIds = (a: number[], b: number[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+// Compara el resultado recalculado con el registrado. Devuelve la diferencia o undefined
+function compareOutcome(recorded: RunAction, replayed: RunAction): string | undefined {
+    if (recorded.type !== replayed.type) return `se esperaba ${recorded.type} y se obtuvo ${replayed.type}`;
+    switch (recorded.type) {
+        case 'region':
+        case 'refresh': {
+            const got = replayed as typeof recorded;
+            if (recorded.rngNonce !== got.rngNonce) return `nonce ${got.rngNonce}, registrado ${recorded.rngNonce}`;
+            if (!sameIds(recorded.shopIds, got.shopIds)) return 'la tienda generada es distinta';
+            return undefined;
+        }
+        case 'buy': {
+            const got = replayed as typeof recorded;
+            if (recorded.pokemonId !== got.pokemonId) return `se compra #${got.pokemonId}, registrado #${recorded.pokemonId}`;
+            if (recorded.price !== got.price) return `precio ${got.price}, registrado ${recorded.price}`;
+            if (recorded.autofillId !== got.autofillId) return 'el autorrelleno es distinto';
+            return undefined;
+        }
+        case 'sell': {
+            const got = replayed as typeof recorded;
+            return recorded.refund !== got.refund ? `devolución ${got.refund}, registrada ${recorded.refund}` : undefined;
+        }
+        case 'reroll': {
+            const got = replayed as typeof recorded;
+            if (recorded.toId !== got.toId) return `sale #${got.toId}, registrado #${recorded.toId}`;
+            if ((recorded.cost ?? 0) !== (got.cost ?? 0)) return `cuesta ${got.cost ?? 0}, registrado ${recorded.cost ?? 0}`;
+            return undefined;
+        }
+        case 'lock': {
+            const got = replayed as typeof recorded;
+            return recorded.locked !== got.locked ? `el slot ${recorded.index} ${got.locked ? 'se bloquea' : 'se desbloquea'}` : undefined;
+        }
+        case 'reserve': {
+            const got = replayed as typeof recorded;
+            if (recorded.pokemonId !== got.pokemonId) return `se reserva #${got.pokemonId}, registrado #${recorded.pokemonId}`;
+            if (recorded.deposit !== got.deposit) return `depósito ${got.deposit}, registrado ${recorded.deposit}`;
+            return undefined;
+        }
+        case 'reserve:complete': {
+            const got = replayed as typeof recorded;
+            if (recorded.paid !== got.paid) return `se paga ${got.paid}, registrado ${recorded.paid}`;
+            return recorded.autofillId !== got.autofillId ? 'el autorrelleno es distinto' : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Repite una partida a partir de su log con la config y los datos indicados.
+ * Empieza en la última acción "start" y recalcula cada acción con las mismas funciones que la tienda
+ * (runActions.ts), comprobando que el resultado coincide con el registrado.
+ * Si la config o el catálogo cambiaron durante la partida, los pasos afectados se marcan como divergentes.
+ */
+export function replayRun(entries: RunLogEntry[], base: { cfg: AppConfig; data: Pokemon[]; regions: string[] }): ReplayResult {
+    let startIndex = -1;
+    entries.forEach((entry, i) => {
+        if (entry.action.type === 'start') startIndex = i;
+    });
+    if (startIndex < 0) throw new ReplayError('El log no tiene acción de inicio de partida');
+    const start = entries[startIndex].action as Extract<RunAction, { type: 'start' }>;
+
+    const ctx: RunContext = { ...base, runSeed: start.runSeed };
+    const steps: ReplayStep[] = [];
+    // Los logs anteriores a las reservas y a las políticas de reroll no tienen esos campos en el estado inicial
+    const initial: UndoableState = {
+        ...start.state,
+        reservations: start.state.reservations ?? [],
+        rerollsUsedBy: start.state.rerollsUsedBy ?? {},
+    };
+    let state = initial;
+    // Pilas propias de deshacer/rehacer: estado anterior y etiqueta de cada acción.
+    // Como en la tienda, solo se pueden deshacer las últimas undoDepth acciones
+    const undone: { state: UndoableState; label: string }[] = [];
+    let redo: { state: UndoableState; label: string }[] = [];
+    const undoDepth = undoDepthOf(ctx.cfg.undoDepth);
+    const pushUndone = (entry: { state: UndoableState; label: string }) => {
+        undone.push(entry);
+        if (undone.length > undoDepth) undone.splice(0, undone.length - undoDepth);
+    };
+    let firstDivergence: number | null = null;
+
+    for (const entry of entries.slice(startIndex + 1)) {
+        const action = entry.action;
+        let step: RunStep | null = null;
+        let divergence: string | undefined;
+
+        switch (action.type) {
+            case 'region':
+                step = applyRegion(state, ctx, action.regionIndex, action.shopIndex);
+                break;
+            case 'refresh':
+                step = applyRefresh(state, ctx);
+                break;
+            case 'money':
+                step = applyMoney(state, action.amount);
+                break;
+            case 'buy':
+                step = applyBuy(state, ctx, action.index, { purchaseId: action.purchaseId, ts: entry.ts });
+                break;
+            case 'sell':
+                step = applySell(state, ctx, action.purchaseId, entry.ts);
+                break;
+            case 'reroll':
+                step = applyReroll(state, ctx, action.index);
+                break;
+            case 'lock':
+                step = applyLock(state, ctx, action.index);
+                break;
+            case 'reserve':
+                step = applyReserve(state, ctx, action.index, { reservationId: action.reservationId, ts: entry.ts });
+                break;
+            case 'reserve:complete':
+                step = applyCompleteReservation(state, ctx, action.reservationId, { purchaseId: action.purchaseId, ts: entry.ts });
+                break;
+            case 'reserve:cancel':
+                step = applyCancelReservation(state, action.reservationId);
+                break;
+            case 'undo': {
+                const batch = undone.splice(Math.max(0, undone.length - action.count));
+                if (batch.length !== action.count) divergence = 'no hay tantas acciones que deshacer';
+                // Lo deshecho se puede rehacer empezando por lo último que se deshizo
+                for (let i = batch.length - 1; i >= 0; i--) {
+                    redo.unshift({ state, label: batch[i].label });
+                    state = batch[i].state;
+                }
+                const message = batch.length ? undoMessage(batch[0].label, batch.length) : 'Nada que deshacer';
+                steps.push({ ts: entry.ts, action, type: 'undo', message, state, divergence });
+                break;
+            }
+            case 'redo': {
+                const next = redo.shift();
+                if (next) {
+                    pushUndone({ state, label: next.label });
+                    state = next.state;
+                } else {
+                    divergence = 'no hay nada que rehacer';
+                }
+                steps.push({ ts: entry.ts, action, type: 'redo', message: `Rehecho: ${next?.label ?? '—'}`, state, divergence });
+                break;
+            }
+            case 'start':
+                continue; // solo la última acción "start" cuenta
+        }
+
+        if (action.type !== 'undo' && action.type !== 'redo') {
+            if (!step) {
+                divergence = 'la acción no se pudo aplicar';
+                steps.push({ ts: entry.ts, action, type: EVENT_TYPES[action.type], message: `No se pudo repetir: ${action.type}`, state, divergence });
+            } else {
+                divergence = compareOutcome(action, step.action);
+                // Como la tienda (recordUndo), una acción que no cambia nada no entra en el diario
+                if (!isEmptyPatch(diffState(state, step.state))) {
+                    pushUndone({ state, label: step.message });
+                    redo = [];
+                }
+                state = step.state;
+                steps.push({ ts: entry.ts, action, type: step.type, message: step.message, notices: step.notices, state, divergence });
+            }
+        }
+        if (divergence && firstDivergence === null) firstDivergence = steps.length - 1;
+    }
+
+    return { runSeed: start.runSeed, initial, resumed: !!start.resumed, steps, firstDivergence };
+}
+
+// Historial reconstruido a partir de una repetición (más reciente primero, como en la tienda)
+export function historyFromReplay(result: ReplayResult, regions: string[]): HistoryEvent[] {
+    return result.steps
+        .flatMap((step) => {
+            const region = regions[step.state.currentRegionIndex];
+            const event = { ts: step.ts, region, money: step.state.money };
+            return [
+                { ...event, id: crypto.randomUUID(), type: step.type, message: step.message, meta: step.action },
+                ...(step.notices ?? []).map((notice) => ({ ...event, ...notice, id: crypto.randomUUID() })),
+            ];
+        })
+        .reverse();
+}
@@ -0,0 +1,99 @@
+import type { AppConfig, RerollPolicy, ShopPokemon, Tier, UndoableState } from '../types';
+import { requestedTierOf, resolveRegionConfig } from './storeLogic';
+import { tierKey } from './tiers';
+
+// Presupuesto de rerolls según config.rerollPolicy (ver RerollPolicy en types.ts).
+// La tienda, la repetición de partidas y la interfaz preguntan aquí si un slot se puede rerollear y cuánto cuesta.
+
+export const DEFAULT_REROLL_COST = 100;
+export const DEFAULT_REROLL_COST_INCREASE = 50;
+
+export const REROLL_POLICIES: { id: RerollPolicy; label: string }[] = [
+    { id: 'global', label: 'Globales (un contador para toda la partida)' },
+    { id: 'region', label: 'Por región' },
+    { id: 'tier', label: 'Por tier' },
+    { id: 'slot', label: 'Por slot' },
+    { id: 'paid', label: 'De pago (precio creciente)' },
+];
+
+// Contadores de reroll que usa cada política
+type RerollCounters = Pick<UndoableState, 'rerollsUsedGlobal' | 'rerollsUsedBy'>;
+
+// Presupuesto de reroll de un slot (o de un tier/región en la barra superior)
+export interface RerollBudget {
+    policy: RerollPolicy;
+    key: string | null; // clave en rerollsUsedBy ('region:Kanto', 'tier:S'); null = rerollsUsedGlobal o el slot
+    used: number; // rerolls ya gastados en este presupuesto
+    max: number | null; // null = sin límite (política 'paid')
+    cost: number; // dinero que cuesta el próximo reroll (0 = gratis)
+}
+
+export function rerollPolicyOf(cfg: AppConfig): RerollPolicy {
+    return REROLL_POLICIES.some((p) => p.id === cfg.rerollPolicy) ? (cfg.rerollPolicy as RerollPolicy) : 'global';
+}
+
+// Rerolls por slot (rerollsPerSlot, por defecto 1)
+export function rerollsPerSlotOf(cfg: AppConfig): number {
+    const n = cfg.rerollsPerSlot;
+    return typeof n === 'number' && Number.isInteger(n) && n >= 0 ? n : 1;
+}
+
+// Precio del reroll número `used + 1`: rerollCost subiendo rerollCostIncrease % por cada reroll anterior
+export function rerollCostOf(cfg: AppConfig, used: number): number {
+    const base = Math.max(0, cfg.rerollCost ?? DEFAULT_REROLL_COST);
+    const increase = Math.max(0, cfg.rerollCostIncrease ?? DEFAULT_REROLL_COST_INCREASE);
+    return Math.round(base * Math.pow(1 + increase / 100, used));
+}
+
+// Rerolls de un tier en la política 'tier' (rerollTierBudgets sin distinguir mayúsculas, o rerollsPerRegion)
+function tierBudgetOf(cfg: AppConfig, region: string, tier: Tier): number {
+    const key = tierKey(tier);
+    const entry = Object.entries(cfg.rerollTierBudgets ?? {}).find(([t]) => tierKey(t) === key);
+    return entry ? entry[1] : resolveRegionConfig(cfg, region).rerollsPerRegion;
+}
+
+// Presupuesto de un tier concreto (política 'tier')
+export function tierRerollBudget(s: RerollCounters, cfg: AppConfig, region: string, tier: Tier): RerollBudget {
+    const key = `tier:${tierKey(tier)}`;
+    return { policy: 'tier', key, used: s.rerollsUsedBy[key] ?? 0, max: tierBudgetOf(cfg, region, tier), cost: 0 };
+}
+
+// Presupuesto que gasta rerollear `slot` en `region`. Sin slot, el de la política 'slot' es el de un slot nuevo
+export function rerollBudgetOf(s: RerollCounters, cfg: AppConfig, region: string, slot?: ShopPokemon): RerollBudget {
+    const policy = rerollPolicyOf(cfg);
+    switch (policy) {
+        case 'region': {
+            const key = `region:${region}`;
+            const max = resolveRegionConfig(cfg, region).rerollsPerRegion;
+            return { policy, key, used: s.rerollsUsedBy[key] ?? 0, max, cost: 0 };
+        }
+        case 'tier':
+            return tierRerollBudget(s, cfg, region, slot ? requestedTierOf(slot) : '');
+        case 'slot':
+            return { policy, key: null, used: slot?.__rerolls ?? 0, max: rerollsPerSlotOf(cfg), cost: 0 };
+        case 'paid':
+            return { policy, key: null, used: s.rerollsUsedGlobal, max: null, cost: rerollCostOf(cfg, s.rerollsUsedGlobal) };
+        default:
+            return { policy, key: null, used: s.rerollsUsedGlobal, max: resolveRegionConfig(cfg, region).rerollsPerRegion, cost: 0 };
+    }
+}
+
+// Rerolls que quedan en el presupuesto (Infinity = sin límite)
+export function rerollsLeft(budget: RerollBudget): number {
+    return budget.max === null ? Infinity : Math.max(0, budget.max - budget.used);
+}
+
+// Si queda presupuesto y dinero para el próximo reroll
+export function canSpendReroll(budget: RerollBudget, money: number): boolean {
+    return rerollsLeft(budget) > 0 && money >= budget.cost;
+}
+
+// Contadores tras gastar un reroll del presupuesto (el de la política 'slot' va en el propio slot)
+export function spendReroll(s: RerollCounters, budget: RerollBudget): RerollCounters {
+    if (budget.policy === 'slot') return s;
+    if (budget.key === null) return { ...s, rerollsUsedGlobal: s.rerollsUsedGlobal + 1 };
+    return { ...s, rerollsUsedBy: { ...s.rerollsUsedBy, [budget.key]: budget.used + 1 } };
+}
+
+// Contadores a cero (recarga por regiones nuevas o al actualizar)
+export const RECHARGED_REROLLS: RerollCounters = { rerollsUsedGlobal: 0, rerollsUsedBy: {} };
@@ -0,0 +1,649 @@
+import type {
+    AppConfig,
+    HistoryEventType,
+    Pokemon,
+    PurchaseItem,
+    Reservation,
+    RunAction,
+    ShopPokemon,
+    UndoableState,
+} from '../types';
+import { computePrice } from './pricing';
+import { createRng, deriveSeed, type Rng } from './random';
+import { canSpendReroll, RECHARGED_REROLLS, rerollBudgetOf, spendReroll } from './rerollPolicy';
+import { buildShopForRegion, findRerollCandidate, purchasedIdsOf, requestedTierOf, resolveRegionConfig } from './storeLogic';
+import { tierKey } from './tiers';
+
+// Acciones de la partida como funciones puras: reciben el estado y devuelven el siguiente.
+// Las usa la tienda (useShopStore) y la repetición de partidas (replay.ts), así ambas dan lo mismo.
+
+// Lo que no cambia durante la partida
+export interface RunContext {
+    cfg: AppConfig;
+    data: Pokemon[];
+    regions: string[];
+    runSeed: number;
+}
+
+// Resultado de una acción: nuevo estado, acción para el log y evento para el historial
+export interface RunStep {
+    state: UndoableState;
+    action: RunAction;
+    type: HistoryEventType;
+    message: string;
+    notices?: { type: HistoryEventType; message: string }[]; // eventos extra del historial tras el principal (reservas caducadas)
+}
+
+// Genera una clave estable para el caché regional dentro de shopByIndex
+export function regionKeyFor(index: number): number {
+    return -(index + 1); // evita colisión con índices de tienda >= 0
+}
+
+// Generador para una acción aleatoria concreta.
+// La sub-semilla depende del tipo de acción, la región y el nonce de la acción,
+// así repetir las mismas acciones con la misma semilla reproduce las mismas tiendas.
+export function rngFor(
+    runSeed: number,
+    kind: 'shop' | 'region' | 'refresh' | 'reroll' | 'autofill',
+    region: string,
+    nonce: number
+): Rng {
+    return createRng(deriveSeed(runSeed, kind, region, nonce));
+}
+
+// Dinero que se devuelve al vender una compra (sellRefundPercent del precio pagado)
+export function sellRefundOf(cfg: AppConfig, purchase: PurchaseItem): number {
+    const percent = Math.min(100, Math.max(0, cfg.sellRefundPercent ?? 50));
+    return Math.round((purchase.precio * percent) / 100);
+}
+
+// Mensaje del historial al deshacer `count` acciones hasta la de `label`
+export function undoMessage(label: string, count: number): string {
+    return count === 1 ? `Deshecho: ${label}` : `Deshechas ${count} acciones hasta: ${label}`;
+}
+
+// Copia la tienda en la clave del grupo y en las claves de todas las regiones del grupo
+function syncGroup(
+    shopByIndex: Record<number, ShopPokemon[]>,
+    shopIdx: number,
+    shop: ShopPokemon[],
+    regionIndex: number,
+    ctx: RunContext
+): { shopByIndex: Record<number, ShopPokemon[]>; groupStart: number; groupEnd: number } {
+    const groupSize = ctx.cfg.shopRefreshEveryRegions ?? 1;
+    const groupStart = Math.floor(regionIndex / groupSize) * groupSize;
+    const groupEnd = Math.min(groupStart + groupSize - 1, ctx.regions.length - 1);
+    const next = { ...shopByIndex, [shopIdx]: shop };
+    for (let i = groupStart; i <= groupEnd; i++) {
+        next[regionKeyFor(i)] = shop;
+    }
+    return { shopByIndex: next, groupStart, groupEnd };
+}
+
+// Slots bloqueables a la vez en la tienda (maxLockedSlots, por defecto 2; 0 = sin bloqueos)
+export function lockLimitOf(cfg: AppConfig): number {
+    const limit = cfg.maxLockedSlots;
+    return typeof limit === 'number' && Number.isInteger(limit) && limit >= 0 ? limit : 2;
+}
+
+// Ids que no pueden salir en tiendas nuevas, rerolls ni autorrelleno: comprados y reservados
+export function unavailableIdsOf(s: Pick<UndoableState, 'purchases' | 'reservations'>): Set<number> {
+    const ids = purchasedIdsOf(s.purchases);
+    for (const reservation of s.reservations) ids.add(reservation.pokemonId);
+    return ids;
+}
+
+// Genera una tienda nueva para la región conservando en su sitio los slots bloqueados y reservados de `previous`.
+// Solo se generan los slots que faltan, con las cuotas mínimas descontando los tiers de los slots conservados.
+// Sin duplicados, los pokémon bloqueados no pueden salir en el resto de slots
+function rebuildKeepingLocks(
+    previous: ShopPokemon[],
+    ctx: RunContext,
+    region: string,
+    purchasedIds: Set<number>,
+    rng: Rng
+): ShopPokemon[] {
+    const regionCfg = resolveRegionConfig(ctx.cfg, region);
+    const locked = previous.flatMap((slot, index) => (slot.__locked || slot.__reserved ? [{ index, slot }] : []));
+    if (!locked.length) return buildShopForRegion(ctx.data, region, ctx.cfg, purchasedIds, rng);
+
+    const lockedIds = new Set(locked.map(({ slot }) => slot.id));
+    const pool = regionCfg.allowDuplicates ? ctx.data : ctx.data.filter((pokemon) => !lockedIds.has(pokemon.id));
+    const quota = { ...regionCfg.quota };
+    for (const { slot } of locked) {
+        const tier = Object.keys(quota).find((t) => tierKey(t) === tierKey(requestedTierOf(slot)));
+        if (tier !== undefined) quota[tier] = Math.max(0, quota[tier] - 1);
+    }
+    // La config ya está resuelta para la región: sin regionOverrides para que no vuelvan a aplicarse
+    const size = Math.max(regionCfg.shopSize, locked.length);
+    const generated = buildShopForRegion(
+        pool,
+        region,
+        { ...regionCfg, regionOverrides: undefined, shopSize: size - locked.length, quota },
+        purchasedIds,
+        rng
+    );
+
+    // Los conservados vuelven a su índice (o al primer hueco si la tienda ahora es más pequeña)
+    const shop: (ShopPokemon | undefined)[] = new Array(size).fill(undefined);
+    const displaced: ShopPokemon[] = [];
+    for (const { index, slot } of locked) {
+        if (index < size) shop[index] = slot;
+        else displaced.push(slot);
+    }
+    const rest = [...displaced, ...generated];
+    return shop.map((slot) => slot ?? (rest.shift() as ShopPokemon));
+}
+
+// ================= Cambio de región =================
+// Al cambiar de grupo de regiones (shopIdx distinto) avanzan las reservas y caducan las que no aguantan más
+export function applyRegion(before: UndoableState, ctx: RunContext, regionIdx: number, shopIdx: number): RunStep {
+    const { cfg } = ctx;
+    const { state: s, notices } =
+        shopIdx !== before.lastShopIndex ? tickReservations(before) : { state: before, notices: [] };
+    const targetRegion = ctx.regions[regionIdx];
+    const visited = new Set<string>(s.visitedRegions);
+    const isNewRegionName = !visited.has(targetRegion);
+
+    const purchasedIds = unavailableIdsOf(s);
+    let rngNonce = s.rngNonce;
+    // Al cambiar de grupo la tienda nueva conserva los slots bloqueados y reservados de la tienda actual;
+    // dentro del mismo grupo, los de la tienda del grupo
+    const buildShop = () =>
+        rebuildKeepingLocks(
+            shopIdx !== s.lastShopIndex ? s.shop : (s.shopByIndex[shopIdx] ?? []),
+            ctx,
+            targetRegion,
+            purchasedIds,
+            rngFor(ctx.runSeed, 'region', targetRegion, ++rngNonce)
+        );
+
+    // 1) Si ya existe snapshot por región, úsalo SIEMPRE (objetivo: “cuando vuelva, que sea la misma”)
+    let newShop = (s.shopByIndex[regionKeyFor(regionIdx)] ?? []) as ShopPokemon[];
+
+    // 2) Si NO existe snapshot por región:
+    //    - si cambia el shopIdx (ha pasado el umbral N) => (re)genera
+    //    - si no, usa la tienda canónica del grupo (o genera si no existe)
+    if (!newShop.length) {
+        if (s.lastShopIndex !== shopIdx) {
+            newShop = buildShop();
+        } else {
+            newShop = (s.shopByIndex[shopIdx] ?? []) as ShopPokemon[];
+            if (!newShop.length) newShop = buildShop();
+        }
+    }
+
+    // Recarga de rerolls al visitar regiones nuevas
+    let rerolls = { rerollsUsedGlobal: s.rerollsUsedGlobal, rerollsUsedBy: s.rerollsUsedBy };
+    if (isNewRegionName) {
+        visited.add(targetRegion);
+        const rrEvery = cfg.rerollRechargeEveryRegions;
+        if ((rrEvery > 0 && visited.size % rrEvery === 1) || rrEvery === 1) {
+            rerolls = RECHARGED_REROLLS;
+        }
+    }
+
+    const { shopByIndex } = syncGroup(s.shopByIndex, shopIdx, newShop, regionIdx, ctx);
+    return {
+        state: {
+            ...s,
+            currentRegionIndex: regionIdx,
+            selectedRegionIndex: regionIdx,
+            selectedShopIndex: shopIdx,
+            lastShopIndex: shopIdx,
+            shop: newShop,
+            shopByIndex,
+            visitedRegions: Array.from(visited),
+            ...rerolls,
+            rngNonce,
+        },
+        action: {
+            type: 'region',
+            regionIndex: regionIdx,
+            shopIndex: shopIdx,
+            rngNonce: s.rngNonce,
+            shopIds: newShop.map((p) => p.id),
+        },
+        type: 'refresh',
+        message: `Región activa: ${targetRegion}`,
+        ...(notices.length ? { notices } : {}),
+    };
+}
+
+// ================= Refresh manual =================
+// Regenera la tienda de la región activa (y de las regiones de su grupo). Los slots bloqueados y reservados se quedan
+export function applyRefresh(s: UndoableState, ctx: RunContext): RunStep {
+    const activeRegion = ctx.regions[s.currentRegionIndex];
+    const rngNonce = s.rngNonce + 1;
+    const shop = rebuildKeepingLocks(
+        s.shop,
+        ctx,
+        activeRegion,
+        unavailableIdsOf(s),
+        rngFor(ctx.runSeed, 'refresh', activeRegion, rngNonce)
+    );
+
+    const { shopByIndex, groupStart, groupEnd } = syncGroup(
+        s.shopByIndex,
+        s.selectedShopIndex,
+        shop,
+        s.currentRegionIndex,
+        ctx
+    );
+    return {
+        state: {
+            ...s,
+            shop,
+            shopByIndex,
+            ...(ctx.cfg.rerollResetOnRefresh ? RECHARGED_REROLLS : {}),
+            rngNonce,
+        },
+        action: { type: 'refresh', rngNonce: s.rngNonce, shopIds: shop.map((p) => p.id) },
+        type: 'refresh',
+        message: `Tienda regenerada en ${ctx.regions.slice(groupStart, groupEnd + 1).join(', ')}.`,
+    };
+}
+
+// ================= Dinero =================
+export function applyMoney(s: UndoableState, amount: number): RunStep {
+    const money = s.money + amount;
+    return {
+        state: { ...s, money },
+        action: { type: 'money', amount },
+        type: amount > 0 ? 'money:add' : 'money:subtract',
+        message: `Saldo ${amount > 0 ? '+' : ''}${amount}. Nuevo saldo: ${money}`,
+    };
+}
+
+// ================= Compras =================
+// Lo que queda en el slot `index` de `shop` al comprarlo en `region`: con shopBuySlotAutofill otro pokémon
+// del mismo tier (o un hueco si no hay); si no, el propio slot marcado como comprado
+function slotAfterBuy(
+    s: UndoableState,
+    ctx: RunContext,
+    shop: ShopPokemon[],
+    index: number,
+    region: string
+): { slot: ShopPokemon; rngNonce: number; autofillId?: number } {
+    const { cfg } = ctx;
+    const slot = shop[index];
+    if (!cfg.shopBuySlotAutofill) {
+        // Marcar como comprado y dejar el hueco "Comprado"
+        return { slot: { ...releaseSlot(slot), __purchased: true, __exhausted: false, __locked: false }, rngNonce: s.rngNonce };
+    }
+
+    // Candidato del MISMO tier y región; el recién comprado no puede salir de inmediato
+    const purchasedIds = unavailableIdsOf(s);
+    // Si includePurchasedInRerollPool === false, también excluye el recién comprado
+    if (!cfg.includePurchasedInRerollPool) purchasedIds.add(slot.id);
+
+    // usedIds: ids visibles en tienda excepto el propio índice que vamos a reemplazar
+    const usedIds = new Set<number>();
+    if (!resolveRegionConfig(cfg, region).allowDuplicates) {
+        shop.forEach((p, i) => {
+            if (p && i !== index) usedIds.add(p.id);
+        });
+    }
+
+    const cand = findRerollCandidate(
+        ctx.data,
+        region,
+        requestedTierOf(slot),
+        usedIds,
+        purchasedIds,
+        slot.id,
+        cfg,
+        rngFor(ctx.runSeed, 'autofill', region, s.rngNonce + 1)
+    );
+    // Sin candidato → hueco
+    const next: ShopPokemon = cand
+        ? { ...cand }
+        : { id: -1, nombre: '—', tier: requestedTierOf(slot), precio: 0, regiones: [region] };
+    return { slot: next, rngNonce: s.rngNonce + 1, autofillId: next.id };
+}
+
+// null si el slot no se puede comprar (vacío, ya comprado, reservado o sin saldo suficiente)
+export function applyBuy(
+    s: UndoableState,
+    ctx: RunContext,
+    index: number,
+    ids: { purchaseId?: string; ts?: string } = {}
+): RunStep | null {
+    const { cfg } = ctx;
+    const slot = s.shop[index];
+    if (!slot || slot.__purchased || slot.__reserved || slot.id === -1) return null;
+
+    const region = ctx.regions[s.currentRegionIndex];
+    const price = computePrice(slot, cfg, { region, visitedRegions: s.visitedRegions, purchases: s.purchases }).final;
+    if (s.money < price) return null;
+
+    const purchase: PurchaseItem = {
+        id: ids.purchaseId ?? crypto.randomUUID(),
+        ts: ids.ts ?? new Date().toISOString(),
+        region,
+        pokemonId: slot.id,
+        nombre: slot.nombre,
+        tier: slot.tier,
+        precio: price,
+        precioBase: slot.precio,
+    };
+
+    const newShop = s.shop.slice();
+    const bought = slotAfterBuy(s, ctx, s.shop, index, region);
+    newShop[index] = bought.slot;
+    const { rngNonce, autofillId } = bought;
+
+    const { shopByIndex } = syncGroup(s.shopByIndex, s.selectedShopIndex, newShop, s.currentRegionIndex, ctx);
+    return {
+        state: {
+            ...s,
+            money: s.money - price,
+            shop: newShop,
+            shopByIndex,
+            rngNonce,
+            purchases: [purchase, ...s.purchases],
+        },
+        action: {
+            type: 'buy',
+            index,
+            pokemonId: slot.id,
+            price,
+            purchaseId: purchase.id,
+            rngNonce: s.rngNonce,
+            ...(autofillId === undefined ? {} : { autofillId }),
+        },
+        type: 'buy',
+        message: `Compra de ${slot.nombre} por ${price} en ${region}`,
+    };
+}
+
+// ================= Ventas =================
+// null si la compra no existe o ya se vendió
+export function applySell(
+    s: UndoableState,
+    ctx: RunContext,
+    purchaseId: string,
+    ts: string = new Date().toISOString()
+): RunStep | null {
+    const purchase = s.purchases.find((p) => p.id === purchaseId);
+    if (!purchase || purchase.soldAt) return null;
+
+    const refund = sellRefundOf(ctx.cfg, purchase);
+    const returnedToPool = !!ctx.cfg.sellReturnsToPool;
+    return {
+        state: {
+            ...s,
+            money: s.money + refund,
+            purchases: s.purchases.map((p) => (p.id === purchaseId ? { ...p, soldAt: ts, refund, returnedToPool } : p)),
+        },
+        action: { type: 'sell', purchaseId, refund },
+        type: 'sell',
+        message: `Venta de ${purchase.nombre} por ${refund}${returnedToPool ? ' (vuelve a la tienda)' : ''}`,
+    };
+}
+
+// ================= Rerolls =================
+// Ids que no pueden salir al rerollear un slot (visibles si no hay duplicados, comprados y reservados)
+export function rerollExclusions(
+    s: UndoableState,
+    ctx: RunContext
+): { usedIds: Set<number>; purchasedIds: Set<number> } {
+    const region = ctx.regions[s.currentRegionIndex];
+    const usedIds = new Set<number>();
+    if (!resolveRegionConfig(ctx.cfg, region).allowDuplicates) {
+        for (const x of s.shop) if (x) usedIds.add(x.id);
+    }
+    return { usedIds, purchasedIds: unavailableIdsOf(s) };
+}
+
+// Gasta un reroll del presupuesto de la política (rerollPolicy) y, en la de pago, su precio.
+// null si no quedan rerolls o dinero, el slot está bloqueado o reservado o no hay candidato válido
+// (en ese caso no se consume el reroll)
+export function applyReroll(s: UndoableState, ctx: RunContext, index: number): RunStep | null {
+    const region = ctx.regions[s.currentRegionIndex];
+    const slot = s.shop[index];
+    if (!slot || slot.__locked || slot.__reserved) return null;
+    const budget = rerollBudgetOf(s, ctx.cfg, region, slot);
+    if (!canSpendReroll(budget, s.money)) return null;
+
+    const { usedIds, purchasedIds } = rerollExclusions(s, ctx);
+    const rngNonce = s.rngNonce + 1;
+    const cand = findRerollCandidate(
+        ctx.data,
+        region,
+        requestedTierOf(slot),
+        usedIds,
+        purchasedIds,
+        slot.id, // no permitir el mismo al rerollear
+        ctx.cfg,
+        rngFor(ctx.runSeed, 'reroll', region, rngNonce)
+    );
+    if (!cand) return null;
+
+    // En la política 'slot' el contador pasa al pokémon que ocupa el slot
+    const newShop = s.shop.slice();
+    newShop[index] = budget.policy === 'slot' ? { ...cand, __rerolls: budget.used + 1 } : { ...cand };
+    const { shopByIndex } = syncGroup(s.shopByIndex, s.selectedShopIndex, newShop, s.currentRegionIndex, ctx);
+    return {
+        state: {
+            ...s,
+            ...spendReroll(s, budget),
+            money: s.money - budget.cost,
+            shop: newShop,
+            shopByIndex,
+            rngNonce,
+        },
+        action: {
+            type: 'reroll',
+            index,
+            fromId: slot.id,
+            toId: cand.id,
+            rngNonce: s.rngNonce,
+            ...(budget.cost ? { cost: budget.cost } : {}),
+        },
+        type: 'reroll',
+        message: `Reroll en ${slot.nombre} → ${cand.nombre} (Tier ${String(cand.tier).toUpperCase()}${
+            cand.__fallbackFrom ? `, fallback de ${String(cand.__fallbackFrom).toUpperCase()}` : ''
+        })${budget.cost ? ` por ${budget.cost}` : ''}.`,
+    };
+}
+
+// ================= Bloqueo de slots =================
+// Bloquea o desbloquea un slot: los bloqueados se conservan al actualizar o regenerar la tienda.
+// null si el slot está vacío, comprado o reservado, o si ya hay maxLockedSlots bloqueados
+export function applyLock(s: UndoableState, ctx: RunContext, index: number): RunStep | null {
+    const slot = s.shop[index];
+    if (!slot || slot.id === -1 || slot.__purchased || slot.__reserved) return null;
+
+    const locked = !slot.__locked;
+    if (locked && s.shop.filter((p) => p.__locked).length >= lockLimitOf(ctx.cfg)) return null;
+
+    const newShop = s.shop.slice();
+    newShop[index] = { ...slot, __locked: locked };
+    const { shopByIndex } = syncGroup(s.shopByIndex, s.selectedShopIndex, newShop, s.currentRegionIndex, ctx);
+    return {
+        state: { ...s, shop: newShop, shopByIndex },
+        action: { type: 'lock', index, locked },
+        type: 'lock',
+        message: `${locked ? 'Bloqueado' : 'Desbloqueado'} ${slot.nombre} en ${ctx.regions[s.currentRegionIndex]}`,
+    };
+}
+
+// ================= Reservas =================
+// Depósito de una reserva: reserveDepositPercent (por defecto 25) del precio
+export function reserveDepositOf(cfg: AppConfig, price: number): number {
+    const percent = Math.min(100, Math.max(0, cfg.reserveDepositPercent ?? 25));
+    return Math.round((price * percent) / 100);
+}
+
+// Cambios de grupo de regiones que aguanta una reserva (reserveHoldRegions, por defecto 2; 0 = sin reservas)
+export function reserveHoldOf(cfg: AppConfig): number {
+    const hold = cfg.reserveHoldRegions;
+    return typeof hold === 'number' && Number.isInteger(hold) && hold >= 0 ? hold : 2;
+}
+
+// Aplica `update` a los slots retenidos por la reserva, en la tienda visible y en todas las guardadas
+function updateReservedSlots(
+    s: UndoableState,
+    reservationId: string,
+    update: (slot: ShopPokemon) => ShopPokemon
+): Pick<UndoableState, 'shop' | 'shopByIndex'> {
+    const updateShop = (shop: ShopPokemon[]) =>
+        shop.some((slot) => slot.__reserved === reservationId)
+            ? shop.map((slot) => (slot.__reserved === reservationId ? update(slot) : slot))
+            : shop;
+    // Las claves de un mismo grupo comparten la tienda: se actualiza una vez y se conserva compartida
+    const updated = new Map<ShopPokemon[], ShopPokemon[]>();
+    const once = (shop: ShopPokemon[]) => {
+        if (!updated.has(shop)) updated.set(shop, updateShop(shop));
+        return updated.get(shop) as ShopPokemon[];
+    };
+    const shopByIndex: Record<number, ShopPokemon[]> = {};
+    for (const [key, shop] of Object.entries(s.shopByIndex)) shopByIndex[Number(key)] = once(shop);
+    return { shop: once(s.shop), shopByIndex };
+}
+
+// Libera un slot reservado: vuelve a la tienda como un slot normal
+const releaseSlot = ({ __reserved: _, ...slot }: ShopPokemon): ShopPokemon => slot;
+
+// Avanza las reservas un cambio de grupo de regiones; las que no aguantan más caducan y liberan su slot
+function tickReservations(s: UndoableState): { state: UndoableState; notices: NonNullable<RunStep['notices']> } {
+    let state = s;
+    const reservations: Reservation[] = [];
+    const notices: NonNullable<RunStep['notices']> = [];
+    for (const reservation of s.reservations) {
+        if (reservation.regionsLeft > 0) {
+            reservations.push({ ...reservation, regionsLeft: reservation.regionsLeft - 1 });
+            continue;
+        }
+        state = { ...state, ...updateReservedSlots(state, reservation.id, releaseSlot) };
+        notices.push({
+            type: 'reserve:expire',
+            message: `Reserva de ${reservation.nombre} caducada: se pierde el depósito de ${reservation.deposit}`,
+        });
+    }
+    return { state: { ...state, reservations }, notices };
+}
+
+// Reserva un slot de la tienda pagando el depósito; el precio queda fijado hasta completar la compra.
+// null si las reservas están desactivadas, el slot está vacío, comprado o ya reservado, o no llega para el depósito
+export function applyReserve(
+    s: UndoableState,
+    ctx: RunContext,
+    index: number,
+    ids: { reservationId?: string; ts?: string } = {}
+): RunStep | null {
+    const { cfg } = ctx;
+    const hold = reserveHoldOf(cfg);
+    const slot = s.shop[index];
+    if (hold === 0 || !slot || slot.id === -1 || slot.__purchased || slot.__reserved) return null;
+
+    const region = ctx.regions[s.currentRegionIndex];
+    const price = computePrice(slot, cfg, { region, visitedRegions: s.visitedRegions, purchases: s.purchases }).final;
+    const deposit = reserveDepositOf(cfg, price);
+    if (s.money < deposit) return null;
+
+    const reservation: Reservation = {
+        id: ids.reservationId ?? crypto.randomUUID(),
+        ts: ids.ts ?? new Date().toISOString(),
+        region,
+        pokemonId: slot.id,
+        nombre: slot.nombre,
+        tier: slot.tier,
+        precio: price,
+        precioBase: slot.precio,
+        deposit,
+        regionsLeft: hold,
+    };
+
+    // La reserva ya conserva el slot: deja libre su bloqueo
+    const newShop = s.shop.slice();
+    newShop[index] = { ...slot, __reserved: reservation.id, __locked: false };
+    const { shopByIndex } = syncGroup(s.shopByIndex, s.selectedShopIndex, newShop, s.currentRegionIndex, ctx);
+    return {
+        state: {
+            ...s,
+            money: s.money - deposit,
+            shop: newShop,
+            shopByIndex,
+            reservations: [reservation, ...s.reservations],
+        },
+        action: { type: 'reserve', index, pokemonId: slot.id, price, deposit, reservationId: reservation.id },
+        type: 'reserve',
+        message: `Reserva de ${slot.nombre} en ${region}: depósito ${deposit} de ${price}`,
+    };
+}
+
+// Paga el resto de una reserva y la convierte en compra (con el precio y la región de la reserva).
+// null si la reserva no existe o no hay saldo para el resto
+export function applyCompleteReservation(
+    s: UndoableState,
+    ctx: RunContext,
+    reservationId: string,
+    ids: { purchaseId?: string; ts?: string } = {}
+): RunStep | null {
+    const reservation = s.reservations.find((r) => r.id === reservationId);
+    if (!reservation) return null;
+    const rest = reservation.precio - reservation.deposit;
+    if (s.money < rest) return null;
+
+    const purchase: PurchaseItem = {
+        id: ids.purchaseId ?? crypto.randomUUID(),
+        ts: ids.ts ?? new Date().toISOString(),
+        region: reservation.region,
+        pokemonId: reservation.pokemonId,
+        nombre: reservation.nombre,
+        tier: reservation.tier,
+        precio: reservation.precio,
+        precioBase: reservation.precioBase,
+    };
+    const reservations = s.reservations.filter((r) => r.id !== reservationId);
+
+    // El slot queda igual que al comprarlo directamente (autorrelleno incluido) en la tienda donde se reservó
+    let slots: Pick<UndoableState, 'shop' | 'shopByIndex'> = { shop: s.shop, shopByIndex: s.shopByIndex };
+    let rngNonce = s.rngNonce;
+    let autofillId: number | undefined;
+    const shop = [s.shop, ...Object.values(s.shopByIndex)].find((sh) => sh.some((slot) => slot.__reserved === reservationId));
+    if (shop) {
+        const index = shop.findIndex((slot) => slot.__reserved === reservationId);
+        const bought = slotAfterBuy({ ...s, reservations }, ctx, shop, index, reservation.region);
+        slots = updateReservedSlots(s, reservationId, () => bought.slot);
+        ({ rngNonce, autofillId } = bought);
+    }
+
+    return {
+        state: {
+            ...s,
+            ...slots,
+            rngNonce,
+            money: s.money - rest,
+            purchases: [purchase, ...s.purchases],
+            reservations,
+        },
+        action: {
+            type: 'reserve:complete',
+            reservationId,
+            paid: rest,
+            purchaseId: purchase.id,
+            ...(autofillId === undefined ? {} : { autofillId }),
+        },
+        type: 'reserve:complete',
+        message: `Compra reservada de ${reservation.nombre} por ${reservation.precio} en ${reservation.region} (resto ${rest})`,
+    };
+}
+
+// Cancela una reserva: el slot vuelve a la tienda y el depósito se pierde. null si la reserva no existe
+export function applyCancelReservation(s: UndoableState, reservationId: string): RunStep | null {
+    const reservation = s.reservations.find((r) => r.id === reservationId);
+    if (!reservation) return null;
+    return {
+        state: {
+            ...s,
+            ...updateReservedSlots(s, reservationId, releaseSlot),
+            reservations: s.reservations.filter((r) => r.id !== reservationId),
+        },
+        action: { type: 'reserve:cancel', reservationId },
+        type: 'reserve:cancel',
+        message: `Reserva de ${reservation.nombre} cancelada: se pierde el depósito de ${reservation.deposit}`,
+    };
+}
@@ -0,0 +1,75 @@
+import type { RunLogEntry, ValidationIssue } from '../types';
+import { getCurrentProfile, getProfileDir } from './profileManager';
+import { exists, join, readTextFile, writeTextFile } from './storage';
+
+// Log de la partida: run.log en la carpeta del perfil, una acción (RunLogEntry) por línea.
+// Solo se añade al final, así una línea a medio escribir no estropea las anteriores.
+
+const RUN_LOG_FILE_NAME = 'run.log';
+
+// Las escrituras se encadenan para que las líneas no se mezclen ni se desordenen
+let writeQueue: Promise<void> = Promise.resolve();
+
+function enqueue(task: () => Promise<void>): Promise<void> {
+    writeQueue = writeQueue.then(task).catch((err) => {
+        console.error(`[RunLog] Error writing run log:`, err);
+    });
+    return writeQueue;
+}
+
+export async function getRunLogPath(profileId?: string): Promise<string> {
+    const currentProfileId = profileId || await getCurrentProfile();
+    return await join(await getProfileDir(currentProfileId), RUN_LOG_FILE_NAME);
+}
+
+// Empieza un log nuevo (sobrescribe el anterior) con la acción "start"
+export function startRunLog(entry: RunLogEntry, profileId?: string): Promise<void> {
+    return enqueue(async () => {
+        const path = await getRunLogPath(profileId);
+        await writeTextFile(path, JSON.stringify(entry) + '\n');
+        console.log(`[RunLog] New run log started at: ${path}`);
+    });
+}
+
+// Añade una acción al final del log
+export function appendRunLog(entry: RunLogEntry, profileId?: string): Promise<void> {
+    return enqueue(async () => {
+        const path = await getRunLogPath(profileId);
+        await writeTextFile(path, JSON.stringify(entry) + '\n', { append: true });
+    });
+}
+
+export async function hasRunLog(profileId?: string): Promise<boolean> {
+    await writeQueue;
+    return await exists(await getRunLogPath(profileId));
+}
+
+// Parsea run.log. Las líneas ilegibles se saltan y se devuelven como incidencias
+export function parseRunLog(content: string): { entries: RunLogEntry[]; issues: ValidationIssue[] } {
+    const entries: RunLogEntry[] = [];
+    const issues: ValidationIssue[] = [];
+    content.split('\n').forEach((line, i) => {
+        if (!line.trim()) return;
+        try {
+            const entry = JSON.parse(line);
+            if (typeof entry?.ts !== 'string' || typeof entry?.action?.type !== 'string') {
+                issues.push({ path: `línea ${i + 1}`, message: 'no es una acción del log', line: i + 1 });
+                return;
+            }
+            entries.push(entry as RunLogEntry);
+        } catch {
+            issues.push({ path: `línea ${i + 1}`, message: 'JSON no válido', line: i + 1 });
+        }
+    });
+    return { entries, issues };
+}
+
+// Lee el log del perfil (null si no existe)
+export async function readRunLog(
+    profileId?: string
+): Promise<{ entries: RunLogEntry[]; issues: ValidationIssue[] } | null> {
+    await writeQueue;
+    const path = await getRunLogPath(profileId);
+    if (!(await exists(path))) return null;
+    return parseRunLog(await readTextFile(path));
+}
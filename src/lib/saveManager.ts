@@ -1,28 +1,28 @@
-import { join } from '@tauri-apps/api/path';
-import { exists, readTextFile, writeTextFile } from '@tauri-apps/plugin-fs';
+import type { ValidationIssue } from '../types';
 import { getCurrentProfile, getProfileDir } from './profileManager';
+import { parseSaveData, SAVE_VERSION, SaveDataError, type SaveData } from './saveSchema';
+import { copyFile, exists, join, mkdir, readDir, readTextFile, remove, rename, writeTextFile } from './storage';
 
-export interface SaveData {
-    profileId: string; // Add profile ID to track ownership
-    regions: string[];
-    currentRegionIndex: number;
-    selectedRegionIndex: number;
-    selectedShopIndex: number;
-    lastShopIndex: number;
-    visitedRegions: string[];
-    shop: any[];
-    shopByIndex: Record<number, any[]>;
-    rerollsUsedGlobal: number;
-    money: number;
-    history: any[];
-    purchases: any[];
-    undoStack: any[];
-    savedAt: string;
+export { SaveDataError, type SaveData };
+
+// Copia de seguridad de save.sav dentro de la carpeta backups/ del perfil
+export interface SaveBackup {
+    name: string; // nombre del archivo, p. ej. save-2024-01-01T12-00-00-000Z.sav
+    path: string;
+    createdAt: string; // timestamp ISO
 }
 
-const SAVE_FILE_NAME = 'save.sav';
+// Resultado de cargar con recuperación automática desde copias de seguridad
+export interface SaveLoadResult {
+    saveData: SaveData | null;
+    recoveredFrom: string | null; // copia usada si save.sav estaba dañado
+    issues: ValidationIssue[]; // problemas encontrados en el save.sav original
+}
 
-const isTauri = typeof window !== 'undefined' && ('__TAURI_INTERNALS__' in window || '__TAURI__' in window);
+const SAVE_FILE_NAME = 'save.sav';
+const BACKUPS_DIR = 'backups';
+const MAX_BACKUPS = 10; // copias rotativas por perfil
+const BACKUP_INTERVAL_MS = 5 * 60 * 1000; // como mucho una copia cada 5 minutos
 
 export async function getSaveFilePath(profileId?: string): Promise<string> {
     const currentProfileId = profileId || await getCurrentProfile();
@@ -30,12 +30,79 @@ export async function getSaveFilePath(profileId?: string): Promise<string> {
     return await join(profileDir, SAVE_FILE_NAME);
 }
 
-export async function loadSaveData(profileId?: string): Promise<SaveData | null> {
-    if (!isTauri) {
-        console.log(`[SaveManager] Not in Tauri mode, returning null`);
-        return null;
+async function getBackupsDir(profileId?: string): Promise<string> {
+    const currentProfileId = profileId || await getCurrentProfile();
+    const profileDir = await getProfileDir(currentProfileId);
+    return await join(profileDir, BACKUPS_DIR);
+}
+
+// Nombre de copia ordenable alfabéticamente: save-2024-01-01T12-00-00-000Z.sav
+function backupFileName(date: Date, prefix = 'save'): string {
+    return `${prefix}-${date.toISOString().replace(/[:.]/g, '-')}.sav`;
+}
+
+// Recupera la fecha ISO a partir del nombre de una copia (null si no es una copia rotativa)
+function backupDateFromName(name: string): string | null {
+    const match = /^save-(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.sav$/.exec(name);
+    return match ? `${match[1]}:${match[2]}:${match[3]}.${match[4]}Z` : null;
+}
+
+// Escribe en un archivo temporal y lo renombra: si la app muere a mitad, el archivo original sigue intacto
+async function writeFileAtomic(path: string, content: string): Promise<void> {
+    const tmpPath = `${path}.tmp`;
+    await writeTextFile(tmpPath, content);
+    await rename(tmpPath, path);
+}
+
+// Lista las copias de seguridad del perfil, de más reciente a más antigua
+export async function listSaveBackups(profileId?: string): Promise<SaveBackup[]> {
+    const backupsDir = await getBackupsDir(profileId);
+    if (!(await exists(backupsDir))) return [];
+
+    const backups: SaveBackup[] = [];
+    for (const entry of await readDir(backupsDir)) {
+        const createdAt = entry.isFile ? backupDateFromName(entry.name) : null;
+        if (createdAt) {
+            backups.push({ name: entry.name, path: await join(backupsDir, entry.name), createdAt });
+        }
     }
+    return backups.sort((a, b) => b.name.localeCompare(a.name));
+}
 
+// Copia el save.sav actual a backups/ y elimina las copias que sobran.
+// Sin `force`, no crea copia si la última tiene menos de BACKUP_INTERVAL_MS.
+async function backupSaveFile(saveFilePath: string, profileId: string, force = false): Promise<void> {
+    try {
+        if (!(await exists(saveFilePath))) return;
+
+        const backupsDir = await getBackupsDir(profileId);
+        await mkdir(backupsDir, { recursive: true });
+
+        const backups = await listSaveBackups(profileId);
+        const newest = backups[0];
+        if (!force && newest && Date.now() - Date.parse(newest.createdAt) < BACKUP_INTERVAL_MS) {
+            return;
+        }
+
+        const backupPath = await join(backupsDir, backupFileName(new Date()));
+        await copyFile(saveFilePath, backupPath);
+        console.log(`[SaveManager] Backup created: ${backupPath}`);
+
+        // La nueva copia es la más reciente: se conservan MAX_BACKUPS - 1 de las anteriores
+        for (const old of backups.slice(MAX_BACKUPS - 1)) {
+            await remove(old.path);
+            console.log(`[SaveManager] Old backup removed: ${old.path}`);
+        }
+    } catch (err) {
+        // Una copia fallida no debe impedir guardar la partida
+        console.warn(`[SaveManager] Error creating backup:`, err);
+    }
+}
+
+// Devuelve null si no hay archivo de guardado.
+// Si el archivo existe pero no se puede leer o está corrupto lanza SaveDataError,
+// para que quien llama no empiece una partida nueva encima del progreso del jugador.
+export async function loadSaveData(profileId?: string): Promise<SaveData | null> {
     try {
         let targetProfileId = profileId;
 
@@ -65,22 +132,38 @@ export async function loadSaveData(profileId?: string): Promise<SaveData | null>
             return null;
         }
 
-        const content = await readTextFile(saveFilePath);
-        const saveData = JSON.parse(content) as SaveData;
-        console.log(`[SaveManager] Loaded save data from: ${saveFilePath}`, saveData);
+        let content: string;
+        try {
+            content = await readTextFile(saveFilePath);
+        } catch (err) {
+            throw new SaveDataError('No se pudo leer el archivo de guardado', [
+                { path: saveFilePath, message: String(err) },
+            ]);
+        }
+
+        const saveData = parseSaveData(content);
+        console.log(`[SaveManager] Loaded save data (v${saveData.version}) from: ${saveFilePath}`, saveData);
         return saveData;
     } catch (err) {
+        if (err instanceof SaveDataError) {
+            console.error(`[SaveManager] Corrupt save data:`, err.message, err.issues);
+            throw err;
+        }
         console.error(`[SaveManager] Error loading save data:`, err);
         return null;
     }
 }
 
-export async function saveSaveData(saveData: Omit<SaveData, 'savedAt'>, profileId?: string): Promise<void> {
-    if (!isTauri) {
-        console.log(`[SaveManager] Not in Tauri mode, skipping save`);
-        return;
-    }
+// Los guardados se encadenan: dos a la vez compartirían el archivo .tmp y el segundo rename fallaría
+let saveQueue: Promise<void> = Promise.resolve();
+
+export async function saveSaveData(saveData: Omit<SaveData, 'savedAt' | 'version'>, profileId?: string): Promise<void> {
+    const task = saveQueue.then(() => writeSaveData(saveData, profileId));
+    saveQueue = task.catch(() => {});
+    return task;
+}
 
+async function writeSaveData(saveData: Omit<SaveData, 'savedAt' | 'version'>, profileId?: string): Promise<void> {
     try {
         const targetProfileId = profileId || await getCurrentProfile();
         console.log(`[SaveManager] Saving data for profile: ${targetProfileId}`);
@@ -88,12 +171,15 @@ export async function saveSaveData(saveData: Omit<SaveData, 'savedAt'>, profileI
 
         const dataToSave: SaveData = {
             ...saveData,
+            version: SAVE_VERSION,
             profileId: targetProfileId, // Ensure profile ID is always set
             savedAt: new Date().toISOString()
         };
 
+        await backupSaveFile(saveFilePath, targetProfileId);
+
         console.log(`[SaveManager] Writing save data to: ${saveFilePath}`);
-        await writeTextFile(saveFilePath, JSON.stringify(dataToSave, null, 2));
+        await writeFileAtomic(saveFilePath, JSON.stringify(dataToSave, null, 2));
         console.log(`[SaveManager] Save data written successfully`);
     } catch (err) {
         console.error(`[SaveManager] Error saving data:`, err);
@@ -102,18 +188,11 @@ export async function saveSaveData(saveData: Omit<SaveData, 'savedAt'>, profileI
 }
 
 export async function deleteSaveData(profileId?: string): Promise<void> {
-    if (!isTauri) {
-        console.log(`[SaveManager] Not in Tauri mode, skipping delete`);
-        return;
-    }
-
     try {
         console.log(`[SaveManager] Deleting save data for profile: ${profileId || 'current'}`);
         const saveFilePath = await getSaveFilePath(profileId);
 
         if (await exists(saveFilePath)) {
-            // We'll use remove from fs plugin
-            const { remove } = await import('@tauri-apps/plugin-fs');
             await remove(saveFilePath);
             console.log(`[SaveManager] Save file deleted: ${saveFilePath}`);
         } else {
@@ -123,4 +202,57 @@ export async function deleteSaveData(profileId?: string): Promise<void> {
         console.error(`[SaveManager] Error deleting save data:`, err);
         throw err;
     }
-}
\ No newline at end of file
+}
+// Carga el guardado y, si save.sav está dañado, recurre a la copia más reciente que sea válida.
+// El archivo dañado se conserva en backups/ como corrupt-<fecha>.sav.
+// Solo lanza SaveDataError si ninguna copia sirve.
+export async function loadSaveDataWithRecovery(profileId?: string): Promise<SaveLoadResult> {
+    try {
+        return { saveData: await loadSaveData(profileId), recoveredFrom: null, issues: [] };
+    } catch (err) {
+        if (!(err instanceof SaveDataError)) throw err;
+
+        console.warn(`[SaveManager] save.sav is corrupt, trying backups...`);
+        for (const backup of await listSaveBackups(profileId)) {
+            try {
+                const saveData = parseSaveData(await readTextFile(backup.path));
+                console.log(`[SaveManager] Recovered save data from backup: ${backup.name}`);
+
+                try {
+                    const saveFilePath = await getSaveFilePath(profileId);
+                    const corruptPath = await join(await getBackupsDir(profileId), backupFileName(new Date(), 'corrupt'));
+                    await copyFile(saveFilePath, corruptPath);
+                    console.log(`[SaveManager] Corrupt save preserved at: ${corruptPath}`);
+                } catch (copyErr) {
+                    console.warn(`[SaveManager] Could not preserve corrupt save:`, copyErr);
+                }
+
+                return { saveData, recoveredFrom: backup.name, issues: err.issues };
+            } catch (backupErr) {
+                console.warn(`[SaveManager] Backup ${backup.name} is not usable:`, backupErr);
+            }
+        }
+
+        throw err;
+    }
+}
+
+// Restaura una copia de seguridad sobre save.sav (guardando antes una copia del estado actual)
+export async function restoreSaveBackup(backupName: string, profileId?: string): Promise<void> {
+    const targetProfileId = profileId || await getCurrentProfile();
+    const backup = (await listSaveBackups(targetProfileId)).find((b) => b.name === backupName);
+    if (!backup) {
+        throw new Error(`Backup ${backupName} not found`);
+    }
+
+    // Valida la copia antes de tocar save.sav
+    const saveData = parseSaveData(await readTextFile(backup.path));
+    const saveFilePath = await getSaveFilePath(targetProfileId);
+
+    await backupSaveFile(saveFilePath, targetProfileId, true);
+    await writeFileAtomic(
+        saveFilePath,
+        JSON.stringify({ ...saveData, profileId: targetProfileId }, null, 2)
+    );
+    console.log(`[SaveManager] Restored backup ${backupName} for profile: ${targetProfileId}`);
+}
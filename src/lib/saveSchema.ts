@@ -0,0 +1,427 @@
+import type {
+    HistoryEvent,
+    JournalEntry,
+    PurchaseItem,
+    Reservation,
+    ShopPokemon,
+    UndoableState,
+    ValidationIssue,
+} from '../types';
+import { createJournalEntry, diffShop } from './undoJournal';
+
+// Versión actual del formato de save.sav
+// 1 = formato original sin campo "version"
+// 2 = versión explícita + semilla de partida (runSeed / rngNonce)
+// 3 = precio base en las compras (precioBase) para los precios dinámicos
+// 4 = deshacer con diario de parches (undoStack / redoStack) en vez de snapshots completos
+// 5 = reservas de slots con depósito (reservations)
+// 6 = el diario guarda un parche de lista por cada tienda de shopByIndex en vez de la tienda entera
+export const SAVE_VERSION = 6;
+
+export interface SaveData {
+    version: number; // versión del formato del archivo
+    profileId: string; // Add profile ID to track ownership
+    regions: string[];
+    currentRegionIndex: number;
+    selectedRegionIndex: number;
+    selectedShopIndex: number;
+    lastShopIndex: number;
+    visitedRegions: string[];
+    shop: ShopPokemon[];
+    shopByIndex: Record<number, ShopPokemon[]>;
+    rerollsUsedGlobal: number;
+    rerollsUsedBy?: Record<string, number>; // contadores de rerolls por región o tier (ausente = ninguno)
+    runSeed?: number; // semilla de la partida (de ella se derivan las sub-semillas)
+    rngNonce?: number; // acciones aleatorias realizadas con esa semilla
+    money: number;
+    history: HistoryEvent[];
+    purchases: PurchaseItem[];
+    reservations: Reservation[];
+    undoStack: JournalEntry[];
+    redoStack: JournalEntry[];
+    savedAt: string;
+}
+
+// Error de carga de un save.sav existente: el archivo NO debe sobrescribirse
+export class SaveDataError extends Error {
+    issues: ValidationIssue[];
+
+    constructor(message: string, issues: ValidationIssue[]) {
+        super(message);
+        this.name = 'SaveDataError';
+        this.issues = issues;
+    }
+}
+
+type RawSave = Record<string, unknown>;
+
+// Cada migración sube exactamente una versión: clave = versión de origen
+const MIGRATIONS: Record<number, (raw: RawSave) => RawSave> = {
+    // 1 → 2: añade "version" y rellena campos que las primeras versiones podían omitir
+    1: (raw) => ({
+        profileId: '',
+        selectedRegionIndex: raw.currentRegionIndex ?? 0,
+        selectedShopIndex: 0,
+        lastShopIndex: 0,
+        visitedRegions: [],
+        shop: [],
+        shopByIndex: {},
+        rerollsUsedGlobal: 0,
+        history: [],
+        purchases: [],
+        undoStack: [],
+        savedAt: new Date(0).toISOString(),
+        ...raw,
+        version: 2,
+    }),
+    // 2 → 3: antes de los precios dinámicos se pagaba siempre el precio del catálogo
+    2: (raw) => {
+        const withBase = (list: unknown) =>
+            Array.isArray(list)
+                ? list.map((p) => (isObject(p) && p.precioBase === undefined ? { ...p, precioBase: p.precio } : p))
+                : list;
+        return {
+            ...raw,
+            purchases: withBase(raw.purchases),
+            undoStack: Array.isArray(raw.undoStack)
+                ? raw.undoStack.map((snap) =>
+                      isObject(snap) ? { ...snap, purchases: withBase(snap.purchases) } : snap
+                  )
+                : raw.undoStack,
+            version: 3,
+        };
+    },
+    // 3 → 4: cada snapshot se convierte en una entrada del diario comparándolo con el estado posterior
+    3: (raw) => ({
+        ...raw,
+        undoStack: journalFromSnapshots(raw),
+        redoStack: [],
+        version: 4,
+    }),
+    // 4 → 5: las partidas anteriores no tienen reservas
+    4: (raw) => ({
+        reservations: [],
+        ...raw,
+        version: 5,
+    }),
+    // 5 → 6: las tiendas completas de shopByIndex del diario pasan a parches de lista
+    5: (raw) => ({
+        ...raw,
+        undoStack: shopPatchesInJournal(raw.undoStack),
+        redoStack: shopPatchesInJournal(raw.redoStack),
+        version: 6,
+    }),
+};
+
+// Convierte las tiendas completas de shopByIndex de cada entrada del diario en parches de lista.
+// El parche de deshacer parte de la tienda de rehacer y viceversa (cada entrada tiene las dos)
+function shopPatchesInJournal(journal: unknown): unknown {
+    if (!Array.isArray(journal)) return journal;
+    const asShop = (shop: unknown) => (Array.isArray(shop) ? (shop as ShopPokemon[]) : undefined);
+    const convert = (shops: RawSave, other: unknown) => {
+        const others = isObject(other) ? other : {};
+        return Object.fromEntries(
+            Object.entries(shops).map(([key, shop]) => [
+                key,
+                Array.isArray(shop) ? diffShop(asShop(others[key]), shop as ShopPokemon[]) : shop,
+            ])
+        );
+    };
+    return journal.map((entry) => {
+        if (!isObject(entry) || !isObject(entry.undo) || !isObject(entry.redo)) return entry;
+        const { undo, redo } = entry;
+        return {
+            ...entry,
+            undo: isObject(undo.shopByIndex) ? { ...undo, shopByIndex: convert(undo.shopByIndex, redo.shopByIndex) } : undo,
+            redo: isObject(redo.shopByIndex) ? { ...redo, shopByIndex: convert(redo.shopByIndex, undo.shopByIndex) } : redo,
+        };
+    });
+}
+
+// Estado deshacible de un save o snapshot en bruto; lo que falte se toma de `fallback`
+function undoableFromRaw(raw: RawSave, fallback?: UndoableState): UndoableState {
+    return {
+        ...fallback,
+        ...raw,
+        rngNonce: raw.rngNonce ?? fallback?.rngNonce ?? 0,
+        reservations: raw.reservations ?? fallback?.reservations ?? [],
+        rerollsUsedBy: raw.rerollsUsedBy ?? fallback?.rerollsUsedBy ?? {},
+    } as unknown as UndoableState;
+}
+
+// Evento del historial que creó la acción: el siguiente al último que ya tenía el snapshot
+function eventAfter(history: unknown, previous: unknown): RawSave | undefined {
+    if (!Array.isArray(history)) return undefined;
+    const previousTop = Array.isArray(previous) && isObject(previous[0]) ? previous[0].id : undefined;
+    const index =
+        previousTop === undefined
+            ? history.length
+            : history.findIndex((event) => isObject(event) && event.id === previousTop);
+    const event = index > 0 ? history[index - 1] : undefined;
+    return isObject(event) ? event : undefined;
+}
+
+function journalFromSnapshots(raw: RawSave): JournalEntry[] {
+    if (!Array.isArray(raw.undoStack)) return [];
+    const entries: JournalEntry[] = [];
+    let after = undoableFromRaw(raw);
+    let afterHistory = raw.history;
+    for (const snapshot of raw.undoStack) {
+        if (!isObject(snapshot)) break; // sin el estado intermedio no se puede seguir la cadena
+        const before = undoableFromRaw(snapshot, after);
+        const event = eventAfter(afterHistory, snapshot.history);
+        const label = typeof event?.message === 'string' ? event.message : 'Acción anterior';
+        const entry = createJournalEntry(before, after, label, typeof event?.id === 'string' ? event.id : undefined);
+        if (entry) entries.push(entry);
+        after = before;
+        afterHistory = snapshot.history;
+    }
+    return entries;
+}
+
+// Versión declarada por un save en bruto (sin campo = formato original)
+function versionOf(raw: RawSave): number {
+    return typeof raw.version === 'number' ? raw.version : 1;
+}
+
+// Aplica en cadena las migraciones necesarias hasta SAVE_VERSION
+export function migrateSaveData(raw: RawSave): RawSave {
+    let current = raw;
+    let version = versionOf(current);
+
+    if (!Number.isInteger(version) || version < 1) {
+        throw new SaveDataError('Versión de guardado inválida', [
+            { path: 'version', message: `valor no válido: ${JSON.stringify(raw.version)}` },
+        ]);
+    }
+    if (version > SAVE_VERSION) {
+        throw new SaveDataError('Guardado creado con una versión más nueva de la app', [
+            { path: 'version', message: `versión ${version}, la app solo soporta hasta ${SAVE_VERSION}` },
+        ]);
+    }
+
+    while (version < SAVE_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) {
+            throw new SaveDataError('No hay migración disponible', [
+                { path: 'version', message: `falta la migración desde la versión ${version}` },
+            ]);
+        }
+        console.log(`[SaveManager] Migrando guardado de v${version} a v${version + 1}`);
+        current = migrate(current);
+        version = versionOf(current);
+    }
+
+    return current;
+}
+
+// ================= Validación =================
+
+const isObject = (v: unknown): v is RawSave =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+const isInt = (v: unknown) => Number.isInteger(v);
+const isNum = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+const isStr = (v: unknown) => typeof v === 'string';
+const isStrArray = (v: unknown) => Array.isArray(v) && v.every(isStr);
+const isCounterMap = (v: unknown) => isObject(v) && Object.values(v).every((n) => isInt(n) && (n as number) >= 0);
+
+// Comprueba los campos de un objeto y añade una incidencia por cada campo incorrecto
+function checkFields(
+    obj: unknown,
+    path: string,
+    fields: Record<string, [(v: unknown) => boolean, string]>,
+    issues: ValidationIssue[]
+): void {
+    if (!isObject(obj)) {
+        issues.push({ path, message: 'se esperaba un objeto' });
+        return;
+    }
+    for (const [key, [check, expected]] of Object.entries(fields)) {
+        if (!check(obj[key])) {
+            const at = path ? `${path}.${key}` : key;
+            issues.push({ path: at, message: `se esperaba ${expected}, hay ${JSON.stringify(obj[key])}` });
+        }
+    }
+}
+
+function checkShop(shop: unknown, path: string, issues: ValidationIssue[]): void {
+    if (!Array.isArray(shop)) {
+        issues.push({ path, message: 'se esperaba una lista de slots' });
+        return;
+    }
+    shop.forEach((slot, i) =>
+        checkFields(slot, `${path}[${i}]`, {
+            id: [isInt, 'un id entero'],
+            nombre: [isStr, 'un texto'],
+            tier: [isStr, 'un texto'],
+            precio: [isNum, 'un número'],
+            regiones: [isStrArray, 'una lista de textos'],
+        }, issues)
+    );
+}
+
+// Parche del diario de deshacer (ver undoJournal.ts)
+function checkPatch(patch: unknown, path: string, issues: ValidationIssue[]): void {
+    if (!isObject(patch)) {
+        issues.push({ path, message: 'se esperaba un objeto' });
+        return;
+    }
+    if (patch.values !== undefined && !isObject(patch.values)) {
+        issues.push({ path: `${path}.values`, message: 'se esperaba un objeto' });
+    }
+    for (const key of ['visitedRegions', 'shop', 'purchases', 'reservations'] as const) {
+        if (patch[key] === undefined) continue;
+        checkFields(patch[key], `${path}.${key}`, {
+            index: [isInt, 'un entero'],
+            remove: [isInt, 'un entero'],
+            insert: [Array.isArray, 'una lista'],
+        }, issues);
+    }
+    if (patch.shopByIndex !== undefined) {
+        if (!isObject(patch.shopByIndex)) {
+            issues.push({ path: `${path}.shopByIndex`, message: 'se esperaba un objeto' });
+        } else {
+            for (const [key, shopPatch] of Object.entries(patch.shopByIndex)) {
+                if (shopPatch === null) continue;
+                checkFields(shopPatch, `${path}.shopByIndex.${key}`, {
+                    index: [isInt, 'un entero'],
+                    remove: [isInt, 'un entero'],
+                    insert: [Array.isArray, 'una lista'],
+                }, issues);
+            }
+        }
+    }
+    if (patch.rerollsUsedBy !== undefined && !isCounterMap(patch.rerollsUsedBy)) {
+        issues.push({ path: `${path}.rerollsUsedBy`, message: 'se esperaba un objeto de enteros >= 0' });
+    }
+}
+
+function checkList(
+    list: unknown,
+    path: string,
+    checkItem: (item: unknown, itemPath: string) => void,
+    issues: ValidationIssue[]
+): void {
+    if (!Array.isArray(list)) {
+        issues.push({ path, message: 'se esperaba una lista' });
+        return;
+    }
+    list.forEach((item, i) => checkItem(item, `${path}[${i}]`));
+}
+
+// Valida un save ya migrado. Devuelve la lista de campos corruptos (vacía si es válido)
+export function validateSaveData(raw: unknown): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const optionalNum = (v: unknown) => v === undefined || isNum(v);
+
+    checkFields(raw, '', {
+        version: [(v) => v === SAVE_VERSION, `la versión ${SAVE_VERSION}`],
+        profileId: [isStr, 'un texto'],
+        regions: [isStrArray, 'una lista de textos'],
+        currentRegionIndex: [isInt, 'un entero'],
+        selectedRegionIndex: [isInt, 'un entero'],
+        selectedShopIndex: [isInt, 'un entero'],
+        lastShopIndex: [isInt, 'un entero'],
+        visitedRegions: [isStrArray, 'una lista de textos'],
+        rerollsUsedGlobal: [(v) => isInt(v) && (v as number) >= 0, 'un entero >= 0'],
+        rerollsUsedBy: [(v) => v === undefined || isCounterMap(v), 'un objeto de enteros >= 0'],
+        runSeed: [optionalNum, 'un número'],
+        rngNonce: [optionalNum, 'un número'],
+        money: [isNum, 'un número'],
+        savedAt: [isStr, 'una fecha ISO'],
+    }, issues);
+    if (!isObject(raw)) return issues;
+
+    checkShop(raw.shop, 'shop', issues);
+
+    if (!isObject(raw.shopByIndex)) {
+        issues.push({ path: 'shopByIndex', message: 'se esperaba un objeto' });
+    } else {
+        for (const [key, shop] of Object.entries(raw.shopByIndex)) {
+            if (!/^-?\d+$/.test(key)) {
+                issues.push({ path: `shopByIndex.${key}`, message: 'la clave debe ser un índice entero' });
+            }
+            checkShop(shop, `shopByIndex.${key}`, issues);
+        }
+    }
+
+    checkList(raw.history, 'history', (item, path) =>
+        checkFields(item, path, {
+            id: [isStr, 'un texto'],
+            ts: [isStr, 'una fecha ISO'],
+            type: [isStr, 'un tipo de evento'],
+            message: [isStr, 'un texto'],
+            region: [(v) => v === undefined || isStr(v), 'un texto'],
+            money: [(v) => v === undefined || isNum(v), 'un número'],
+        }, issues), issues);
+
+    checkList(raw.purchases, 'purchases', (item, path) =>
+        checkFields(item, path, {
+            id: [isStr, 'un texto'],
+            ts: [isStr, 'una fecha ISO'],
+            region: [isStr, 'un texto'],
+            pokemonId: [isInt, 'un id entero'],
+            nombre: [isStr, 'un texto'],
+            tier: [isStr, 'un texto'],
+            precio: [isNum, 'un número'],
+            precioBase: [isNum, 'un número'],
+            soldAt: [(v) => v === undefined || isStr(v), 'una fecha ISO'],
+            refund: [(v) => v === undefined || isNum(v), 'un número'],
+        }, issues), issues);
+
+    checkList(raw.reservations, 'reservations', (item, path) =>
+        checkFields(item, path, {
+            id: [isStr, 'un texto'],
+            ts: [isStr, 'una fecha ISO'],
+            region: [isStr, 'un texto'],
+            pokemonId: [isInt, 'un id entero'],
+            nombre: [isStr, 'un texto'],
+            tier: [isStr, 'un texto'],
+            precio: [isNum, 'un número'],
+            precioBase: [isNum, 'un número'],
+            deposit: [isNum, 'un número'],
+            regionsLeft: [(v) => isInt(v) && (v as number) >= 0, 'un entero >= 0'],
+        }, issues), issues);
+
+    for (const key of ['undoStack', 'redoStack'] as const) {
+        checkList(raw[key], key, (item, path) => {
+            checkFields(item, path, {
+                id: [isStr, 'un texto'],
+                ts: [isStr, 'una fecha ISO'],
+                label: [isStr, 'un texto'],
+            }, issues);
+            if (!isObject(item)) return;
+            checkPatch(item.undo, `${path}.undo`, issues);
+            checkPatch(item.redo, `${path}.redo`, issues);
+        }, issues);
+    }
+
+    return issues;
+}
+
+// Convierte el contenido de save.sav en SaveData: parsea, migra y valida.
+// Lanza SaveDataError indicando el campo exacto si el archivo está corrupto.
+export function parseSaveData(content: string): SaveData {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch (err) {
+        throw new SaveDataError('El archivo de guardado no es JSON válido', [
+            { path: '(archivo)', message: err instanceof Error ? err.message : String(err) },
+        ]);
+    }
+
+    if (!isObject(parsed)) {
+        throw new SaveDataError('El archivo de guardado no contiene un objeto', [
+            { path: '(archivo)', message: 'se esperaba un objeto en la raíz' },
+        ]);
+    }
+
+    const migrated = migrateSaveData(parsed);
+    const issues = validateSaveData(migrated);
+    if (issues.length > 0) {
+        throw new SaveDataError(`El archivo de guardado tiene ${issues.length} campo(s) corrupto(s)`, issues);
+    }
+
+    return migrated as unknown as SaveData;
+}
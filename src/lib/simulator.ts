@@ -0,0 +1,138 @@
+import type { AppConfig, Pokemon } from '../types';
+import { computePrice } from './pricing';
+import { createRng, deriveSeed } from './random';
+import { buildShopWithReport, byRegion, rarityWeightOf, resolveRegionConfig } from './storeLogic';
+import { sortTiersDesc } from './tiers';
+
+// Probabilidad de que un pokémon concreto aparezca en una tienda
+export interface PokemonOdds {
+    id: number;
+    nombre: string;
+    tier: string;
+    weight: number; // rareza en la región (peso / pesoPorRegion, por defecto 1)
+    probability: number; // 0..1, tiendas en las que aparece al menos una vez
+}
+
+// Resultado de simular muchas tiendas de una región
+export interface RegionSimulation {
+    region: string;
+    runs: number; // tiendas generadas
+    poolSize: number; // pokémon de la región en los datos
+    shopSize: number; // tamaño efectivo (con regionOverrides)
+    tierDistribution: Record<string, number>; // media de slots por tier (solo pokémon reales)
+    pokemonOdds: PokemonOdds[]; // de más a menos probable
+    fallbackSlotRate: number; // fracción de slots cubiertos con un tier distinto al pedido
+    fallbackShopRate: number; // fracción de tiendas con al menos un slot de fallback
+    emptySlotRate: number; // fracción de slots vacíos (id = -1)
+    emptyShopRate: number; // fracción de tiendas con al menos un hueco
+    expectedCost: number; // coste medio de comprar la tienda entera (precio al entrar en la región)
+}
+
+export interface SimulationOptions {
+    runs?: number; // tiendas por región (por defecto 2000)
+    seed?: number; // semilla de la simulación: mismos parámetros → mismo resultado
+    regions?: string[]; // regiones a simular (por defecto config.regionsOrder)
+}
+
+const DEFAULT_RUNS = 2000;
+
+/**
+ * Genera `runs` tiendas de una región con buildShopForRegion (sin compras previas)
+ * y resume qué se puede esperar de la configuración.
+ */
+export function simulateRegion(
+    allPokemon: Pokemon[],
+    region: string,
+    config: AppConfig,
+    runs = DEFAULT_RUNS,
+    seed = 0
+): RegionSimulation {
+    const rng = createRng(deriveSeed(seed, 'simulate', region));
+    const noPurchases = new Set<number>();
+    const pool = allPokemon.filter((pokemon) => byRegion(pokemon, region));
+    // Precio de una partida recién empezada en la región: sin inflación ni saturación
+    const priceCtx = { region, visitedRegions: [region], purchases: [] };
+
+    const tierTotals: Record<string, number> = {};
+    const appearances = new Map<number, number>();
+    let fallbackSlots = 0;
+    let fallbackShops = 0;
+    let emptySlots = 0;
+    let emptyShops = 0;
+    let totalSlots = 0;
+    let totalCost = 0;
+
+    for (let run = 0; run < runs; run++) {
+        const { shop, requestedCounts } = buildShopWithReport(allPokemon, region, config, noPurchases, rng);
+        const realByTier: Record<string, number> = {};
+        const seen = new Set<number>();
+        let empty = 0;
+
+        for (const slot of shop) {
+            if (slot.id === -1) {
+                empty++;
+                continue;
+            }
+            const tier = slot.tier.toUpperCase();
+            realByTier[tier] = (realByTier[tier] || 0) + 1;
+            totalCost += computePrice(slot, config, priceCtx).final;
+            if (!seen.has(slot.id)) {
+                seen.add(slot.id);
+                appearances.set(slot.id, (appearances.get(slot.id) || 0) + 1);
+            }
+        }
+
+        // Un slot es de fallback si su tier tiene más pokémon de los que se pidieron
+        let fallback = 0;
+        for (const [tier, count] of Object.entries(realByTier)) {
+            tierTotals[tier] = (tierTotals[tier] || 0) + count;
+            fallback += Math.max(0, count - (requestedCounts[tier] || 0));
+        }
+
+        totalSlots += shop.length;
+        emptySlots += empty;
+        fallbackSlots += fallback;
+        if (empty > 0) emptyShops++;
+        if (fallback > 0) fallbackShops++;
+    }
+
+    const tierDistribution: Record<string, number> = {};
+    for (const tier of sortTiersDesc(Object.keys(tierTotals), config.tiers)) {
+        tierDistribution[tier] = runs > 0 ? tierTotals[tier] / runs : 0;
+    }
+
+    const pokemonOdds = pool
+        .filter((pokemon, i) => pool.findIndex((p) => p.id === pokemon.id) === i)
+        .map((pokemon) => ({
+            id: pokemon.id,
+            nombre: pokemon.nombre,
+            tier: pokemon.tier.toUpperCase(),
+            weight: rarityWeightOf(pokemon, region),
+            probability: runs > 0 ? (appearances.get(pokemon.id) || 0) / runs : 0,
+        }))
+        .sort((a, b) => b.probability - a.probability || a.nombre.localeCompare(b.nombre));
+
+    return {
+        region,
+        runs,
+        poolSize: pool.length,
+        shopSize: resolveRegionConfig(config, region).shopSize,
+        tierDistribution,
+        pokemonOdds,
+        fallbackSlotRate: totalSlots > 0 ? fallbackSlots / totalSlots : 0,
+        fallbackShopRate: runs > 0 ? fallbackShops / runs : 0,
+        emptySlotRate: totalSlots > 0 ? emptySlots / totalSlots : 0,
+        emptyShopRate: runs > 0 ? emptyShops / runs : 0,
+        expectedCost: runs > 0 ? totalCost / runs : 0,
+    };
+}
+
+// Simula todas las regiones (o las indicadas) con la misma configuración
+export function simulateShops(
+    allPokemon: Pokemon[],
+    config: AppConfig,
+    options: SimulationOptions = {}
+): RegionSimulation[] {
+    const { runs = DEFAULT_RUNS, seed = 0, regions = config.regionsOrder } = options;
+    return regions.map((region) => simulateRegion(allPokemon, region, config, runs, seed));
+}
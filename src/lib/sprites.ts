@@ -1,14 +1,25 @@
 import { convertFileSrc } from '@tauri-apps/api/core';
-import { join } from '@tauri-apps/api/path';
-import { exists, mkdir, writeTextFile } from '@tauri-apps/plugin-fs';
 import { openPath } from '@tauri-apps/plugin-opener';
 import { getCurrentProfile, getProfileDir } from './profileManager';
+import { exists, getStorage, join, mkdir, readFile, writeTextFile } from './storage';
 
 export const SPRITES_DIRNAME = 'sprites';
 
-const isTauri =
-    typeof window !== 'undefined' &&
-    ('__TAURI_INTERNALS__' in window || '__TAURI__' in window);
+// URLs blob: de los sprites guardados en el navegador, para no crear una nueva en cada render
+const blobUrls = new Map<string, string>();
+
+// URL para <img> de un sprite del perfil: asset://... en Tauri, blob: en el navegador
+async function spriteFileUrl(path: string): Promise<string> {
+    if (getStorage().kind === 'tauri') {
+        // Requiere assetProtocol.enable + scope
+        return convertFileSrc(path);
+    }
+    const cached = blobUrls.get(path);
+    if (cached) return cached;
+    const url = URL.createObjectURL(new Blob([new Uint8Array(await readFile(path))], { type: 'image/png' }));
+    blobUrls.set(path, url);
+    return url;
+}
 
 export async function ensureSpritesDir(): Promise<string> {
     console.log(`[Sprites] ensureSpritesDir called`);
@@ -47,9 +58,9 @@ export async function ensureSpritesDir(): Promise<string> {
     return spritesDir;
 }
 
-/** Abre la carpeta de sprites del usuario */
+/** Abre la carpeta de sprites del usuario (solo en la app de escritorio) */
 export async function openSpritesFolder(): Promise<void> {
-    if (!isTauri) return;
+    if (getStorage().kind !== 'tauri') return;
     const spritesDir = await ensureSpritesDir();
     await openPath(spritesDir);
 }
@@ -72,27 +83,24 @@ export async function resolveSpriteUrl(
     console.log(`[Sprites] Looking for sprite candidates: ${plain}, ${padded}`);
 
     // 1) Custom (carpeta de configuración del usuario)
-    if (isTauri) {
-        try {
-            const spritesDir = await ensureSpritesDir();
-            console.log(`[Sprites] Checking custom sprites in: ${spritesDir}`);
+    try {
+        const spritesDir = await ensureSpritesDir();
+        console.log(`[Sprites] Checking custom sprites in: ${spritesDir}`);
 
-            for (const name of [plain, padded]) {
-                const full = await join(spritesDir, name);
-                // 👇 algunos entornos necesitan permiso explícito para exists/read en $APPCONFIG/**
-                // si no, lanzará "forbidden path"
-                const ok = await exists(full).catch(() => false);
-                console.log(`[Sprites] Checking ${full}: ${ok ? 'found' : 'not found'}`);
-                if (ok) {
-                    // Para mostrar en <img>, convertir a asset://... (requiere assetProtocol.enable + scope)
-                    const url = convertFileSrc(full);
-                    console.log(`[Sprites] Using custom sprite: ${url}`);
-                    return url;
-                }
+        for (const name of [plain, padded]) {
+            const full = await join(spritesDir, name);
+            // 👇 algunos entornos necesitan permiso explícito para exists/read en $APPCONFIG/**
+            // si no, lanzará "forbidden path"
+            const ok = await exists(full).catch(() => false);
+            console.log(`[Sprites] Checking ${full}: ${ok ? 'found' : 'not found'}`);
+            if (ok) {
+                const url = await spriteFileUrl(full);
+                console.log(`[Sprites] Using custom sprite: ${url}`);
+                return url;
             }
-        } catch (err) {
-            console.warn(`[Sprites] Error checking custom sprites:`, err);
         }
+    } catch (err) {
+        console.warn(`[Sprites] Error checking custom sprites:`, err);
     }
 
     // 2) Por defecto (servidos desde /public)
@@ -0,0 +1,184 @@
+import type { HistoryEvent, PurchaseItem, TierDefinition } from '../types';
+import { localDay, readHistoryArchive } from './history';
+import { getProfiles } from './profileManager';
+import { loadSaveData } from './saveManager';
+import { tierPriority } from './tiers';
+
+// Estadísticas de compras y del historial, de un perfil o de varios
+
+// Datos de un perfil para las estadísticas (historial de más reciente a más antiguo, como en la tienda)
+export interface StatsSource {
+    profileId: string;
+    profileName: string;
+    regions: string[];
+    purchases: PurchaseItem[];
+    history: HistoryEvent[];
+}
+
+export interface StatRow {
+    key: string;
+    value: number;
+    count: number;
+}
+
+export interface SpeciesRow {
+    pokemonId: number;
+    nombre: string;
+    count: number;
+    spent: number;
+}
+
+// Saldo tras cada evento de un perfil, en orden cronológico
+export interface BalanceSeries {
+    profileName: string;
+    points: { ts: string; money: number }[];
+}
+
+export interface RunStats {
+    purchaseCount: number;
+    soldCount: number;
+    totalSpent: number;
+    totalRefunded: number;
+    spentByRegion: StatRow[];
+    spentByTier: StatRow[];
+    avgPriceByTier: StatRow[];
+    rerollsByRegion: StatRow[];
+    purchasesByDay: StatRow[]; // YYYY-MM-DD en orden cronológico
+    topSpecies: SpeciesRow[];
+    balance: BalanceSeries[];
+}
+
+const TOP_SPECIES = 10;
+const NO_REGION = 'Sin región';
+
+// Suma `value` al grupo `key` (y cuenta una aparición)
+function addTo(groups: Map<string, StatRow>, key: string, value: number): void {
+    const row = groups.get(key) ?? { key, value: 0, count: 0 };
+    row.value += value;
+    row.count++;
+    groups.set(key, row);
+}
+
+// Ordena las filas de región según regionsOrder (las desconocidas al final)
+function byRegionOrder(rows: StatRow[], regions: string[]): StatRow[] {
+    const position = (key: string) => {
+        const i = regions.indexOf(key);
+        return i < 0 ? regions.length : i;
+    };
+    return rows.sort((a, b) => position(a.key) - position(b.key) || a.key.localeCompare(b.key));
+}
+
+// Eventos (en orden cronológico) cuya acción sigue en vigor: sin los que se deshicieron y no se rehicieron.
+// Repite las pilas de deshacer/rehacer como la tienda; los eventos sin acción (antiguos o fallidos) se quedan
+function eventsInEffect(chronological: HistoryEvent[]): HistoryEvent[] {
+    const done: HistoryEvent[] = [];
+    let redo: HistoryEvent[] = [];
+    const kept: HistoryEvent[] = [];
+    for (const event of chronological) {
+        const action = event.meta;
+        if (!action) kept.push(event);
+        else if (action.type === 'undo') redo = [...done.splice(Math.max(0, done.length - action.count)), ...redo];
+        else if (action.type === 'redo') {
+            const next = redo.shift();
+            if (next) done.push(next);
+        } else {
+            done.push(event);
+            redo = [];
+        }
+    }
+    return [...kept, ...done];
+}
+
+// `tierDefs` (config.tiers) ordena las filas por tier
+export function computeRunStats(sources: StatsSource[], tierDefs?: TierDefinition[]): RunStats {
+    const spentByRegion = new Map<string, StatRow>();
+    const spentByTier = new Map<string, StatRow>();
+    const rerollsByRegion = new Map<string, StatRow>();
+    const purchasesByDay = new Map<string, StatRow>();
+    const species = new Map<number, SpeciesRow>();
+    const balance: BalanceSeries[] = [];
+    let soldCount = 0;
+    let totalSpent = 0;
+    let totalRefunded = 0;
+    const regions: string[] = [];
+
+    for (const source of sources) {
+        for (const region of source.regions) if (!regions.includes(region)) regions.push(region);
+
+        for (const p of source.purchases) {
+            totalSpent += p.precio;
+            if (p.soldAt) {
+                soldCount++;
+                totalRefunded += p.refund ?? 0;
+            }
+            addTo(spentByRegion, p.region, p.precio);
+            addTo(spentByTier, p.tier.toUpperCase(), p.precio);
+            addTo(purchasesByDay, localDay(p.ts), 1);
+
+            const row = species.get(p.pokemonId) ?? { pokemonId: p.pokemonId, nombre: p.nombre, count: 0, spent: 0 };
+            row.count++;
+            row.spent += p.precio;
+            species.set(p.pokemonId, row);
+        }
+
+        const chronological = [...source.history].reverse();
+        // Solo cuentan los rerolls que no se deshicieron
+        for (const event of eventsInEffect(chronological)) {
+            if (event.type === 'reroll') addTo(rerollsByRegion, event.region ?? NO_REGION, 1);
+        }
+        const points = chronological
+            .filter((event) => typeof event.money === 'number')
+            .map((event) => ({ ts: event.ts, money: event.money as number }));
+        if (points.length) balance.push({ profileName: source.profileName, points });
+    }
+
+    const byTier = (a: StatRow, b: StatRow) => tierPriority(b.key, tierDefs) - tierPriority(a.key, tierDefs);
+    return {
+        purchaseCount: sources.reduce((n, source) => n + source.purchases.length, 0),
+        soldCount,
+        totalSpent,
+        totalRefunded,
+        spentByRegion: byRegionOrder([...spentByRegion.values()], regions),
+        spentByTier: [...spentByTier.values()].sort(byTier),
+        avgPriceByTier: [...spentByTier.values()]
+            .map((row) => ({ key: row.key, value: Math.round(row.value / row.count), count: row.count }))
+            .sort(byTier),
+        rerollsByRegion: byRegionOrder([...rerollsByRegion.values()], regions),
+        purchasesByDay: [...purchasesByDay.values()].sort((a, b) => a.key.localeCompare(b.key)),
+        topSpecies: [...species.values()]
+            .sort((a, b) => b.count - a.count || b.spent - a.spent)
+            .slice(0, TOP_SPECIES),
+        balance,
+    };
+}
+
+/**
+ * Carga los datos de todos los perfiles desde sus save.sav (más el historial archivado).
+ * `current` sustituye al perfil activo para usar el estado en memoria en vez del último guardado.
+ * Los perfiles sin partida o con el guardado dañado se omiten.
+ */
+export async function loadAllProfileSources(current?: StatsSource): Promise<StatsSource[]> {
+    const { profiles } = await getProfiles();
+    const sources: StatsSource[] = [];
+    for (const profile of profiles) {
+        if (current && profile.id === current.profileId) {
+            sources.push(current);
+            continue;
+        }
+        try {
+            const save = await loadSaveData(profile.id);
+            if (!save) continue;
+            const archived = await readHistoryArchive(profile.id);
+            sources.push({
+                profileId: profile.id,
+                profileName: profile.name,
+                regions: save.regions ?? [],
+                purchases: save.purchases,
+                history: [...save.history, ...archived.reverse()],
+            });
+        } catch (err) {
+            console.warn(`[Stats] Skipping profile ${profile.name}:`, err);
+        }
+    }
+    return sources;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createBrowserStorage, createMemoryStorage, StorageError, type StorageBackend } from './storage';
+
+// localStorage mínimo para probar el backend de navegador fuera del navegador
+function fakeLocalStorage(): Storage {
+    const map = new Map<string, string>();
+    return {
+        get length() {
+            return map.size;
+        },
+        key: (i: number) => [...map.keys()][i] ?? null,
+        getItem: (key: string) => map.get(key) ?? null,
+        setItem: (key: string, value: string) => void map.set(key, value),
+        removeItem: (key: string) => void map.delete(key),
+        clear: () => map.clear(),
+    };
+}
+
+const backends: [string, () => StorageBackend][] = [
+    ['memoria', createMemoryStorage],
+    ['navegador', () => createBrowserStorage(fakeLocalStorage())],
+];
+
+describe.each(backends)('backend de %s', (_, create) => {
+    it('escribe, lee y añade al final de archivos de texto', async () => {
+        const fs = create();
+        const dir = await fs.join(await fs.appConfigDir(), 'perfil');
+        await fs.mkdir(dir, { recursive: true });
+        const path = await fs.join(dir, 'run.log');
+
+        await fs.writeTextFile(path, 'a\n');
+        await fs.writeTextFile(path, 'b\n', { append: true });
+        expect(await fs.readTextFile(path)).toBe('a\nb\n');
+        expect(await fs.exists(path)).toBe(true);
+    });
+
+    it('no escribe en un directorio que no existe', async () => {
+        const fs = create();
+        await expect(fs.writeTextFile('/config/falta/save.sav', '{}')).rejects.toBeInstanceOf(StorageError);
+        await expect(fs.readTextFile('/config/nada.json')).rejects.toBeInstanceOf(StorageError);
+    });
+
+    it('guarda archivos binarios sin alterarlos', async () => {
+        const fs = create();
+        await fs.mkdir('/config/sprites', { recursive: true });
+        const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+        await fs.writeFile('/config/sprites/1.png', bytes);
+        expect([...(await fs.readFile('/config/sprites/1.png'))]).toEqual([...bytes]);
+    });
+
+    it('lista, renombra, copia y borra directorios enteros', async () => {
+        const fs = create();
+        await fs.mkdir('/config/profiles/A/sprites', { recursive: true });
+        await fs.writeTextFile('/config/profiles/A/config.json', '{}');
+        await fs.writeTextFile('/config/profiles/A/sprites/LEEME.txt', 'hola');
+
+        const names = (await fs.readDir('/config/profiles/A')).map((e) => `${e.name}:${e.isDirectory}`).sort();
+        expect(names).toEqual(['config.json:false', 'sprites:true']);
+
+        await fs.rename('/config/profiles/A', '/config/profiles/B');
+        expect(await fs.exists('/config/profiles/A')).toBe(false);
+        expect(await fs.readTextFile('/config/profiles/B/sprites/LEEME.txt')).toBe('hola');
+
+        await fs.copyFile('/config/profiles/B/config.json', '/config/profiles/copia.json');
+        expect(await fs.readTextFile('/config/profiles/copia.json')).toBe('{}');
+
+        await expect(fs.remove('/config/profiles/B')).rejects.toBeInstanceOf(StorageError);
+        await fs.remove('/config/profiles/B', { recursive: true });
+        expect(await fs.exists('/config/profiles/B/config.json')).toBe(false);
+        expect((await fs.readDir('/config/profiles')).map((e) => e.name)).toEqual(['copia.json']);
+    });
+});
+
+it('el backend de navegador persiste entre instancias sobre el mismo localStorage', async () => {
+    const local = fakeLocalStorage();
+    const first = createBrowserStorage(local);
+    await first.mkdir('/config/profiles', { recursive: true });
+    await first.writeTextFile('/config/profiles.json', '{"profiles":[]}');
+
+    const second = createBrowserStorage(local);
+    expect(await second.readTextFile('/config/profiles.json')).toBe('{"profiles":[]}');
+    expect(await second.exists('/config/profiles')).toBe(true);
+});
@@ -0,0 +1,301 @@
+import { appConfigDir as tauriAppConfigDir, join as tauriJoin } from '@tauri-apps/api/path';
+import * as tauriFs from '@tauri-apps/plugin-fs';
+
+// Almacenamiento de perfiles, partidas y config: el sistema de archivos de Tauri en la app de escritorio,
+// localStorage en el navegador (vite dev / vite preview) y memoria en los tests.
+// Todas las rutas son absolutas dentro de appConfigDir() y se construyen con join()
+
+export interface StorageEntry {
+    name: string;
+    isFile: boolean;
+    isDirectory: boolean;
+}
+
+export interface StorageBackend {
+    kind: 'tauri' | 'browser' | 'memory';
+    appConfigDir(): Promise<string>;
+    join(...parts: string[]): Promise<string>;
+    exists(path: string): Promise<boolean>;
+    mkdir(path: string, options?: { recursive?: boolean }): Promise<void>;
+    readDir(path: string): Promise<StorageEntry[]>;
+    readTextFile(path: string): Promise<string>;
+    writeTextFile(path: string, content: string, options?: { append?: boolean }): Promise<void>;
+    readFile(path: string): Promise<Uint8Array>;
+    writeFile(path: string, data: Uint8Array): Promise<void>;
+    // Borra un archivo o un directorio con todo su contenido
+    remove(path: string, options?: { recursive?: boolean }): Promise<void>;
+    rename(from: string, to: string): Promise<void>;
+    copyFile(from: string, to: string): Promise<void>;
+}
+
+export class StorageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StorageError';
+    }
+}
+
+const isTauri = typeof window !== 'undefined' && ('__TAURI_INTERNALS__' in window || '__TAURI__' in window);
+
+export const tauriStorage: StorageBackend = {
+    kind: 'tauri',
+    appConfigDir: () => tauriAppConfigDir(),
+    join: (...parts) => tauriJoin(...parts),
+    exists: (path) => tauriFs.exists(path),
+    mkdir: (path, options) => tauriFs.mkdir(path, options),
+    readDir: async (path) =>
+        (await tauriFs.readDir(path)).map((e) => ({ name: e.name, isFile: e.isFile, isDirectory: e.isDirectory })),
+    readTextFile: (path) => tauriFs.readTextFile(path),
+    writeTextFile: (path, content, options) => tauriFs.writeTextFile(path, content, options),
+    readFile: (path) => tauriFs.readFile(path),
+    writeFile: (path, data) => tauriFs.writeFile(path, data),
+    remove: (path, options) => tauriFs.remove(path, options),
+    rename: (from, to) => tauriFs.rename(from, to),
+    copyFile: (from, to) => tauriFs.copyFile(from, to),
+};
+
+// Almacén clave-valor sobre el que se montan los backends de memoria y de navegador
+interface KeyValueStore {
+    get(key: string): string | null;
+    set(key: string, value: string): void;
+    delete(key: string): void;
+    keys(): string[];
+}
+
+// Prefijos de clave: texto, binario (base64) y directorios
+const TEXT = 'f:';
+const BINARY = 'b:';
+const DIR = 'd:';
+const ROOT = '/config';
+
+function normalize(path: string): string {
+    const parts: string[] = [];
+    for (const part of path.split('/')) {
+        if (!part || part === '.') continue;
+        if (part === '..') parts.pop();
+        else parts.push(part);
+    }
+    return `/${parts.join('/')}`;
+}
+
+const parentOf = (path: string) => path.slice(0, path.lastIndexOf('/')) || '/';
+const nameOf = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+const isInside = (path: string, dir: string) => path === dir || path.startsWith(dir === '/' ? '/' : `${dir}/`);
+
+function toBase64(data: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < data.length; i += 0x8000) {
+        binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+    const binary = atob(text);
+    const data = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+    return data;
+}
+
+function createKeyValueStorage(kind: 'browser' | 'memory', kv: KeyValueStore): StorageBackend {
+    const isDir = (path: string) => path === '/' || kv.get(DIR + path) !== null;
+
+    const ensureDir = (path: string) => {
+        for (let dir = path; dir !== '/'; dir = parentOf(dir)) {
+            if (isDir(dir)) break;
+            kv.set(DIR + dir, '');
+        }
+    };
+
+    const requireParent = (path: string) => {
+        if (!isDir(parentOf(path))) throw new StorageError(`No existe el directorio ${parentOf(path)}`);
+    };
+
+    const isFile = (path: string) => kv.get(TEXT + path) !== null || kv.get(BINARY + path) !== null;
+
+    const readText = (path: string): string => {
+        const text = kv.get(TEXT + path);
+        if (text !== null) return text;
+        const binary = kv.get(BINARY + path);
+        if (binary !== null) return new TextDecoder().decode(fromBase64(binary));
+        throw new StorageError(`No existe el archivo ${path}`);
+    };
+
+    const readBinary = (path: string): Uint8Array => {
+        const binary = kv.get(BINARY + path);
+        if (binary !== null) return fromBase64(binary);
+        return new TextEncoder().encode(readText(path));
+    };
+
+    // Claves (con prefijo) de todo lo que cuelga de path, incluido path
+    const keysUnder = (path: string) =>
+        kv.keys().filter((key) => [TEXT, BINARY, DIR].some((p) => key.startsWith(p) && isInside(key.slice(p.length), path)));
+
+    return {
+        kind,
+        appConfigDir: async () => {
+            ensureDir(ROOT);
+            return ROOT;
+        },
+        join: async (...parts) => normalize(parts.join('/')),
+        exists: async (path) => {
+            const p = normalize(path);
+            return isDir(p) || isFile(p);
+        },
+        mkdir: async (path, options) => {
+            const p = normalize(path);
+            if (!options?.recursive) requireParent(p);
+            ensureDir(p);
+        },
+        readDir: async (path) => {
+            const p = normalize(path);
+            if (!isDir(p)) throw new StorageError(`No existe el directorio ${p}`);
+            const entries = new Map<string, StorageEntry>();
+            for (const key of kv.keys()) {
+                const prefix = [TEXT, BINARY, DIR].find((pre) => key.startsWith(pre));
+                if (!prefix) continue;
+                const child = key.slice(prefix.length);
+                if (child === p || parentOf(child) !== p) continue;
+                const isDirectory = prefix === DIR;
+                entries.set(nameOf(child), { name: nameOf(child), isFile: !isDirectory, isDirectory });
+            }
+            return [...entries.values()];
+        },
+        readTextFile: async (path) => readText(normalize(path)),
+        writeTextFile: async (path, content, options) => {
+            const p = normalize(path);
+            requireParent(p);
+            const previous = options?.append && isFile(p) ? readText(p) : '';
+            kv.delete(BINARY + p);
+            kv.set(TEXT + p, previous + content);
+        },
+        readFile: async (path) => readBinary(normalize(path)),
+        writeFile: async (path, data) => {
+            const p = normalize(path);
+            requireParent(p);
+            kv.delete(TEXT + p);
+            kv.set(BINARY + p, toBase64(data));
+        },
+        remove: async (path, options) => {
+            const p = normalize(path);
+            const keys = keysUnder(p);
+            if (!keys.length) throw new StorageError(`No existe ${p}`);
+            if (isDir(p) && keys.length > 1 && !options?.recursive) {
+                throw new StorageError(`El directorio ${p} no está vacío`);
+            }
+            for (const key of keys) kv.delete(key);
+        },
+        rename: async (from, to) => {
+            const src = normalize(from);
+            const dst = normalize(to);
+            requireParent(dst);
+            const keys = keysUnder(src);
+            if (!keys.length) throw new StorageError(`No existe ${src}`);
+            // Como rename del sistema de archivos: un archivo sustituye al destino
+            kv.delete(TEXT + dst);
+            kv.delete(BINARY + dst);
+            for (const key of keys) {
+                const prefix = key.slice(0, 2);
+                const value = kv.get(key) as string;
+                kv.delete(key);
+                kv.set(prefix + dst + key.slice(2 + src.length), value);
+            }
+        },
+        copyFile: async (from, to) => {
+            const src = normalize(from);
+            const dst = normalize(to);
+            requireParent(dst);
+            const text = kv.get(TEXT + src);
+            const binary = kv.get(BINARY + src);
+            if (text === null && binary === null) throw new StorageError(`No existe el archivo ${src}`);
+            kv.delete(TEXT + dst);
+            kv.delete(BINARY + dst);
+            if (text !== null) kv.set(TEXT + dst, text);
+            else kv.set(BINARY + dst, binary as string);
+        },
+    };
+}
+
+// Backend en memoria: cada llamada crea un sistema de archivos vacío (tests, CLI)
+export function createMemoryStorage(): StorageBackend {
+    const map = new Map<string, string>();
+    return createKeyValueStorage('memory', {
+        get: (key) => map.get(key) ?? null,
+        set: (key, value) => void map.set(key, value),
+        delete: (key) => void map.delete(key),
+        keys: () => [...map.keys()],
+    });
+}
+
+// Backend de navegador: cada archivo es una entrada de localStorage con este prefijo
+const BROWSER_PREFIX = 'pokemon-shop:';
+
+export function createBrowserStorage(storage: Storage = window.localStorage): StorageBackend {
+    return createKeyValueStorage('browser', {
+        get: (key) => storage.getItem(BROWSER_PREFIX + key),
+        set: (key, value) => {
+            try {
+                storage.setItem(BROWSER_PREFIX + key, value);
+            } catch (err) {
+                throw new StorageError(`No hay espacio en el almacenamiento del navegador: ${String(err)}`);
+            }
+        },
+        delete: (key) => storage.removeItem(BROWSER_PREFIX + key),
+        keys: () => {
+            const keys: string[] = [];
+            for (let i = 0; i < storage.length; i++) {
+                const key = storage.key(i);
+                if (key?.startsWith(BROWSER_PREFIX)) keys.push(key.slice(BROWSER_PREFIX.length));
+            }
+            return keys;
+        },
+    });
+}
+
+function defaultStorage(): StorageBackend {
+    if (isTauri) return tauriStorage;
+    if (typeof window !== 'undefined' && window.localStorage) return createBrowserStorage();
+    return createMemoryStorage();
+}
+
+let current: StorageBackend | null = null;
+
+// Backend activo. Se elige en la primera llamada según el entorno
+export function getStorage(): StorageBackend {
+    if (!current) {
+        current = defaultStorage();
+        console.log(`[Storage] Using ${current.kind} storage`);
+    }
+    return current;
+}
+
+// Cambia el backend activo (tests, o para forzar otro almacenamiento)
+export function setStorage(backend: StorageBackend): void {
+    current = backend;
+    console.log(`[Storage] Using ${backend.kind} storage`);
+}
+
+// Descarga un archivo desde el navegador: los archivos de localStorage no se pueden abrir desde fuera
+export function downloadTextFile(fileName: string, content: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// Atajos sobre el backend activo, con la misma forma que @tauri-apps/plugin-fs y @tauri-apps/api/path
+export const appConfigDir = () => getStorage().appConfigDir();
+export const join = (...parts: string[]) => getStorage().join(...parts);
+export const exists = (path: string) => getStorage().exists(path);
+export const mkdir = (path: string, options?: { recursive?: boolean }) => getStorage().mkdir(path, options);
+export const readDir = (path: string) => getStorage().readDir(path);
+export const readTextFile = (path: string) => getStorage().readTextFile(path);
+export const writeTextFile = (path: string, content: string, options?: { append?: boolean }) =>
+    getStorage().writeTextFile(path, content, options);
+export const readFile = (path: string) => getStorage().readFile(path);
+export const writeFile = (path: string, data: Uint8Array) => getStorage().writeFile(path, data);
+export const remove = (path: string, options?: { recursive?: boolean }) => getStorage().remove(path, options);
+export const rename = (from: string, to: string) => getStorage().rename(from, to);
+export const copyFile = (from: string, to: string) => getStorage().copyFile(from, to);
@@ -0,0 +1,627 @@
+import fc from 'fast-check';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AppConfig, Pokemon } from '../types';
+import { DEFAULT_CONFIG } from './defaults';
+import { createRng } from './random';
+import { simulateRegion } from './simulator';
+import {
+    buildShopForRegion,
+    buildShopWithReport,
+    computeTierCounts,
+    fallbackChainFor,
+    findFallbackTiers,
+    findRerollCandidate,
+    normalizeQuota,
+    rarityWeightOf,
+    wouldRerollCauseTierDowngrade,
+} from './storeLogic';
+
+// buildShopForRegion escribe su traza con console.log
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+const TIERS = ['S', 'A', 'B', 'C'] as const;
+
+const config = (overrides: Partial<AppConfig> = {}): AppConfig => ({ ...DEFAULT_CONFIG, ...overrides });
+
+const mon = (id: number, tier: string, regiones = ['Kanto']): Pokemon => ({
+    id,
+    nombre: `P${id}`,
+    tier,
+    precio: 100,
+    regiones,
+});
+
+// Catálogo fijo: 5 pokémon de cada tier en Kanto (ids S=1xx, A=2xx, B=3xx, C=4xx)
+const CATALOGUE: Pokemon[] = TIERS.flatMap((tier, t) =>
+    Array.from({ length: 5 }, (_, i) => mon((t + 1) * 100 + i, tier))
+);
+
+const realSlots = (shop: Pokemon[]) => shop.filter((p) => p.id !== -1);
+const countByTier = (shop: Pokemon[]) =>
+    realSlots(shop).reduce<Record<string, number>>((acc, p) => {
+        acc[p.tier] = (acc[p.tier] || 0) + 1;
+        return acc;
+    }, {});
+
+describe('normalizeQuota', () => {
+    it('devuelve la cuota tal cual si ya suma el tamaño de la tienda', () => {
+        expect(normalizeQuota({ S: 1, A: 2, B: 3, C: 4 }, 10)).toEqual({ S: 1, A: 2, B: 3, C: 4 });
+    });
+
+    it('pasa los tiers a mayúsculas y los valores a enteros >= 0', () => {
+        expect(normalizeQuota({ s: 1.7, c: -2, b: 8 }, 10)).toEqual({ S: 1, B: 8, C: 1 });
+    });
+
+    it('añade el déficit al tier de menor prioridad', () => {
+        expect(normalizeQuota({ S: 1, A: 1, C: 1 }, 6)).toEqual({ S: 1, A: 1, C: 4 });
+    });
+
+    it('recorta el exceso empezando por los tiers de menor prioridad', () => {
+        expect(normalizeQuota({ S: 2, A: 2, B: 2, C: 2 }, 5)).toEqual({ S: 2, A: 2, B: 1 });
+    });
+
+    it('sin cuotas, toda la tienda es de tier C', () => {
+        expect(normalizeQuota({}, 8)).toEqual({ C: 8 });
+    });
+
+    it('siempre suma el tamaño de la tienda', () => {
+        fc.assert(
+            fc.property(
+                fc.dictionary(fc.constantFrom(...TIERS), fc.integer({ min: 0, max: 20 }), { minKeys: 1 }),
+                fc.integer({ min: 1, max: 30 }),
+                (quota, shopSize) => {
+                    const result = normalizeQuota(quota, shopSize);
+                    expect(Object.values(result).reduce((a, b) => a + b, 0)).toBe(shopSize);
+                    expect(Object.values(result).every((n) => Number.isInteger(n) && n >= 0)).toBe(true);
+                }
+            )
+        );
+    });
+});
+
+describe('computeTierCounts', () => {
+    it('respeta los mínimos y reparte el resto según los pesos', () => {
+        const counts = computeTierCounts(10, { S: 1, A: 2 }, { C: 1, B: 0, A: 0, S: 0 }, createRng(1));
+        expect(counts).toEqual({ S: 1, A: 2, C: 7 });
+    });
+
+    it('con todos los pesos a 0 rellena con el tier de mayor prioridad', () => {
+        const counts = computeTierCounts(4, {}, { C: 0, S: 0 }, createRng(1));
+        expect(counts).toEqual({ S: 4 });
+    });
+
+    it('es determinista con la misma semilla', () => {
+        const weights = { C: 40, B: 30, A: 20, S: 10 };
+        expect(computeTierCounts(10, { S: 1 }, weights, createRng(42))).toEqual(
+            computeTierCounts(10, { S: 1 }, weights, createRng(42))
+        );
+    });
+
+    it('recorta los mínimos que no caben empezando por los tiers de menor prioridad', () => {
+        expect(computeTierCounts(3, { S: 1, A: 1, B: 1, C: 2 }, { C: 40 }, createRng(1))).toEqual({ S: 1, A: 1, B: 1 });
+    });
+
+    it('suma el tamaño de la tienda y respeta los mínimos que caben', () => {
+        fc.assert(
+            fc.property(
+                fc.integer({ min: 1, max: 20 }),
+                fc.dictionary(fc.constantFrom(...TIERS), fc.integer({ min: 0, max: 5 })),
+                fc.dictionary(fc.constantFrom(...TIERS), fc.integer({ min: 1, max: 100 }), { minKeys: 1 }),
+                fc.integer(),
+                (shopSize, minQuota, weights, seed) => {
+                    const counts = computeTierCounts(shopSize, minQuota, weights, createRng(seed));
+                    const guaranteed = Object.values(minQuota).reduce((a, b) => a + b, 0);
+                    const total = Object.values(counts).reduce((a, b) => a + b, 0);
+                    expect(total).toBe(shopSize);
+                    if (guaranteed <= shopSize) {
+                        for (const [tier, min] of Object.entries(minQuota)) {
+                            expect(counts[tier] ?? 0).toBeGreaterThanOrEqual(min);
+                        }
+                    }
+                }
+            )
+        );
+    });
+});
+
+describe('findFallbackTiers', () => {
+    const weights = { C: 40, B: 30, A: 20, S: 10 };
+
+    it('prueba primero los tiers inferiores (de mayor a menor) y luego los superiores', () => {
+        expect(findFallbackTiers('A', weights)).toEqual(['B', 'C', 'S']);
+        expect(findFallbackTiers('B', weights)).toEqual(['C', 'A', 'S']);
+    });
+
+    it('desde el tier más bajo solo sube', () => {
+        expect(findFallbackTiers('C', weights)).toEqual(['B', 'A', 'S']);
+    });
+
+    it('no incluye el tier original aunque venga en minúsculas', () => {
+        expect(findFallbackTiers('s', weights)).toEqual(['A', 'B', 'C']);
+    });
+
+    it('solo usa los tiers de la configuración', () => {
+        expect(findFallbackTiers('A', { S: 10, D: 5 })).toEqual(['D', 'S']);
+    });
+});
+
+describe('cadenas de fallback (tierFallbackChain)', () => {
+    const weights = { C: 40, B: 30, A: 20, S: 10 };
+    const noS = CATALOGUE.filter((p) => p.tier !== 'S');
+
+    it('usa la cadena del tier si la tiene y la búsqueda automática si no', () => {
+        const cfg = config({ tierFallbackChain: { s: ['b', 'A', 'S'], C: [] } });
+        expect(fallbackChainFor(cfg, 'S', weights)).toEqual(['B', 'A']);
+        expect(fallbackChainFor(cfg, 'C', weights)).toEqual([]);
+        expect(fallbackChainFor(cfg, 'A', weights)).toEqual(['B', 'C', 'S']);
+    });
+
+    it('tierFallbackNoUpgrade quita los tiers mejores que el original', () => {
+        const cfg = config({ tierFallbackNoUpgrade: true, tierFallbackChain: { B: ['S', 'C'] } });
+        expect(fallbackChainFor(cfg, 'A', weights)).toEqual(['B', 'C']);
+        expect(fallbackChainFor(cfg, 'B', weights)).toEqual(['C']);
+        expect(fallbackChainFor(cfg, 'C', weights)).toEqual([]);
+    });
+
+    it('la tienda sigue la cadena y guarda el tier pedido en el slot', () => {
+        const shop = buildShopForRegion(
+            noS,
+            'Kanto',
+            config({ shopSize: 2, quota: { S: 2 }, tierFallbackChain: { S: ['B'] } }),
+            new Set(),
+            createRng(1)
+        );
+        expect(shop.map((p) => [p.tier, p.__fallbackFrom])).toEqual([
+            ['B', 'S'],
+            ['B', 'S'],
+        ]);
+    });
+
+    it('una cadena vacía deja huecos en lugar de sustituir', () => {
+        const shop = buildShopForRegion(
+            noS,
+            'Kanto',
+            config({ shopSize: 2, quota: { S: 2 }, tierFallbackChain: { S: [] } }),
+            new Set(),
+            createRng(1)
+        );
+        expect(shop.every((p) => p.id === -1 && p.tier === 'S' && !p.__fallbackFrom)).toBe(true);
+    });
+
+    it('la cadena de regionOverrides sustituye a la global', () => {
+        const cfg = config({
+            shopSize: 1,
+            quota: { S: 1 },
+            tierFallbackChain: { S: ['A'] },
+            regionOverrides: { Kanto: { tierFallbackChain: { S: ['C'] } } },
+        });
+        const johto = noS.map((p) => ({ ...p, regiones: ['Johto'] }));
+        expect(buildShopForRegion(noS, 'Kanto', cfg, new Set(), createRng(1))[0].tier).toBe('C');
+        expect(buildShopForRegion(johto, 'Johto', cfg, new Set(), createRng(1))[0].tier).toBe('A');
+    });
+
+    it('el reroll marca el fallback y sin subir de tier puede quedarse sin candidato', () => {
+        const allA = new Set([200, 201, 202, 203, 204]);
+        const candidate = findRerollCandidate(CATALOGUE, 'Kanto', 'A', allA, new Set(), null, config(), createRng(1));
+        expect(candidate).toMatchObject({ tier: 'B', __fallbackFrom: 'A' });
+        // Igual que en la generación, el tier pedido se guarda en mayúsculas
+        const lower = findRerollCandidate(CATALOGUE, 'Kanto', 'a', allA, new Set(), null, config(), createRng(1));
+        expect(lower?.__fallbackFrom).toBe('A');
+
+        const onlyS = CATALOGUE.filter((p) => p.tier === 'S' || p.tier === 'C');
+        const allC = new Set([400, 401, 402, 403, 404]);
+        const cfg = config({ tierFallbackNoUpgrade: true });
+        expect(findRerollCandidate(onlyS, 'Kanto', 'C', allC, new Set(), null, cfg, createRng(1))).toBeNull();
+        expect(findRerollCandidate(onlyS, 'Kanto', 'C', allC, new Set(), null, config(), createRng(1))?.tier).toBe('S');
+    });
+});
+
+describe('rareza dentro del tier (peso)', () => {
+    // Un slot de tier C con dos candidatos: uno común (peso 9) y otro raro (peso 1)
+    const pikachu = { ...mon(25, 'C', ['Kanto', 'Sinnoh']), peso: 9, pesoPorRegion: { sinnoh: 1 } };
+    const data = [pikachu, { ...mon(26, 'C', ['Kanto', 'Sinnoh']), pesoPorRegion: { Sinnoh: 9 } }];
+    const cfg = config({ shopSize: 1, quota: { C: 1 } });
+    const pikachuRate = (region: string) => {
+        let hits = 0;
+        for (let seed = 0; seed < 1000; seed++) {
+            if (buildShopForRegion(data, region, cfg, new Set(), createRng(seed))[0].id === 25) hits++;
+        }
+        return hits / 1000;
+    };
+
+    it('rarityWeightOf usa el peso de la región, luego el peso y por defecto 1', () => {
+        expect(rarityWeightOf(pikachu, 'Kanto')).toBe(9);
+        expect(rarityWeightOf(pikachu, 'SINNOH')).toBe(1);
+        expect(rarityWeightOf(mon(1, 'C'), 'Kanto')).toBe(1);
+        expect(rarityWeightOf({ ...mon(1, 'C'), peso: 0 }, 'Kanto')).toBe(1);
+    });
+
+    it('la tienda elige dentro del tier según el peso y su ajuste por región', () => {
+        expect(pikachuRate('Kanto')).toBeGreaterThan(0.85);
+        expect(pikachuRate('Sinnoh')).toBeLessThan(0.15);
+    });
+
+    it('con todos los pesos iguales la tienda es la misma que sin pesos', () => {
+        const weighted = CATALOGUE.map((p) => ({ ...p, peso: 3 }));
+        for (let seed = 0; seed < 10; seed++) {
+            const ids = (catalogue: Pokemon[]) =>
+                buildShopForRegion(catalogue, 'Kanto', config(), new Set(), createRng(seed)).map((p) => p.id);
+            expect(ids(weighted)).toEqual(ids(CATALOGUE));
+        }
+    });
+
+    it('el reroll también elige según el peso', () => {
+        let hits = 0;
+        for (let seed = 0; seed < 1000; seed++) {
+            const candidate = findRerollCandidate(data, 'Kanto', 'C', new Set(), new Set(), null, cfg, createRng(seed));
+            if (candidate?.id === 25) hits++;
+        }
+        expect(hits / 1000).toBeGreaterThan(0.85);
+    });
+
+    it('el simulador refleja los pesos', () => {
+        const sim = simulateRegion(data, 'Kanto', cfg, 1000, 1);
+        expect(sim.pokemonOdds.map((odds) => [odds.id, odds.weight])).toEqual([
+            [25, 9],
+            [26, 1],
+        ]);
+        expect(sim.pokemonOdds[0].probability).toBeGreaterThan(0.85);
+    });
+});
+
+describe('tiers propios (config.tiers)', () => {
+    const tiers = [
+        { id: 'Legendary', rank: 30 },
+        { id: 'SS', rank: 20 },
+        { id: 'Common', rank: 10 },
+    ];
+    const data = [
+        ...Array.from({ length: 3 }, (_, i) => mon(10 + i, 'Legendary')),
+        ...Array.from({ length: 3 }, (_, i) => mon(20 + i, 'SS')),
+        ...Array.from({ length: 6 }, (_, i) => mon(30 + i, 'Common')),
+    ];
+
+    it('normalizeQuota recorta y completa según el rango', () => {
+        expect(normalizeQuota({ Legendary: 2, SS: 2, Common: 2 }, 5, tiers)).toEqual({ LEGENDARY: 2, SS: 2, COMMON: 1 });
+        expect(normalizeQuota({ Legendary: 1, SS: 1 }, 4, tiers)).toEqual({ LEGENDARY: 1, SS: 3 });
+    });
+
+    it('findFallbackTiers baja y sube por rango', () => {
+        const weights = { LEGENDARY: 1, SS: 1, COMMON: 1 };
+        expect(findFallbackTiers('SS', weights, tiers)).toEqual(['COMMON', 'LEGENDARY']);
+        expect(findFallbackTiers('Legendary', weights, tiers)).toEqual(['SS', 'COMMON']);
+    });
+
+    it('la tienda se ordena por rango y solo usa los tiers definidos', () => {
+        const shop = buildShopForRegion(
+            data,
+            'Kanto',
+            config({ tiers, shopSize: 6, quota: { Legendary: 1, SS: 1 }, tierWeights: { C: 40, Common: 1 } }),
+            new Set(),
+            createRng(4)
+        );
+        expect(shop).toHaveLength(6);
+        expect(shop.map((p) => p.tier)).toEqual(['Legendary', 'SS', 'Common', 'Common', 'Common', 'Common']);
+    });
+
+    it('el aviso de degradación compara rangos', () => {
+        const onlyCommon = data.filter((p) => p.tier !== 'SS');
+        const result = wouldRerollCauseTierDowngrade(
+            onlyCommon,
+            'Kanto',
+            'SS',
+            new Set(),
+            new Set(),
+            null,
+            config({ tiers, tierWeights: { Legendary: 1, SS: 1, Common: 1 } })
+        );
+        expect(result).toEqual({ wouldDowngrade: true, fallbackTier: 'COMMON' });
+    });
+});
+
+describe('buildShopForRegion', () => {
+    it('genera una tienda ordenada por tier con el tamaño configurado', () => {
+        const shop = buildShopForRegion(CATALOGUE, 'Kanto', config(), new Set(), createRng(7));
+        expect(shop).toHaveLength(DEFAULT_CONFIG.shopSize);
+        const priorities = shop.map((p) => TIERS.indexOf(p.tier as (typeof TIERS)[number]));
+        expect(priorities).toEqual([...priorities].sort((a, b) => a - b));
+    });
+
+    it('es determinista con la misma semilla', () => {
+        const ids = (seed: number) =>
+            buildShopForRegion(CATALOGUE, 'Kanto', config(), new Set(), createRng(seed)).map((p) => p.id);
+        expect(ids(3)).toEqual(ids(3));
+
+        // También los huecos son iguales (se guardan en save.sav y se comparan al repetir)
+        const withHoles = () =>
+            buildShopForRegion(
+                CATALOGUE.filter((p) => p.tier !== 'S'),
+                'Kanto',
+                config({ tierFallback: false, quota: { S: 2 } }),
+                new Set(),
+                createRng(3)
+            );
+        expect(withHoles()).toEqual(withHoles());
+    });
+
+    it('solo incluye pokémon de la región', () => {
+        const data = [...CATALOGUE, mon(900, 'S', ['Johto'])];
+        const shop = buildShopForRegion(data, 'Kanto', config(), new Set(), createRng(1));
+        expect(shop.some((p) => p.id === 900)).toBe(false);
+    });
+
+    it('sin fallback deja huecos cuando falta un tier', () => {
+        const data = CATALOGUE.filter((p) => p.tier !== 'S');
+        const shop = buildShopForRegion(
+            data,
+            'Kanto',
+            config({ tierFallback: false, quota: { S: 2 }, tierWeights: { C: 1, B: 0, A: 0, S: 0 } }),
+            new Set(),
+            createRng(1)
+        );
+        expect(shop.filter((p) => p.id === -1 && p.tier === 'S')).toHaveLength(2);
+    });
+
+    it('con fallback cubre un tier agotado con el siguiente inferior', () => {
+        const data = CATALOGUE.filter((p) => p.tier !== 'S');
+        const shop = buildShopForRegion(
+            data,
+            'Kanto',
+            config({ shopSize: 4, quota: { S: 1 }, tierWeights: { C: 1, B: 0, A: 0, S: 0 } }),
+            new Set(),
+            createRng(1)
+        );
+        expect(countByTier(shop)).toEqual({ A: 1, C: 3 });
+        expect(shop.every((p) => p.id !== -1)).toBe(true);
+    });
+
+    it('aplica los ajustes de regionOverrides', () => {
+        const shop = buildShopForRegion(
+            CATALOGUE,
+            'Kanto',
+            config({ regionOverrides: { kanto: { shopSize: 3, quota: { S: 3 } } } }),
+            new Set(),
+            createRng(1)
+        );
+        expect(countByTier(shop)).toEqual({ S: 3 });
+    });
+
+    it('si las cuotas no caben, la tienda mantiene shopSize', () => {
+        const shop = buildShopForRegion(
+            CATALOGUE,
+            'Kanto',
+            config({ regionOverrides: { kanto: { shopSize: 3 } } }),
+            new Set(),
+            createRng(1)
+        );
+        expect(countByTier(shop)).toEqual({ S: 1, A: 1, B: 1 });
+    });
+});
+
+describe('buildShopForRegion (propiedades)', () => {
+    // Catálogo aleatorio de una región, con ids únicos
+    const catalogueArb = fc
+        .uniqueArray(
+            fc.record({ id: fc.integer({ min: 1, max: 500 }), tier: fc.constantFrom(...TIERS) }),
+            { selector: (p) => p.id, minLength: 1, maxLength: 40 }
+        )
+        .map((entries) => entries.map((entry) => mon(entry.id, entry.tier)));
+
+    const configArb = fc.record({
+        shopSize: fc.integer({ min: 1, max: 15 }),
+        quota: fc.record({
+            S: fc.integer({ min: 0, max: 3 }),
+            A: fc.integer({ min: 0, max: 3 }),
+            B: fc.integer({ min: 0, max: 3 }),
+            C: fc.integer({ min: 0, max: 3 }),
+        }),
+        tierWeights: fc.record({
+            S: fc.integer({ min: 0, max: 50 }),
+            A: fc.integer({ min: 0, max: 50 }),
+            B: fc.integer({ min: 0, max: 50 }),
+            C: fc.integer({ min: 1, max: 50 }),
+        }),
+        allowDuplicates: fc.boolean(),
+        includePurchasedInRerollPool: fc.boolean(),
+        tierFallback: fc.boolean(),
+    });
+
+    // Catálogo, config, compras previas y semilla
+    const scenarioArb = fc
+        .tuple(catalogueArb, configArb, fc.integer())
+        .chain(([catalogue, cfg, seed]) =>
+            fc
+                .subarray(catalogue.map((p) => p.id))
+                .map((purchased) => ({ catalogue, cfg: config(cfg), purchased: new Set(purchased), seed }))
+        );
+
+    it('siempre tiene shopSize slots', () => {
+        fc.assert(
+            fc.property(scenarioArb, ({ catalogue, cfg, purchased, seed }) => {
+                const shop = buildShopForRegion(catalogue, 'Kanto', cfg, purchased, createRng(seed));
+                expect(shop).toHaveLength(cfg.shopSize);
+            })
+        );
+    });
+
+    it('sin allowDuplicates no repite pokémon', () => {
+        fc.assert(
+            fc.property(scenarioArb, ({ catalogue, cfg, purchased, seed }) => {
+                const shop = buildShopForRegion(
+                    catalogue,
+                    'Kanto',
+                    { ...cfg, allowDuplicates: false },
+                    purchased,
+                    createRng(seed)
+                );
+                const ids = realSlots(shop).map((p) => p.id);
+                expect(new Set(ids).size).toBe(ids.length);
+            })
+        );
+    });
+
+    it('sin includePurchasedInRerollPool no incluye pokémon comprados', () => {
+        fc.assert(
+            fc.property(scenarioArb, ({ catalogue, cfg, purchased, seed }) => {
+                const shop = buildShopForRegion(
+                    catalogue,
+                    'Kanto',
+                    { ...cfg, includePurchasedInRerollPool: false },
+                    purchased,
+                    createRng(seed)
+                );
+                expect(realSlots(shop).filter((p) => purchased.has(p.id))).toEqual([]);
+            })
+        );
+    });
+
+    it('cumple las cuotas mínimas cuando hay pokémon suficientes', () => {
+        fc.assert(
+            fc.property(scenarioArb, ({ catalogue, cfg, purchased, seed }) => {
+                const { shop, requestedCounts } = buildShopWithReport(
+                    catalogue,
+                    'Kanto',
+                    cfg,
+                    purchased,
+                    createRng(seed)
+                );
+                const available = (tier: string) =>
+                    catalogue.filter(
+                        (p) => p.tier === tier && (cfg.includePurchasedInRerollPool || !purchased.has(p.id))
+                    ).length;
+                // Las cuotas caben en la tienda y cada tier pedido tiene al menos tantos candidatos como slots
+                fc.pre(Object.values(cfg.quota).reduce((a, b) => a + b, 0) <= cfg.shopSize);
+                fc.pre(Object.entries(requestedCounts).every(([tier, count]) => available(tier) >= count));
+
+                const counts = countByTier(shop);
+                for (const [tier, min] of Object.entries(cfg.quota)) {
+                    expect(counts[tier] ?? 0).toBeGreaterThanOrEqual(min);
+                }
+            })
+        );
+    });
+});
+
+describe('findRerollCandidate', () => {
+    const cfg = config();
+
+    it('elige un pokémon del mismo tier que no esté en la tienda ni comprado', () => {
+        const used = new Set([200, 201]);
+        const purchased = new Set([202]);
+        for (let seed = 0; seed < 20; seed++) {
+            const candidate = findRerollCandidate(CATALOGUE, 'Kanto', 'A', used, purchased, 200, cfg, createRng(seed));
+            expect(candidate?.tier).toBe('A');
+            expect([203, 204]).toContain(candidate?.id);
+        }
+    });
+
+    it('no devuelve el pokémon que se está rerolleando', () => {
+        const candidate = findRerollCandidate(
+            [mon(1, 'C'), mon(2, 'C')],
+            'Kanto',
+            'C',
+            new Set(),
+            new Set(),
+            1,
+            cfg,
+            createRng(1)
+        );
+        expect(candidate?.id).toBe(2);
+    });
+
+    it('con fallback baja al siguiente tier cuando el suyo está agotado', () => {
+        const used = new Set([200, 201, 202, 203, 204]);
+        const candidate = findRerollCandidate(CATALOGUE, 'Kanto', 'A', used, new Set(), null, cfg, createRng(1));
+        expect(candidate?.tier).toBe('B');
+    });
+
+    it('sin fallback devuelve null si el tier está agotado', () => {
+        const used = new Set([200, 201, 202, 203, 204]);
+        const candidate = findRerollCandidate(
+            CATALOGUE,
+            'Kanto',
+            'A',
+            used,
+            new Set(),
+            null,
+            config({ tierFallback: false }),
+            createRng(1)
+        );
+        expect(candidate).toBeNull();
+    });
+
+    it('con includePurchasedInRerollPool puede volver a salir un comprado', () => {
+        const candidate = findRerollCandidate(
+            [mon(1, 'C'), mon(2, 'C')],
+            'Kanto',
+            'C',
+            new Set([1]),
+            new Set([2]),
+            1,
+            config({ includePurchasedInRerollPool: true }),
+            createRng(1)
+        );
+        expect(candidate?.id).toBe(2);
+    });
+});
+
+describe('wouldRerollCauseTierDowngrade', () => {
+    const cfg = config();
+    const allA = new Set([200, 201, 202, 203, 204]);
+
+    it('no hay degradación si quedan pokémon del mismo tier', () => {
+        expect(wouldRerollCauseTierDowngrade(CATALOGUE, 'Kanto', 'A', new Set([200]), new Set(), 200, cfg)).toEqual({
+            wouldDowngrade: false,
+        });
+    });
+
+    it('avisa cuando el reroll tendría que bajar de tier', () => {
+        expect(wouldRerollCauseTierDowngrade(CATALOGUE, 'Kanto', 'A', allA, new Set(), 200, cfg)).toEqual({
+            wouldDowngrade: true,
+            fallbackTier: 'B',
+        });
+    });
+
+    it('subir de tier no es una degradación', () => {
+        const allC = new Set([400, 401, 402, 403, 404]);
+        const data = CATALOGUE.filter((p) => p.tier !== 'B');
+        expect(wouldRerollCauseTierDowngrade(data, 'Kanto', 'C', allC, new Set(), 400, cfg)).toEqual({
+            wouldDowngrade: false,
+            fallbackTier: 'A',
+        });
+    });
+
+    it('sin fallback nunca avisa', () => {
+        expect(
+            wouldRerollCauseTierDowngrade(CATALOGUE, 'Kanto', 'A', allA, new Set(), 200, config({ tierFallback: false }))
+        ).toEqual({ wouldDowngrade: false });
+    });
+
+    it('coincide con el tier que elegiría findRerollCandidate', () => {
+        fc.assert(
+            fc.property(
+                fc.subarray(CATALOGUE.map((p) => p.id)),
+                fc.constantFrom(...TIERS),
+                fc.integer(),
+                (usedIds, tier, seed) => {
+                    const used = new Set(usedIds);
+                    const check = wouldRerollCauseTierDowngrade(CATALOGUE, 'Kanto', tier, used, new Set(), null, cfg);
+                    const candidate = findRerollCandidate(CATALOGUE, 'Kanto', tier, used, new Set(), null, cfg, createRng(seed));
+                    if (!candidate) {
+                        expect(check).toEqual({ wouldDowngrade: false });
+                    } else if (candidate.tier !== tier) {
+                        expect(check.fallbackTier).toBe(candidate.tier);
+                    } else {
+                        expect(check.wouldDowngrade).toBe(false);
+                    }
+                }
+            )
+        );
+    });
+});
@@ -1,5 +1,6 @@
-import type { AppConfig, Pokemon, Tier } from '../types';
-import { sampleWithoutReplacement } from './random';
+import type { AppConfig, Pokemon, PurchaseItem, RegionOverride, ShopPokemon, Tier, TierDefinition } from '../types';
+import { pickWeighted, weightedSampleWithoutReplacement, type Rng } from './random';
+import { findTierDefinition, sortTiersAsc, sortTiersDesc, tierKey, tierPriority } from './tiers';
 
 // ================= Utilidades Base =================
 
@@ -10,32 +11,65 @@ export function byRegion(pokemon: Pokemon, region: string): boolean {
         .includes(region.toLowerCase());
 }
 
-// Calcula la prioridad numérica de un tier (S=mayor, Z=menor)
-export function tierPriority(tier: string): number {
-    const upperTier = tier.toUpperCase();
-    if (upperTier === 'S') return 100;
+// Ids que cuentan como comprados para la tienda y los rerolls.
+// Los vendidos con returnedToPool dejan de contar y pueden volver a salir.
+export function purchasedIdsOf(purchases: PurchaseItem[]): Set<number> {
+    return new Set(purchases.filter((p) => !(p.soldAt && p.returnedToPool)).map((p) => p.pokemonId));
+}
+
+// Peso de un pokémon dentro de su tier en una región: pesoPorRegion[región], si no peso, y si no 1.
+// Los valores no válidos (no numéricos o <= 0) cuentan como 1
+export function rarityWeightOf(pokemon: Pokemon, region: string): number {
+    const byRegionWeights = pokemon.pesoPorRegion ?? {};
+    const key = Object.keys(byRegionWeights).find((name) => name.toLowerCase() === region.toLowerCase());
+    const weight = key === undefined ? pokemon.peso : byRegionWeights[key];
+    return typeof weight === 'number' && Number.isFinite(weight) && weight > 0 ? weight : 1;
+}
+
+// ================= Ajustes por Región =================
+
+// Busca los ajustes de una región en regionOverrides (sin distinguir mayúsculas)
+function findRegionOverride(config: AppConfig, region: string): RegionOverride | undefined {
+    const overrides = config.regionOverrides;
+    if (!overrides) return undefined;
+    const key = Object.keys(overrides).find((name) => name.toLowerCase() === region.toLowerCase());
+    return key === undefined ? undefined : overrides[key];
+}
 
-    const charCode = upperTier.charCodeAt(0);
-    if (charCode >= 65 && charCode <= 90) {
-        return 90 - (charCode - 65); // A=90, B=89, ..., Z=65
+// Configuración efectiva de una región: la global con los campos de regionOverrides sustituidos
+export function resolveRegionConfig(config: AppConfig, region: string): AppConfig {
+    const override = findRegionOverride(config, region);
+    if (!override) return config;
+
+    const { priceMultiplier: _priceMultiplier, ...fields } = override;
+    const resolved: AppConfig = { ...config };
+    for (const [key, value] of Object.entries(fields)) {
+        if (value !== undefined) (resolved as unknown as Record<string, unknown>)[key] = value;
     }
-    return 0;
+    return resolved;
 }
 
-// Ordena tiers de mayor a menor prioridad (S, A, B, C...)
-export const sortTiersDesc = (tiers: string[]) =>
-    [...tiers].sort((a, b) => tierPriority(b) - tierPriority(a));
+// Multiplicador de precio de una región (1 si no tiene). Lo aplica computePrice en pricing.ts
+export function regionPriceMultiplier(config: AppConfig, region: string): number {
+    const multiplier = findRegionOverride(config, region)?.priceMultiplier;
+    return typeof multiplier === 'number' && Number.isFinite(multiplier) && multiplier >= 0 ? multiplier : 1;
+}
 
-// Ordena tiers de menor a mayor prioridad (Z, Y, X... C, B, A, S)
-export const sortTiersAsc = (tiers: string[]) =>
-    [...tiers].sort((a, b) => tierPriority(a) - tierPriority(b));
+// Factor de variación de precio de un slot (pricing.variance, en %), o undefined si no hay variación.
+// Se tira al generar el slot, así el precio se mantiene mientras la tienda no cambie.
+function rollPriceVariance(config: AppConfig, rng: Rng): number | undefined {
+    const variance = Number(config.pricing?.variance) || 0;
+    if (variance <= 0) return undefined;
+    return 1 + ((rng() * 2 - 1) * Math.min(variance, 100)) / 100;
+}
 
 // ================= Normalización de Cuotas =================
 
 // Normaliza las cuotas de tier para ajustarse al tamaño de la tienda
 export function normalizeQuota(
     rawQuota: Record<string, number>,
-    shopSize: number
+    shopSize: number,
+    tierDefs?: TierDefinition[]
 ): Record<string, number> {
     // Normalizar claves y valores
     const quota: Record<string, number> = {};
@@ -55,7 +89,7 @@ export function normalizeQuota(
     if (totalAssigned > shopSize) {
         // Reducir cuotas empezando por los tiers de menor prioridad
         let excess = totalAssigned - shopSize;
-        for (const tier of sortTiersAsc(tiers)) {
+        for (const tier of sortTiersAsc(tiers, tierDefs)) {
             if (excess <= 0) break;
             const reduction = Math.min(excess, quota[tier]);
             quota[tier] -= reduction;
@@ -64,7 +98,7 @@ export function normalizeQuota(
     } else {
         // Añadir el déficit al tier de menor prioridad
         const deficit = shopSize - totalAssigned;
-        const lowestTier = sortTiersAsc(tiers)[0];
+        const lowestTier = sortTiersAsc(tiers, tierDefs)[0];
         quota[lowestTier] = (quota[lowestTier] || 0) + deficit;
     }
 
@@ -95,16 +129,21 @@ function normalizeMinQuota(
     return minQuota;
 }
 
-// Normaliza pesos de tier y garantiza valores válidos
+// Normaliza pesos de tier y garantiza valores válidos.
+// Con config.tiers solo cuentan los tiers definidos, y si ninguno tiene peso todos valen lo mismo.
 function normalizeWeights(
-    rawWeights: Record<string, number> | undefined
+    rawWeights: Record<string, number> | undefined,
+    tierDefs?: TierDefinition[]
 ): Record<string, number> {
-    const defaultWeights = { C: 40, B: 30, A: 20, S: 10 };
+    const defaultWeights: Record<string, number> = tierDefs?.length
+        ? Object.fromEntries(tierDefs.map((def) => [def.id.toUpperCase(), 0]))
+        : { C: 40, B: 30, A: 20, S: 10 };
     const merged = { ...defaultWeights, ...(rawWeights || {}) };
     const weights: Record<string, number> = {};
     let totalWeight = 0;
 
     for (const [tier, weight] of Object.entries(merged)) {
+        if (tierDefs?.length && !findTierDefinition(tier, tierDefs)) continue;
         const normalizedTier = String(tier).toUpperCase();
         const normalizedWeight = Math.max(0, Number(weight) || 0);
         weights[normalizedTier] = normalizedWeight;
@@ -113,6 +152,7 @@ function normalizeWeights(
 
     // Si todos los pesos son 0, usar valores por defecto
     if (totalWeight === 0) {
+        if (tierDefs?.length) return Object.fromEntries(Object.keys(weights).map((tier) => [tier, 1]));
         return { C: 40, B: 30, A: 20, S: 10 };
     }
 
@@ -122,17 +162,19 @@ function normalizeWeights(
 // Selecciona un tier aleatorio basado en pesos probabilísticos
 function pickWeightedTier(
     candidateTiers: string[],
-    weights: Record<string, number>
+    weights: Record<string, number>,
+    rng: Rng,
+    tierDefs?: TierDefinition[]
 ): string {
     const tierWeights = candidateTiers.map((tier) => Math.max(0, weights[tier] || 0));
     const totalWeight = tierWeights.reduce((sum, weight) => sum + weight, 0);
 
     if (totalWeight <= 0) {
         // Si no hay pesos válidos, elegir el tier de mayor prioridad
-        return sortTiersDesc(candidateTiers)[0];
+        return sortTiersDesc(candidateTiers, tierDefs)[0];
     }
 
-    let randomValue = Math.random() * totalWeight;
+    let randomValue = rng() * totalWeight;
     for (let i = 0; i < candidateTiers.length; i++) {
         randomValue -= tierWeights[i];
         if (randomValue <= 0) return candidateTiers[i];
@@ -142,10 +184,12 @@ function pickWeightedTier(
 }
 
 // Calcula la cantidad de pokémon por tier: primero mínimos garantizados, luego distribución por pesos
-function computeTierCounts(
+export function computeTierCounts(
     shopSize: number,
     minQuota: Record<string, number>,
-    weights: Record<string, number>
+    weights: Record<string, number>,
+    rng: Rng,
+    tierDefs?: TierDefinition[]
 ): Record<string, number> {
     const counts: Record<string, number> = { ...minQuota };
     const allTiers = Array.from(
@@ -155,9 +199,19 @@ function computeTierCounts(
     const guaranteedTotal = Object.values(minQuota).reduce((sum, count) => sum + count, 0);
     const remainingSlots = Math.max(0, shopSize - guaranteedTotal);
 
+    // Si los mínimos no caben en la tienda, se recortan empezando por los tiers de menor prioridad
+    let excess = guaranteedTotal - shopSize;
+    for (const tier of sortTiersAsc(Object.keys(counts), tierDefs)) {
+        if (excess <= 0) break;
+        const reduction = Math.min(excess, counts[tier]);
+        counts[tier] -= reduction;
+        excess -= reduction;
+        if (counts[tier] <= 0) delete counts[tier];
+    }
+
     // Distribuir slots restantes usando pesos probabilísticos
     for (let i = 0; i < remainingSlots; i++) {
-        const selectedTier = pickWeightedTier(allTiers, weights);
+        const selectedTier = pickWeightedTier(allTiers, weights, rng, tierDefs);
         counts[selectedTier] = (counts[selectedTier] || 0) + 1;
     }
 
@@ -167,12 +221,13 @@ function computeTierCounts(
 // ================= Fallback de Tiers =================
 
 // Encuentra tiers alternativos cuando no hay Pokémon disponibles en el tier original
-function findFallbackTiers(
+export function findFallbackTiers(
     originalTier: string,
-    tierWeights: Record<string, number>
+    tierWeights: Record<string, number>,
+    tierDefs?: TierDefinition[]
 ): string[] {
     const fallbackTiers: string[] = [];
-    const originalPriority = tierPriority(originalTier);
+    const originalPriority = tierPriority(originalTier, tierDefs);
 
     // Obtener todos los tiers de la configuración, excluyendo el tier original
     const allConfigTiers = Object.keys(tierWeights).filter(tier =>
@@ -181,19 +236,48 @@ function findFallbackTiers(
 
     // Primero buscar tiers inferiores (menor prioridad): C, D, E...
     const lowerTiers = allConfigTiers
-        .filter(tier => tierPriority(tier) < originalPriority)
-        .sort((a, b) => tierPriority(b) - tierPriority(a)); // Mayor a menor prioridad (C antes que D)
+        .filter(tier => tierPriority(tier, tierDefs) < originalPriority)
+        .sort((a, b) => tierPriority(b, tierDefs) - tierPriority(a, tierDefs)); // Mayor a menor prioridad (C antes que D)
 
     // Luego buscar tiers superiores (mayor prioridad): A, S
     const higherTiers = allConfigTiers
-        .filter(tier => tierPriority(tier) > originalPriority)
-        .sort((a, b) => tierPriority(a) - tierPriority(b)); // Menor a mayor prioridad (A antes que S)
+        .filter(tier => tierPriority(tier, tierDefs) > originalPriority)
+        .sort((a, b) => tierPriority(a, tierDefs) - tierPriority(b, tierDefs)); // Menor a mayor prioridad (A antes que S)
 
     fallbackTiers.push(...lowerTiers, ...higherTiers);
 
     return fallbackTiers;
 }
 
+// Cadena de fallback de un tier con la config ya resuelta para la región:
+// la de tierFallbackChain si el tier tiene entrada ([] = sin fallback) y si no la de findFallbackTiers.
+// Con tierFallbackNoUpgrade se quitan los tiers mejores que el original.
+export function fallbackChainFor(
+    config: AppConfig,
+    originalTier: string,
+    tierWeights: Record<string, number>
+): string[] {
+    const original = tierKey(originalTier);
+    const chains = config.tierFallbackChain ?? {};
+    const chainTier = Object.keys(chains).find((tier) => tierKey(tier) === original);
+    const candidates = chainTier !== undefined && Array.isArray(chains[chainTier])
+        ? chains[chainTier]
+        : findFallbackTiers(originalTier, tierWeights, config.tiers);
+
+    const originalPriority = tierPriority(original, config.tiers);
+    const chain: string[] = [];
+    for (const tier of candidates.map(tierKey)) {
+        if (tier === original || chain.includes(tier)) continue;
+        if (config.tierFallbackNoUpgrade && tierPriority(tier, config.tiers) > originalPriority) continue;
+        chain.push(tier);
+    }
+    return chain;
+}
+
+// Tier que se pidió para un slot: el original si se rellenó por fallback.
+// Los rerolls y el autorrelleno buscan en este tier, no en el que salió.
+export const requestedTierOf = (slot: ShopPokemon): Tier => slot.__fallbackFrom ?? slot.tier;
+
 // ================= Generación de Tienda =================
 
 /**
@@ -202,33 +286,70 @@ function findFallbackTiers(
  * Características:
  * - Respeta cuotas mínimas y distribuye el resto usando pesos de tier
  * - Ordena pokémon de mejor a peor tier (S → A → B → C...)
+ * - Dentro de cada tier elige según la rareza de cada pokémon (peso / pesoPorRegion)
  * - Evita duplicados si allowDuplicates=false
  * - Excluye pokémon comprados si includePurchasedInRerollPool=false
  * - Rellena con huecos vacíos (id = -1) si no hay suficientes pokémon
+ * - Aplica los ajustes de regionOverrides de la región (tamaño, cuotas, pesos y duplicados)
+ * - Guarda en cada slot la variación de precio (pricing.variance); el precio final lo calcula pricing.ts
+ * - Toda la aleatoriedad sale de `rng`: con la misma semilla se obtiene la misma tienda
  */
 
 export function buildShopForRegion(
     allPokemon: Pokemon[],
     region: string,
     config: AppConfig,
-    purchasedIds: Set<number>
-): Pokemon[] {
-    console.log(`[TierFallback] ===== Starting shop generation for region: ${region} =====`);
-    console.log(`[TierFallback] TierFallback enabled: ${config.tierFallback}`);
-    console.log(`[TierFallback] Shop size: ${config.shopSize}`);
-    console.log(`[TierFallback] Purchased IDs: [${Array.from(purchasedIds).join(', ')}]`);
+    purchasedIds: Set<number>,
+    rng: Rng = Math.random
+): ShopPokemon[] {
+    return generateShop(allPokemon, region, config, purchasedIds, rng, console.log).shop;
+}
+
+// Resultado detallado de generar una tienda (para el simulador de probabilidades)
+export interface ShopGenerationReport {
+    shop: ShopPokemon[];
+    requestedCounts: Record<string, number>; // slots por tier antes de aplicar fallback
+}
+
+// Igual que buildShopForRegion, pero sin logs y devolviendo también el reparto de tiers pedido
+export function buildShopWithReport(
+    allPokemon: Pokemon[],
+    region: string,
+    config: AppConfig,
+    purchasedIds: Set<number>,
+    rng: Rng = Math.random
+): ShopGenerationReport {
+    return generateShop(allPokemon, region, config, purchasedIds, rng, () => {});
+}
+
+function generateShop(
+    allPokemon: Pokemon[],
+    region: string,
+    config: AppConfig,
+    purchasedIds: Set<number>,
+    rng: Rng,
+    log: (...args: unknown[]) => void
+): ShopGenerationReport {
+    config = resolveRegionConfig(config, region);
+
+    log(`[TierFallback] ===== Starting shop generation for region: ${region} =====`);
+    log(`[TierFallback] TierFallback enabled: ${config.tierFallback}`);
+    log(`[TierFallback] Shop size: ${config.shopSize}`);
+    log(`[TierFallback] Purchased IDs: [${Array.from(purchasedIds).join(', ')}]`);
 
     // Filtrar pokémon disponibles en la región
     const regionPool = allPokemon.filter((pokemon) => byRegion(pokemon, region));
-    console.log(`[TierFallback] Total Pokémon in region ${region}: ${regionPool.length}`);
+    // Dentro de cada tier, cada pokémon sale según su rareza en la región
+    const rarityOf = (pokemon: Pokemon) => rarityWeightOf(pokemon, region);
+    log(`[TierFallback] Total Pokémon in region ${region}: ${regionPool.length}`);
 
     // Calcular distribución de tiers
     const minQuota = normalizeMinQuota(config.quota);
-    const weights = normalizeWeights(config.tierWeights);
-    const tierCounts = computeTierCounts(config.shopSize, minQuota, weights);
+    const weights = normalizeWeights(config.tierWeights, config.tiers);
+    const tierCounts = computeTierCounts(config.shopSize, minQuota, weights, rng, config.tiers);
 
-    console.log(`[TierFallback] Requested tier counts:`, tierCounts);
-    console.log(`[TierFallback] Tier weights:`, weights);
+    log(`[TierFallback] Requested tier counts:`, tierCounts);
+    log(`[TierFallback] Tier weights:`, weights);
 
     // Log available Pokémon by tier in this region
     const availableByTier = regionPool.reduce((acc, pokemon) => {
@@ -236,17 +357,20 @@ export function buildShopForRegion(
         acc[tier] = (acc[tier] || 0) + 1;
         return acc;
     }, {} as Record<string, number>);
-    console.log(`[TierFallback] Available Pokémon by tier in ${region}:`, availableByTier);
+    log(`[TierFallback] Available Pokémon by tier in ${region}:`, availableByTier);
 
     // Procesar tiers de mayor a menor prioridad (S → A → B → C...)
-    const tiersByPriority = sortTiersDesc(Object.keys(tierCounts));
-    const shopResult: (Pokemon & { __uid?: string })[] = [];
+    const tiersByPriority = sortTiersDesc(Object.keys(tierCounts), config.tiers);
+    const shopResult: (ShopPokemon & { __uid?: string })[] = [];
+    // UIDs para distinguir huecos: un contador, así la misma semilla da la misma tienda entera
+    let uidCount = 0;
+    const nextUid = () => `slot-${++uidCount}`;
 
     for (const currentTier of tiersByPriority) {
         const requiredCount = Math.max(0, tierCounts[currentTier] || 0);
         if (requiredCount <= 0) continue;
 
-        console.log(`[TierFallback] Processing tier ${currentTier}, need ${requiredCount} Pokémon`);
+        log(`[TierFallback] Processing tier ${currentTier}, need ${requiredCount} Pokémon`);
 
         // Función helper para obtener pool de candidatos para un tier específico
         const getCandidatePoolForTier = (searchTier: string) => {
@@ -254,13 +378,13 @@ export function buildShopForRegion(
                 .filter((pokemon) => String(pokemon.tier).toUpperCase() === searchTier)
                 .map((pokemon) => ({ ...pokemon } as Pokemon & { __uid?: string }));
 
-            console.log(`[TierFallback] Found ${pool.length} ${searchTier} tier Pokémon in region before purchase filter`);
+            log(`[TierFallback] Found ${pool.length} ${searchTier} tier Pokémon in region before purchase filter`);
 
             // Excluir pokémon ya comprados si está configurado así
             if (!config.includePurchasedInRerollPool) {
                 const beforeFilter = pool.length;
                 pool = pool.filter((pokemon) => !purchasedIds.has(pokemon.id));
-                console.log(`[TierFallback] After purchase filter: ${pool.length} ${searchTier} tier Pokémon (removed ${beforeFilter - pool.length})`);
+                log(`[TierFallback] After purchase filter: ${pool.length} ${searchTier} tier Pokémon (removed ${beforeFilter - pool.length})`);
             }
 
             return pool;
@@ -271,28 +395,28 @@ export function buildShopForRegion(
 
         // Si el tier fallback está habilitado y no hay Pokémon disponibles
         if (config.tierFallback && tierPool.length === 0) {
-            console.log(`[TierFallback] No Pokémon available for tier ${currentTier}, starting fallback search`);
+            log(`[TierFallback] No Pokémon available for tier ${currentTier}, starting fallback search`);
 
             // Buscar tiers alternativos usando la configuración de tierWeights
-            const fallbackTiers = findFallbackTiers(currentTier, weights);
-            console.log(`[TierFallback] Fallback chain for tier ${currentTier}: ${fallbackTiers.join(' → ')}`);
+            const fallbackTiers = fallbackChainFor(config, currentTier, weights);
+            log(`[TierFallback] Fallback chain for tier ${currentTier}: ${fallbackTiers.join(' → ')}`);
 
             // Intentar obtener Pokémon de los tiers alternativos
             for (const fallbackTier of fallbackTiers) {
-                console.log(`[TierFallback] Trying fallback tier ${fallbackTier}...`);
+                log(`[TierFallback] Trying fallback tier ${fallbackTier}...`);
                 tierPool = getCandidatePoolForTier(fallbackTier);
 
                 // Si encontramos Pokémon en este tier alternativo, salir del bucle
                 if (tierPool.length > 0) {
-                    console.log(`[TierFallback] SUCCESS: Tier ${currentTier} not available, using tier ${fallbackTier} instead (found ${tierPool.length} candidates)`);
+                    log(`[TierFallback] SUCCESS: Tier ${currentTier} not available, using tier ${fallbackTier} instead (found ${tierPool.length} candidates)`);
                     break;
                 } else {
-                    console.log(`[TierFallback] No candidates found in fallback tier ${fallbackTier}`);
+                    log(`[TierFallback] No candidates found in fallback tier ${fallbackTier}`);
                 }
             }
 
             if (tierPool.length === 0) {
-                console.log(`[TierFallback] FAILED: No Pokémon found in any fallback tier for ${currentTier}. Tried: ${fallbackTiers.join(', ')}`);
+                log(`[TierFallback] FAILED: No Pokémon found in any fallback tier for ${currentTier}. Tried: ${fallbackTiers.join(', ')}`);
             }
         }
 
@@ -300,17 +424,17 @@ export function buildShopForRegion(
         if (config.allowDuplicates) {
             // Clonar pokémon existentes si se necesitan más
             while (tierPool.length < requiredCount && tierPool.length > 0) {
-                const randomPokemon = tierPool[Math.floor(Math.random() * tierPool.length)];
+                const randomPokemon = pickWeighted(tierPool, rarityOf, rng);
                 tierPool.push({ ...randomPokemon });
             }
         } else {
-            console.log(`[TierFallback] Applying duplicate filtering for tier ${currentTier} (${tierPool.length} candidates)`);
+            log(`[TierFallback] Applying duplicate filtering for tier ${currentTier} (${tierPool.length} candidates)`);
 
             // Marcar duplicados como huecos
             const usedIds = new Set(shopResult.map((pokemon) => pokemon?.id));
             const seenIds = new Set<number>();
 
-            console.log(`[TierFallback] Already used IDs in shop: [${Array.from(usedIds).join(', ')}]`);
+            log(`[TierFallback] Already used IDs in shop: [${Array.from(usedIds).join(', ')}]`);
 
             tierPool.forEach((pokemon) => {
                 const isDuplicateInTier = seenIds.has(pokemon.id);
@@ -325,18 +449,18 @@ export function buildShopForRegion(
 
             // Si después de manejar duplicados no hay Pokémon válidos y tier fallback está habilitado
             const validPokemon = tierPool.filter(pokemon => pokemon.id !== -1);
-            console.log(`[TierFallback] After duplicate filtering: ${validPokemon.length} valid Pokémon for tier ${currentTier}`);
+            log(`[TierFallback] After duplicate filtering: ${validPokemon.length} valid Pokémon for tier ${currentTier}`);
 
             if (config.tierFallback && validPokemon.length === 0) {
-                console.log(`[TierFallback] No valid Pokémon for tier ${currentTier} after duplicate filtering, starting fallback search`);
+                log(`[TierFallback] No valid Pokémon for tier ${currentTier} after duplicate filtering, starting fallback search`);
 
                 // Buscar tiers alternativos usando la configuración de tierWeights
-                const fallbackTiers = findFallbackTiers(currentTier, weights);
-                console.log(`[TierFallback] Duplicate fallback chain for tier ${currentTier}: ${fallbackTiers.join(' → ')}`);
+                const fallbackTiers = fallbackChainFor(config, currentTier, weights);
+                log(`[TierFallback] Duplicate fallback chain for tier ${currentTier}: ${fallbackTiers.join(' → ')}`);
 
                 // Intentar obtener Pokémon de los tiers alternativos
                 for (const fallbackTier of fallbackTiers) {
-                    console.log(`[TierFallback] Trying duplicate fallback tier ${fallbackTier}...`);
+                    log(`[TierFallback] Trying duplicate fallback tier ${fallbackTier}...`);
                     let fallbackPool = getCandidatePoolForTier(fallbackTier);
 
                     // Aplicar filtro de duplicados al pool alternativo
@@ -355,26 +479,26 @@ export function buildShopForRegion(
                     });
 
                     const validFallbackPokemon = fallbackPool.filter(pokemon => pokemon.id !== -1);
-                    console.log(`[TierFallback] Fallback tier ${fallbackTier} has ${validFallbackPokemon.length} valid Pokémon after duplicate filtering`);
+                    log(`[TierFallback] Fallback tier ${fallbackTier} has ${validFallbackPokemon.length} valid Pokémon after duplicate filtering`);
 
                     if (validFallbackPokemon.length > 0) {
-                        console.log(`[TierFallback] SUCCESS: Tier ${currentTier} exhausted after duplicate filtering, using tier ${fallbackTier} instead`);
+                        log(`[TierFallback] SUCCESS: Tier ${currentTier} exhausted after duplicate filtering, using tier ${fallbackTier} instead`);
                         tierPool = fallbackPool;
                         break;
                     } else {
-                        console.log(`[TierFallback] No valid candidates found in duplicate fallback tier ${fallbackTier}`);
+                        log(`[TierFallback] No valid candidates found in duplicate fallback tier ${fallbackTier}`);
                     }
                 }
 
                 if (tierPool.filter(pokemon => pokemon.id !== -1).length === 0) {
-                    console.log(`[TierFallback] FAILED: No valid Pokémon found in any duplicate fallback tier for ${currentTier}. Tried: ${fallbackTiers.join(', ')}`);
+                    log(`[TierFallback] FAILED: No valid Pokémon found in any duplicate fallback tier for ${currentTier}. Tried: ${fallbackTiers.join(', ')}`);
                 }
             }
         }
 
         // Asignar UIDs únicos para distinguir huecos
         tierPool = tierPool.map((pokemon) =>
-            pokemon.__uid ? pokemon : { ...pokemon, __uid: crypto.randomUUID() }
+            pokemon.__uid ? pokemon : { ...pokemon, __uid: nextUid() }
         );
 
         // Función para comparar pokémon (incluyendo huecos)
@@ -397,22 +521,24 @@ export function buildShopForRegion(
             const realCount = Math.min(remainingNeeded, realPokemon.length);
 
             if (realCount > 0) {
-                const pickedReal = sampleWithoutReplacement(
+                const pickedReal = weightedSampleWithoutReplacement(
                     realPokemon,
                     realCount,
+                    rarityOf,
                     pokemonEquals,
-                    shopResult
+                    shopResult,
+                    rng
                 );
                 selectedPokemon.push(...pickedReal);
                 remainingNeeded -= pickedReal.length;
-                console.log(`[TierFallback] Selected ${pickedReal.length} real Pokémon for tier ${currentTier}, still need ${remainingNeeded}`);
+                log(`[TierFallback] Selected ${pickedReal.length} real Pokémon for tier ${currentTier}, still need ${remainingNeeded}`);
             }
 
             // Si aún necesitamos más Pokémon y tier fallback está habilitado, buscar en más tiers
             if (config.tierFallback && remainingNeeded > 0) {
-                console.log(`[TierFallback] Still need ${remainingNeeded} more Pokémon for tier ${currentTier}, searching additional fallback tiers`);
+                log(`[TierFallback] Still need ${remainingNeeded} more Pokémon for tier ${currentTier}, searching additional fallback tiers`);
 
-                const fallbackTiers = findFallbackTiers(currentTier, weights);
+                const fallbackTiers = fallbackChainFor(config, currentTier, weights);
                 const usedTiers = new Set<string>();
 
                 // Si ya usamos un tier de fallback, añadirlo a los usados
@@ -425,7 +551,7 @@ export function buildShopForRegion(
                 for (const fallbackTier of fallbackTiers) {
                     if (remainingNeeded <= 0 || usedTiers.has(fallbackTier)) continue;
 
-                    console.log(`[TierFallback] Trying additional fallback tier ${fallbackTier} for ${remainingNeeded} more slots...`);
+                    log(`[TierFallback] Trying additional fallback tier ${fallbackTier} for ${remainingNeeded} more slots...`);
                     let additionalPool = getCandidatePoolForTier(fallbackTier);
 
                     // Aplicar filtro de duplicados
@@ -450,23 +576,25 @@ export function buildShopForRegion(
                     const additionalCount = Math.min(remainingNeeded, validAdditional.length);
 
                     if (additionalCount > 0) {
-                        const pickedAdditional = sampleWithoutReplacement(
+                        const pickedAdditional = weightedSampleWithoutReplacement(
                             validAdditional,
                             additionalCount,
+                            rarityOf,
                             pokemonEquals,
-                            [...shopResult, ...selectedPokemon]
+                            [...shopResult, ...selectedPokemon],
+                            rng
                         );
                         selectedPokemon.push(...pickedAdditional);
                         remainingNeeded -= pickedAdditional.length;
                         usedTiers.add(fallbackTier);
-                        console.log(`[TierFallback] Selected ${pickedAdditional.length} additional Pokémon from tier ${fallbackTier}, still need ${remainingNeeded}`);
+                        log(`[TierFallback] Selected ${pickedAdditional.length} additional Pokémon from tier ${fallbackTier}, still need ${remainingNeeded}`);
                     }
                 }
             }
 
             // Completar con huecos si es necesario
             if (remainingNeeded > 0) {
-                console.log(`[TierFallback] Creating ${remainingNeeded} empty slots for tier ${currentTier}`);
+                log(`[TierFallback] Creating ${remainingNeeded} empty slots for tier ${currentTier}`);
                 for (let i = 0; i < remainingNeeded; i++) {
                     selectedPokemon.push({
                         id: -1,
@@ -474,21 +602,28 @@ export function buildShopForRegion(
                         tier: currentTier,
                         precio: 0,
                         regiones: [region],
-                        __uid: crypto.randomUUID(),
+                        __uid: nextUid(),
                     });
                 }
             }
 
-            shopResult.push(...selectedPokemon);
+            // Los slots rellenados con otro tier guardan el tier pedido (la UI lo marca)
+            shopResult.push(
+                ...selectedPokemon.map((pokemon) =>
+                    pokemon.id !== -1 && tierKey(pokemon.tier) !== tierKey(currentTier)
+                        ? { ...pokemon, __fallbackFrom: currentTier }
+                        : pokemon
+                )
+            );
         }
     }
 
     // Ordenar el resultado final por prioridad de tier (S → A → B → C → D...)
-    console.log(`[Shop] Sorting final shop by tier priority...`);
+    log(`[Shop] Sorting final shop by tier priority...`);
     const sortedShopResult = shopResult.sort((a, b) => {
         // Ordenar por prioridad de tier (mayor prioridad primero)
-        const aPriority = tierPriority(a.tier);
-        const bPriority = tierPriority(b.tier);
+        const aPriority = tierPriority(a.tier, config.tiers);
+        const bPriority = tierPriority(b.tier, config.tiers);
         if (aPriority !== bPriority) return bPriority - aPriority;
 
         // Si tienen el mismo tier, los Pokémon reales van antes que los huecos
@@ -513,10 +648,16 @@ export function buildShopForRegion(
         return acc;
     }, {} as Record<string, number>);
 
-    console.log(`[Shop] Final shop composition after sorting:`, finalComposition);
-    console.log(`[Shop] Shop generation completed for region ${region}. Total slots: ${sortedShopResult.length}`);
+    log(`[Shop] Final shop composition after sorting:`, finalComposition);
+    log(`[Shop] Shop generation completed for region ${region}. Total slots: ${sortedShopResult.length}`);
+
+    // Variación de precio por slot (después de ordenar, para que el orden de tiradas sea estable)
+    const pricedShop: ShopPokemon[] = sortedShopResult.map((pokemon) => {
+        const variance = pokemon.id === -1 ? undefined : rollPriceVariance(config, rng);
+        return variance === undefined ? pokemon : { ...pokemon, __priceVariance: variance };
+    });
 
-    return sortedShopResult;
+    return { shop: pricedShop, requestedCounts: tierCounts };
 }
 
 // ================= Sistema de Reroll =================
@@ -531,6 +672,7 @@ export function wouldRerollCauseTierDowngrade(
     forbiddenId: number | null,
     config: AppConfig
 ): { wouldDowngrade: boolean; fallbackTier?: string } {
+    config = resolveRegionConfig(config, region);
     if (!config.tierFallback) {
         return { wouldDowngrade: false };
     }
@@ -570,15 +712,15 @@ export function wouldRerollCauseTierDowngrade(
     }
 
     // Si no hay candidatos y tier fallback está habilitado, verificar el primer tier de fallback disponible
-    const weights = normalizeWeights(config.tierWeights);
-    const fallbackTiers = findFallbackTiers(targetTier, weights);
+    const weights = normalizeWeights(config.tierWeights, config.tiers);
+    const fallbackTiers = fallbackChainFor(config, targetTier, weights);
 
     for (const fallbackTier of fallbackTiers) {
         const fallbackCandidates = getCandidatesForTier(fallbackTier);
         if (fallbackCandidates.length > 0) {
             // Hay candidatos en un tier de fallback - verificar si es una degradación
-            const originalPriority = tierPriority(targetTier);
-            const fallbackPriority = tierPriority(fallbackTier);
+            const originalPriority = tierPriority(targetTier, config.tiers);
+            const fallbackPriority = tierPriority(fallbackTier, config.tiers);
 
             if (fallbackPriority < originalPriority) {
                 return { wouldDowngrade: true, fallbackTier };
@@ -600,8 +742,10 @@ export function findRerollCandidate(
     usedIds: Set<number>,
     purchasedIds: Set<number>,
     forbiddenId: number | null,
-    config: AppConfig
-): Pokemon | null {
+    config: AppConfig,
+    rng: Rng = Math.random
+): ShopPokemon | null {
+    config = resolveRegionConfig(config, region);
     const targetTier = String(tier).toUpperCase();
 
     // Función helper para filtrar candidatos por tier
@@ -634,8 +778,8 @@ export function findRerollCandidate(
     // Si no hay candidatos y el tier fallback está habilitado
     if (candidatePool.length === 0 && config.tierFallback) {
         // Buscar tiers alternativos usando la configuración de tierWeights
-        const weights = normalizeWeights(config.tierWeights);
-        const fallbackTiers = findFallbackTiers(targetTier, weights);
+        const weights = normalizeWeights(config.tierWeights, config.tiers);
+        const fallbackTiers = fallbackChainFor(config, targetTier, weights);
 
         // Intentar obtener candidatos de los tiers alternativos
         for (const fallbackTier of fallbackTiers) {
@@ -649,6 +793,10 @@ export function findRerollCandidate(
     // Si no hay candidatos válidos, retornar null
     if (candidatePool.length === 0) return null;
 
-    // Seleccionar candidato aleatorio
-    return candidatePool[Math.floor(Math.random() * candidatePool.length)];
+    // Seleccionar candidato al azar según su rareza (con su variación de precio, si la hay)
+    const picked = pickWeighted(candidatePool, (pokemon) => rarityWeightOf(pokemon, region), rng);
+    const candidate: ShopPokemon =
+        tierKey(picked.tier) === targetTier ? picked : { ...picked, __fallbackFrom: targetTier };
+    const variance = rollPriceVariance(config, rng);
+    return variance === undefined ? candidate : { ...candidate, __priceVariance: variance };
 }
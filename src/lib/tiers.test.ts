@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { TierDefinition } from '../types';
+import { sortTiersAsc, sortTiersDesc, tierColor, tierIcon, tierLabel, tierPriority } from './tiers';
+
+const DEFS: TierDefinition[] = [
+    { id: 'Mythic', name: 'Mítico', rank: 300, color: '#ff00ff', icon: '✨' },
+    { id: 'SS', rank: 200 },
+    { id: 'S+', rank: 150 },
+    { id: 'S', rank: 100 },
+    { id: 'Common', rank: 1 },
+];
+
+describe('tierPriority', () => {
+    it('sin config.tiers ordena por letra (S > A > B > … > Z)', () => {
+        expect(sortTiersDesc(['C', 'S', 'A', 'B'])).toEqual(['S', 'A', 'B', 'C']);
+        expect(sortTiersAsc(['C', 'S', 'A', 'B'])).toEqual(['C', 'B', 'A', 'S']);
+    });
+
+    it('con config.tiers usa el rango, sin distinguir mayúsculas', () => {
+        expect(sortTiersDesc(['S', 'COMMON', 'ss', 'S+', 'MYTHIC'], DEFS)).toEqual(['MYTHIC', 'ss', 'S+', 'S', 'COMMON']);
+        expect(tierPriority('mythic', DEFS)).toBe(300);
+    });
+
+    it('los tiers que no están en la lista quedan por debajo de todos', () => {
+        expect(tierPriority('A', DEFS)).toBeLessThan(tierPriority('Common', DEFS));
+    });
+});
+
+describe('presentación', () => {
+    const cfg = { tiers: DEFS, tierColors: { S: '#f59e0b' }, defaultTierColor: '#111111' };
+
+    it('usa nombre, color e icono de la definición', () => {
+        expect(tierLabel(cfg, 'MYTHIC')).toBe('Mítico');
+        expect(tierColor(cfg, 'mythic')).toBe('#ff00ff');
+        expect(tierIcon(cfg, 'Mythic')).toBe('✨');
+    });
+
+    it('sin definición recurre al id, tierColors y defaultTierColor', () => {
+        expect(tierLabel(cfg, 'SS')).toBe('SS');
+        expect(tierColor(cfg, 'S')).toBe('#f59e0b');
+        expect(tierColor(cfg, 'Common')).toBe('#111111');
+        expect(tierIcon(cfg, 'S')).toBeUndefined();
+    });
+});
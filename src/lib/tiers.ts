@@ -0,0 +1,69 @@
+import type { AppConfig, TierDefinition } from '../types';
+
+// Orden y presentación de los tiers.
+// Con config.tiers cada tier tiene su rango (mayor = mejor), nombre, color e icono;
+// sin ella se usa el orden clásico por letra: S > A > B > … > Z.
+
+const FALLBACK_TIER_COLOR = '#9ca3af';
+
+// Los tiers se comparan sin distinguir mayúsculas (el catálogo y la config los escriben a mano)
+export const tierKey = (tier: string) => String(tier).trim().toUpperCase();
+
+// Definición de un tier en config.tiers (undefined si no hay lista o no aparece)
+export function findTierDefinition(tier: string, defs: TierDefinition[] | undefined): TierDefinition | undefined {
+    if (!defs?.length) return undefined;
+    const key = tierKey(tier);
+    return defs.find((def) => tierKey(def.id) === key);
+}
+
+// Prioridad clásica por la primera letra: S=100, A=90, B=89, …, Z=65; el resto 0
+function letterPriority(tier: string): number {
+    const upperTier = tierKey(tier);
+    if (upperTier === 'S') return 100;
+
+    const charCode = upperTier.charCodeAt(0);
+    if (charCode >= 65 && charCode <= 90) {
+        return 90 - (charCode - 65);
+    }
+    return 0;
+}
+
+// Prioridad numérica de un tier (mayor = mejor).
+// Con `defs`, los tiers que no están en la lista quedan por debajo de todos los definidos.
+export function tierPriority(tier: string, defs?: TierDefinition[]): number {
+    if (!defs?.length) return letterPriority(tier);
+    const def = findTierDefinition(tier, defs);
+    if (def) return def.rank;
+    return Math.min(...defs.map((d) => d.rank)) - 1;
+}
+
+// Ordena tiers de mayor a menor prioridad (S, A, B, C...)
+export const sortTiersDesc = (tiers: string[], defs?: TierDefinition[]) =>
+    [...tiers].sort((a, b) => tierPriority(b, defs) - tierPriority(a, defs));
+
+// Ordena tiers de menor a mayor prioridad (Z, Y, X... C, B, A, S)
+export const sortTiersAsc = (tiers: string[], defs?: TierDefinition[]) =>
+    [...tiers].sort((a, b) => tierPriority(a, defs) - tierPriority(b, defs));
+
+type TierDisplayConfig = Pick<AppConfig, 'tiers' | 'tierColors' | 'defaultTierColor'> | null | undefined;
+
+// Nombre a mostrar: el de config.tiers o el propio tier
+export function tierLabel(cfg: TierDisplayConfig, tier: string): string {
+    return findTierDefinition(tier, cfg?.tiers)?.name || tier;
+}
+
+// Color CSS: el de config.tiers, luego tierColors y por último defaultTierColor
+export function tierColor(cfg: TierDisplayConfig, tier: string): string {
+    return (
+        findTierDefinition(tier, cfg?.tiers)?.color ??
+        cfg?.tierColors?.[tierKey(tier)] ??
+        cfg?.tierColors?.[tier] ??
+        cfg?.defaultTierColor ??
+        FALLBACK_TIER_COLOR
+    );
+}
+
+// Icono (texto o emoji) del tier, si tiene
+export function tierIcon(cfg: TierDisplayConfig, tier: string): string | undefined {
+    return findTierDefinition(tier, cfg?.tiers)?.icon || undefined;
+}
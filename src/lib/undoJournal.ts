@@ -0,0 +1,166 @@
+import type { JournalEntry, ListPatch, ShopPokemon, StatePatch, UndoableState } from '../types';
+
+// Campos simples de UndoableState (se copian tal cual en el parche)
+const VALUE_KEYS = [
+    'currentRegionIndex',
+    'selectedRegionIndex',
+    'selectedShopIndex',
+    'lastShopIndex',
+    'rerollsUsedGlobal',
+    'rngNonce',
+    'money',
+] as const;
+
+export const DEFAULT_UNDO_DEPTH = 20;
+
+// Profundidad del diario según la config (entero >= 0)
+export function undoDepthOf(depth: number | undefined): number {
+    return Number.isInteger(depth) && (depth as number) >= 0 ? (depth as number) : DEFAULT_UNDO_DEPTH;
+}
+
+// Extrae la parte deshacible de un estado (sin copiar: las acciones nunca mutan en sitio)
+export function undoableOf(s: UndoableState): UndoableState {
+    return {
+        currentRegionIndex: s.currentRegionIndex,
+        selectedRegionIndex: s.selectedRegionIndex,
+        selectedShopIndex: s.selectedShopIndex,
+        lastShopIndex: s.lastShopIndex,
+        visitedRegions: s.visitedRegions,
+        shop: s.shop,
+        shopByIndex: s.shopByIndex,
+        rerollsUsedGlobal: s.rerollsUsedGlobal,
+        rerollsUsedBy: s.rerollsUsedBy,
+        rngNonce: s.rngNonce,
+        money: s.money,
+        purchases: s.purchases,
+        reservations: s.reservations,
+    };
+}
+
+// Mismo elemento: misma referencia o mismo contenido (p. ej. tras leer el save)
+function sameItem(a: unknown, b: unknown): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Parche mínimo que convierte `from` en `to`: recorta el prefijo y el sufijo comunes
+function diffList<T>(from: T[], to: T[]): ListPatch<T> | undefined {
+    let start = 0;
+    while (start < from.length && start < to.length && sameItem(from[start], to[start])) start++;
+    if (start === from.length && start === to.length) return undefined;
+
+    let end = 0;
+    while (
+        end < from.length - start &&
+        end < to.length - start &&
+        sameItem(from[from.length - 1 - end], to[to.length - 1 - end])
+    ) {
+        end++;
+    }
+    return { index: start, remove: from.length - start - end, insert: to.slice(start, to.length - end) };
+}
+
+// Parche de una tienda de shopByIndex; `from` ausente = la clave se crea con la tienda `to`
+export function diffShop(from: ShopPokemon[] | undefined, to: ShopPokemon[]): ListPatch<ShopPokemon> {
+    return diffList(from ?? [], to) ?? { index: 0, remove: 0, insert: [] };
+}
+
+function applyList<T>(list: T[], patch: ListPatch<T>): T[] {
+    const next = list.slice();
+    next.splice(patch.index, patch.remove, ...patch.insert);
+    return next;
+}
+
+// Parche que convierte el estado `from` en `to` (vacío si no hay cambios)
+export function diffState(from: UndoableState, to: UndoableState): StatePatch {
+    const patch: StatePatch = {};
+
+    const values: Record<string, number> = {};
+    for (const key of VALUE_KEYS) {
+        if (from[key] !== to[key]) values[key] = to[key];
+    }
+    if (Object.keys(values).length) patch.values = values;
+    if (!sameItem(from.rerollsUsedBy, to.rerollsUsedBy)) patch.rerollsUsedBy = to.rerollsUsedBy;
+
+    const visitedRegions = diffList(from.visitedRegions, to.visitedRegions);
+    if (visitedRegions) patch.visitedRegions = visitedRegions;
+    const shop = diffList(from.shop, to.shop);
+    if (shop) patch.shop = shop;
+    const purchases = diffList(from.purchases, to.purchases);
+    if (purchases) patch.purchases = purchases;
+    const reservations = diffList(from.reservations, to.reservations);
+    if (reservations) patch.reservations = reservations;
+
+    // shopByIndex: un parche de lista por cada clave cuya tienda cambia.
+    // Las claves de un grupo comparten la tienda: el parche se calcula una vez y se reutiliza
+    const shops: Record<string, ListPatch<ShopPokemon> | null> = {};
+    const diffs = new Map<ShopPokemon[] | undefined, Map<ShopPokemon[], ListPatch<ShopPokemon>>>();
+    const keys = new Set([...Object.keys(from.shopByIndex), ...Object.keys(to.shopByIndex)]);
+    for (const key of keys) {
+        const a = from.shopByIndex[Number(key)];
+        const b = to.shopByIndex[Number(key)];
+        if (a === b) continue;
+        if (b === undefined) {
+            shops[key] = null;
+            continue;
+        }
+        if (a !== undefined && sameItem(a, b)) continue;
+        const byTarget = diffs.get(a) ?? new Map<ShopPokemon[], ListPatch<ShopPokemon>>();
+        diffs.set(a, byTarget);
+        if (!byTarget.has(b)) byTarget.set(b, diffShop(a, b));
+        shops[key] = byTarget.get(b) as ListPatch<ShopPokemon>;
+    }
+    if (Object.keys(shops).length) patch.shopByIndex = shops;
+
+    return patch;
+}
+
+// Aplica un parche y devuelve el estado resultante (sin modificar el original)
+export function applyPatch(state: UndoableState, patch: StatePatch): UndoableState {
+    const next: UndoableState = { ...state, ...patch.values };
+    if (patch.rerollsUsedBy) next.rerollsUsedBy = patch.rerollsUsedBy;
+    if (patch.visitedRegions) next.visitedRegions = applyList(state.visitedRegions, patch.visitedRegions);
+    if (patch.shop) next.shop = applyList(state.shop, patch.shop);
+    if (patch.purchases) next.purchases = applyList(state.purchases, patch.purchases);
+    if (patch.reservations) next.reservations = applyList(state.reservations, patch.reservations);
+    if (patch.shopByIndex) {
+        const shopByIndex = { ...state.shopByIndex };
+        // Las claves que compartían tienda y reciben el mismo parche siguen compartiendo el resultado
+        const applied = new Map<ShopPokemon[] | undefined, Map<ListPatch<ShopPokemon>, ShopPokemon[]>>();
+        for (const [key, shopPatch] of Object.entries(patch.shopByIndex)) {
+            if (shopPatch === null) {
+                delete shopByIndex[Number(key)];
+                continue;
+            }
+            const base = state.shopByIndex[Number(key)];
+            const byPatch = applied.get(base) ?? new Map<ListPatch<ShopPokemon>, ShopPokemon[]>();
+            applied.set(base, byPatch);
+            if (!byPatch.has(shopPatch)) byPatch.set(shopPatch, applyList(base ?? [], shopPatch));
+            shopByIndex[Number(key)] = byPatch.get(shopPatch) as ShopPokemon[];
+        }
+        next.shopByIndex = shopByIndex;
+    }
+    return next;
+}
+
+export function isEmptyPatch(patch: StatePatch): boolean {
+    return Object.keys(patch).length === 0;
+}
+
+// Crea la entrada del diario para una acción que pasó de `before` a `after` (null si no cambió nada)
+export function createJournalEntry(
+    before: UndoableState,
+    after: UndoableState,
+    label: string,
+    historyId?: string
+): JournalEntry | null {
+    const redo = diffState(before, after);
+    if (isEmptyPatch(redo)) return null;
+    return {
+        id: crypto.randomUUID(),
+        ts: new Date().toISOString(),
+        label,
+        historyId,
+        undo: diffState(after, before),
+        redo,
+    };
+}
@@ -0,0 +1,576 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// La ventana mínima que usan las acciones (confirmaciones y eventos)
+vi.hoisted(() => {
+    vi.stubGlobal('window', {
+        confirm: () => true,
+        setTimeout,
+        clearTimeout,
+        dispatchEvent: () => true,
+    });
+});
+
+import { getCurrentProfile, getProfileDir } from '../lib/profileManager';
+import { regionKeyFor, reserveDepositOf, sellRefundOf } from '../lib/runActions';
+import { computeRunStats } from '../lib/stats';
+import { requestedTierOf } from '../lib/storeLogic';
+import { createMemoryStorage, exists, join, readTextFile, remove, setStorage, writeTextFile } from '../lib/storage';
+import type { AppConfig } from '../types';
+import { useShopStore } from './useShopStore';
+
+const initialState = useShopStore.getState();
+const store = () => useShopStore.getState();
+
+// Espera a que terminen las escrituras que las acciones lanzan sin await (save.sav, run.log)
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+// Ruta de un archivo en la carpeta del perfil actual
+const profileFile = async (name: string) => join(await getProfileDir(await getCurrentProfile()), name);
+
+const readSave = async () => JSON.parse(await readTextFile(await profileFile('save.sav')));
+
+// Índice del primer slot que se puede comprar
+const firstBuyable = () => store().shop.findIndex((slot) => slot.id !== -1 && !slot.__purchased && !slot.__reserved);
+
+beforeEach(async () => {
+    // Los módulos de la app registran cada paso con console.log
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setStorage(createMemoryStorage());
+    useShopStore.setState(initialState, true);
+    await store().bootstrap();
+    await settle();
+});
+
+// Que las escrituras pendientes de un test no acaben en el sistema de archivos del siguiente
+afterEach(async () => {
+    await settle();
+    vi.restoreAllMocks();
+});
+
+describe('bootstrap', () => {
+    it('crea el perfil por defecto y una partida nueva en la primera región', async () => {
+        const s = store();
+        expect(s.cfg).not.toBeNull();
+        expect(s.shop).toHaveLength(s.cfg!.shopSize);
+        expect(s.regions[s.currentRegionIndex]).toBe(s.cfg!.regionsOrder[0]);
+        expect(s.money).toBe(0);
+        expect(await exists(await profileFile('config.json'))).toBe(true);
+        expect(await exists(await profileFile('pokemon.json'))).toBe(true);
+    });
+
+    it('guarda la partida y la recupera al volver a arrancar', async () => {
+        store().addMoney(5000);
+        store().buyAt(firstBuyable());
+        await settle();
+        const before = store();
+
+        useShopStore.setState(initialState, true);
+        await store().bootstrap();
+
+        const after = store();
+        expect(after.money).toBe(before.money);
+        expect(after.purchases).toEqual(before.purchases);
+        expect(after.shop.map((p) => p.id)).toEqual(before.shop.map((p) => p.id));
+        expect(after.runSeed).toBe(before.runSeed);
+    });
+
+    it('no sobrescribe un save.sav dañado', async () => {
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const path = await profileFile('save.sav');
+        await writeTextFile(path, '{"money": "mucho"}');
+        const backups = await profileFile('backups');
+        if (await exists(backups)) await remove(backups, { recursive: true });
+
+        useShopStore.setState(initialState, true);
+        await store().bootstrap();
+        store().addMoney(100);
+        await settle();
+
+        expect(store().saveError).not.toBeNull();
+        expect(await readTextFile(path)).toBe('{"money": "mucho"}');
+        consoleError.mockRestore();
+    });
+});
+
+describe('dinero y compras', () => {
+    it('addMoney suma y resta, y lo registra en el historial', async () => {
+        store().addMoney(1000);
+        store().addMoney(-300);
+        await settle();
+
+        expect(store().money).toBe(700);
+        expect(store().history.slice(0, 2).map((e) => e.type)).toEqual(['money:subtract', 'money:add']);
+        expect((await readSave()).money).toBe(700);
+    });
+
+    it('buyAt cobra el precio, marca el slot y guarda la compra', async () => {
+        store().addMoney(10000);
+        const index = firstBuyable();
+        const slot = store().shop[index];
+        store().buyAt(index);
+        await settle();
+
+        const s = store();
+        expect(s.shop[index].__purchased).toBe(true);
+        expect(s.purchases).toHaveLength(1);
+        expect(s.purchases[0].pokemonId).toBe(slot.id);
+        expect(s.money).toBe(10000 - s.purchases[0].precio);
+        expect((await readSave()).purchases).toHaveLength(1);
+    });
+
+    it('buyAt sin saldo suficiente no compra', () => {
+        const index = firstBuyable();
+        store().buyAt(index);
+
+        const s = store();
+        expect(s.purchases).toHaveLength(0);
+        expect(s.shop[index].__purchased).toBeFalsy();
+        expect(s.history[0]).toMatchObject({ type: 'buy:failed' });
+        expect(s.history[0].message).toContain('saldo insuficiente');
+    });
+
+    it('un slot comprado no se puede volver a comprar', () => {
+        store().addMoney(100000);
+        const index = firstBuyable();
+        store().buyAt(index);
+        const money = store().money;
+        store().buyAt(index);
+
+        expect(store().purchases).toHaveLength(1);
+        expect(store().money).toBe(money);
+    });
+
+    it('sellPurchase devuelve el porcentaje configurado', () => {
+        store().addMoney(10000);
+        store().buyAt(firstBuyable());
+        const purchase = store().purchases[0];
+        const money = store().money;
+        store().sellPurchase(purchase.id);
+
+        const sold = store().purchases[0];
+        expect(sold.soldAt).toBeDefined();
+        expect(sold.refund).toBe(sellRefundOf(store().cfg!, purchase));
+        expect(store().money).toBe(money + (sold.refund ?? 0));
+    });
+});
+
+describe('rerolls', () => {
+    it('rerollAt consume un reroll y respeta el máximo por región', () => {
+        const max = store().cfg!.rerollsPerRegion;
+        const index = firstBuyable();
+        for (let i = 0; i < max; i++) store().rerollAt(index);
+        expect(store().rerollsUsedGlobal).toBe(max);
+
+        const shop = store().shop;
+        store().rerollAt(index);
+        expect(store().rerollsUsedGlobal).toBe(max);
+        expect(store().shop).toBe(shop);
+    });
+
+    it('el slot rerolleado no repite pokémon de la tienda', () => {
+        const index = firstBuyable();
+        store().rerollAt(index);
+
+        const ids = store().shop.filter((p) => p.id !== -1).map((p) => p.id);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+});
+
+describe('políticas de reroll', () => {
+    const withConfig = (changes: Partial<AppConfig>) =>
+        useShopStore.setState({ cfg: { ...store().cfg!, rerollRechargeEveryRegions: -1, ...changes } });
+    // Índice de otro slot rerolleable distinto de `index`
+    const otherSlot = (index: number) =>
+        store().shop.findIndex((slot, i) => i !== index && slot.id !== -1 && !slot.__purchased);
+
+    it("'region' da a cada región su propio presupuesto", () => {
+        withConfig({ rerollPolicy: 'region', rerollsPerRegion: 1 });
+        const index = firstBuyable();
+        store().rerollAt(index);
+        const shop = store().shop;
+        store().rerollAt(index);
+        expect(store().shop).toBe(shop);
+
+        store().nextSelectedRegion();
+        store().applySelectedRegionAndRefresh();
+        store().rerollAt(firstBuyable());
+        expect(store().rerollsUsedBy).toEqual({ [`region:${store().regions[0]}`]: 1, [`region:${store().regions[1]}`]: 1 });
+        expect(store().rerollsUsedGlobal).toBe(0);
+    });
+
+    it("'tier' cuenta por separado cada tier", () => {
+        const index = firstBuyable();
+        const tier = store().shop[index].tier.toUpperCase();
+        withConfig({ rerollPolicy: 'tier', rerollsPerRegion: 3, rerollTierBudgets: { [tier]: 0 } });
+        const shop = store().shop;
+        store().rerollAt(index);
+        expect(store().shop).toBe(shop);
+
+        const other = store().shop.findIndex((slot) => slot.id !== -1 && slot.tier.toUpperCase() !== tier);
+        store().rerollAt(other);
+        expect(Object.values(store().rerollsUsedBy)).toEqual([1]);
+    });
+
+    it("'slot' limita los rerolls de cada slot", () => {
+        withConfig({ rerollPolicy: 'slot', rerollsPerSlot: 1, rerollsPerRegion: 0 });
+        const index = firstBuyable();
+        store().rerollAt(index);
+        expect(store().shop[index].__rerolls).toBe(1);
+        const shop = store().shop;
+        store().rerollAt(index);
+        expect(store().shop).toBe(shop);
+
+        store().rerollAt(otherSlot(index));
+        expect(store().shop).not.toBe(shop);
+    });
+
+    it("'paid' cobra cada reroll más caro y se repite desde run.log", async () => {
+        withConfig({ rerollPolicy: 'paid', rerollCost: 100, rerollCostIncrease: 50 });
+        store().addMoney(400);
+        const index = firstBuyable();
+        store().rerollAt(index);
+        store().rerollAt(index);
+        expect(store().money).toBe(400 - 100 - 150);
+
+        // No llega para el tercero (225)
+        const shop = store().shop;
+        store().rerollAt(index);
+        expect(store().shop).toBe(shop);
+
+        await settle();
+        const result = await store().rebuildFromLog();
+        expect(result?.firstDivergence).toBeNull();
+        expect(store().money).toBe(150);
+    });
+});
+
+describe('bloqueo de slots', () => {
+    // Índices de los primeros `count` slots que se pueden comprar
+    const buyable = (count: number) =>
+        store()
+            .shop.map((slot, i) => (slot.id !== -1 && !slot.__purchased ? i : -1))
+            .filter((i) => i !== -1)
+            .slice(0, count);
+
+    it('refresh conserva los slots bloqueados en su sitio y en todo el grupo', () => {
+        const [index] = buyable(1);
+        store().toggleLockAt(index);
+        const locked = store().shop[index];
+        expect(locked.__locked).toBe(true);
+
+        store().refresh();
+        const s = store();
+        expect(s.shop[index]).toEqual(locked);
+        expect(s.shopByIndex[s.selectedShopIndex][index]).toEqual(locked);
+        expect(s.shop.filter((p) => p.id === locked.id)).toHaveLength(1);
+        expect(s.history[0].type).toBe('refresh');
+    });
+
+    it('al cambiar de grupo la tienda nueva conserva los bloqueados y respeta tamaño y cuotas', () => {
+        useShopStore.setState({ cfg: { ...store().cfg!, shopRefreshEveryRegions: 1 } });
+        const [first, second] = buyable(2);
+        store().toggleLockAt(first);
+        store().toggleLockAt(second);
+        const locked = [store().shop[first], store().shop[second]];
+
+        store().nextSelectedRegion();
+        store().applySelectedRegionAndRefresh();
+        const { shop, cfg } = store();
+        expect(shop).toHaveLength(cfg!.shopSize);
+        expect([shop[first], shop[second]]).toEqual(locked);
+        for (const [tier, min] of Object.entries(cfg!.quota)) {
+            const count = shop.filter((p) => p.id !== -1 && requestedTierOf(p).toUpperCase() === tier.toUpperCase()).length;
+            expect(count).toBeGreaterThanOrEqual(min);
+        }
+    });
+
+    it('respeta maxLockedSlots y no deja rerollear un slot bloqueado', () => {
+        useShopStore.setState({ cfg: { ...store().cfg!, maxLockedSlots: 1 } });
+        const [first, second] = buyable(2);
+        store().toggleLockAt(first);
+        store().toggleLockAt(second);
+        expect(store().shop.filter((p) => p.__locked)).toHaveLength(1);
+
+        const shop = store().shop;
+        store().rerollAt(first);
+        expect(store().shop).toBe(shop);
+        expect(store().rerollsUsedGlobal).toBe(0);
+    });
+
+    it('se puede deshacer y se repite desde run.log', async () => {
+        const [index] = buyable(1);
+        store().toggleLockAt(index);
+        store().undoLast();
+        expect(store().shop[index].__locked).toBeFalsy();
+
+        store().redoLast();
+        store().refresh();
+        await settle();
+        const before = store();
+        const result = await store().rebuildFromLog();
+        expect(result?.firstDivergence).toBeNull();
+        expect(store().shop.map((p) => p.id)).toEqual(before.shop.map((p) => p.id));
+        expect(store().shop[index].__locked).toBe(true);
+    });
+
+    it('al comprar un slot bloqueado se libera el bloqueo', () => {
+        store().addMoney(100000);
+        const [index] = buyable(1);
+        store().toggleLockAt(index);
+        store().buyAt(index);
+        expect(store().shop[index].__locked).toBeFalsy();
+    });
+});
+
+describe('reservas', () => {
+    // Pasa a la región siguiente (con shopRefreshEveryRegions = 1 cada región es un grupo nuevo)
+    const nextRegion = () => {
+        store().nextSelectedRegion();
+        store().applySelectedRegionAndRefresh();
+    };
+
+    it('el depósito retiene el slot y completar cobra solo el resto', () => {
+        store().addMoney(100000);
+        const index = firstBuyable();
+        store().reserveAt(index);
+
+        const reservation = store().reservations[0];
+        expect(reservation.deposit).toBe(reserveDepositOf(store().cfg!, reservation.precio));
+        expect(store().money).toBe(100000 - reservation.deposit);
+        expect(store().shop[index].__reserved).toBe(reservation.id);
+
+        store().refresh();
+        expect(store().shop[index].id).toBe(reservation.pokemonId);
+        store().rerollAt(index);
+        expect(store().shop[index].id).toBe(reservation.pokemonId);
+
+        store().completeReservation(reservation.id);
+        const s = store();
+        expect(s.reservations).toHaveLength(0);
+        expect(s.purchases[0]).toMatchObject({ pokemonId: reservation.pokemonId, precio: reservation.precio });
+        expect(s.money).toBe(100000 - reservation.precio);
+        expect(s.shop[index].__purchased).toBe(true);
+        expect(s.shop[index].__reserved).toBeUndefined();
+        expect(s.history[0].type).toBe('reserve:complete');
+    });
+
+    it('con shopBuySlotAutofill completar rellena el slot igual que comprarlo', async () => {
+        useShopStore.setState({ cfg: { ...store().cfg!, shopBuySlotAutofill: true } });
+        store().addMoney(100000);
+        const index = firstBuyable();
+        store().reserveAt(index);
+        const reservation = store().reservations[0];
+
+        store().completeReservation(reservation.id);
+        const slot = store().shop[index];
+        expect(slot.id).not.toBe(reservation.pokemonId);
+        expect(slot.__purchased).toBeFalsy();
+        expect(slot.__reserved).toBeUndefined();
+
+        await settle();
+        const result = await store().rebuildFromLog();
+        expect(result?.firstDivergence).toBeNull();
+        expect(store().shop[index].id).toBe(slot.id);
+    });
+
+    it('caduca tras reserveHoldRegions cambios de grupo y se pierde el depósito', () => {
+        useShopStore.setState({ cfg: { ...store().cfg!, reserveHoldRegions: 1, shopRefreshEveryRegions: 1 } });
+        store().addMoney(100000);
+        const index = firstBuyable();
+        store().reserveAt(index);
+        const { id, deposit } = store().reservations[0];
+
+        nextRegion();
+        expect(store().reservations[0].regionsLeft).toBe(0);
+        nextRegion();
+
+        const s = store();
+        expect(s.reservations).toHaveLength(0);
+        expect(s.money).toBe(100000 - deposit);
+        expect(s.history.slice(0, 2).map((e) => e.type)).toEqual(['reserve:expire', 'refresh']);
+        const firstRegionShop = s.shopByIndex[regionKeyFor(0)];
+        expect(firstRegionShop.some((slot) => slot.__reserved === id)).toBe(false);
+
+        // Deshacer el cambio de región devuelve la reserva
+        store().undoLast();
+        expect(store().reservations[0].id).toBe(id);
+    });
+
+    it('se guarda en save.sav y se repite desde run.log', async () => {
+        store().addMoney(100000);
+        store().reserveAt(firstBuyable());
+        const [first] = store().reservations;
+        store().reserveAt(firstBuyable());
+        expect(store().reservations).toHaveLength(2);
+        store().cancelReservation(first.id);
+        nextRegion();
+        await settle();
+
+        const saved = await readSave();
+        expect(saved.reservations).toEqual(store().reservations);
+
+        const before = store();
+        const result = await store().rebuildFromLog();
+        expect(result?.firstDivergence).toBeNull();
+        expect(store().reservations).toEqual(before.reservations);
+        expect(store().money).toBe(before.money);
+        expect(store().history.some((e) => e.type === 'reserve:cancel')).toBe(true);
+    });
+});
+
+describe('deshacer y rehacer', () => {
+    it('undoLast y redoLast restauran dinero y compras sin borrar el historial', () => {
+        store().addMoney(10000);
+        const index = firstBuyable();
+        store().buyAt(index);
+        const afterBuy = store();
+
+        store().undoLast();
+        expect(store().money).toBe(10000);
+        expect(store().purchases).toHaveLength(0);
+        expect(store().shop[index].__purchased).toBeFalsy();
+        expect(store().history[0]).toMatchObject({ type: 'undo', meta: { type: 'undo', count: 1 } });
+
+        store().redoLast();
+        expect(store().money).toBe(afterBuy.money);
+        expect(store().purchases).toEqual(afterBuy.purchases);
+        expect(store().history[0]).toMatchObject({ type: 'redo', meta: { type: 'redo' } });
+    });
+
+    it('el diario guarda solo el slot que cambia en cada tienda de shopByIndex', () => {
+        store().addMoney(10000);
+        const before = store().shopByIndex;
+        store().buyAt(firstBuyable());
+
+        const { redo, undo } = store().undoStack[0];
+        const patches = Object.values(redo.shopByIndex ?? {});
+        expect(patches.length).toBeGreaterThan(0);
+        for (const patch of patches) expect(patch).toMatchObject({ remove: 1, insert: [expect.anything()] });
+        expect(Object.values(undo.shopByIndex ?? {}).every((patch) => patch?.insert.length === 1)).toBe(true);
+
+        store().undoLast();
+        expect(store().shopByIndex).toEqual(before);
+    });
+
+    it('undoTo deshace hasta el evento elegido', () => {
+        store().addMoney(100);
+        const target = store().history[0];
+        store().addMoney(200);
+        store().addMoney(300);
+
+        store().undoTo(target.id);
+        expect(store().money).toBe(0);
+        expect(store().redoStack).toHaveLength(3);
+    });
+
+    it('al repetir run.log una acción sin cambios no entra en el diario', async () => {
+        store().addMoney(100);
+        // Aplicar la región en la que ya se está no cambia el estado: la tienda no la puede deshacer
+        store().applySelectedRegionAndRefresh();
+        store().undoLast();
+        expect(store().money).toBe(0);
+        await settle();
+
+        const result = await store().rebuildFromLog();
+        expect(result?.firstDivergence).toBeNull();
+        expect(store().money).toBe(0);
+    });
+
+    it('al repetir run.log solo se pueden deshacer las últimas undoDepth acciones', async () => {
+        store().addMoney(100);
+        const target = store().history[0];
+        store().addMoney(200);
+        store().undoTo(target.id);
+        await settle();
+
+        // Con undoDepth 1 la app no habría podido deshacer las dos acciones
+        useShopStore.setState({ cfg: { ...store().cfg!, undoDepth: 1 } });
+        const result = await store().rebuildFromLog();
+        expect(result?.firstDivergence).toBe(2);
+        expect(result?.steps[2].divergence).toBe('no hay tantas acciones que deshacer');
+    });
+});
+
+describe('cambio de región', () => {
+    it('al volver a una región se recupera su tienda', () => {
+        const firstShop = store().shop.map((p) => p.id);
+        store().nextSelectedRegion();
+        store().applySelectedRegionAndRefresh();
+        expect(store().currentRegionIndex).toBe(1);
+
+        store().prevSelectedRegion();
+        store().applySelectedRegionAndRefresh();
+        expect(store().shop.map((p) => p.id)).toEqual(firstShop);
+    });
+
+    it('la tienda inicial de un perfil sin partida se recupera al volver a su grupo', async () => {
+        setStorage(createMemoryStorage());
+        useShopStore.setState(initialState, true);
+        await store().bootstrapWithProfile(await getCurrentProfile());
+        await settle();
+
+        // Con un grupo por región, volver a la primera región no debe regenerar su tienda
+        useShopStore.setState({ cfg: { ...store().cfg!, shopRefreshEveryRegions: 1 } });
+        const firstShop = store().shop.map((p) => p.id);
+        store().nextSelectedRegion();
+        store().applySelectedRegionAndRefresh();
+        store().prevSelectedRegion();
+        store().applySelectedRegionAndRefresh();
+        expect(store().shop.map((p) => p.id)).toEqual(firstShop);
+    });
+});
+
+describe('estadísticas', () => {
+    const statsOf = () =>
+        computeRunStats([
+            { profileId: 'p', profileName: 'p', regions: store().regions, purchases: store().purchases, history: store().history },
+        ]);
+
+    it('no cuenta los rerolls deshechos', () => {
+        store().rerollAt(firstBuyable());
+        store().undoLast();
+        expect(statsOf().rerollsByRegion).toEqual([]);
+
+        store().redoLast();
+        expect(statsOf().rerollsByRegion).toEqual([{ key: store().regions[0], value: 1, count: 1 }]);
+    });
+});
+
+describe('archivo del historial', () => {
+    it('los guardados simultáneos archivan cada evento una sola vez', async () => {
+        useShopStore.setState({ cfg: { ...store().cfg!, historyLimit: 2 } });
+        for (let i = 1; i <= 5; i++) store().addMoney(i);
+        await settle();
+
+        const archived = (await readTextFile(await profileFile('history-archive.jsonl')))
+            .trim()
+            .split('\n')
+            .map((line) => JSON.parse(line).message);
+        const all = [...archived, ...[...store().history].reverse().map((e) => e.message)];
+        expect(store().history).toHaveLength(2);
+        expect(all).toHaveLength(new Set(all).size);
+        expect(all.filter((m) => /\+\d/.test(m))).toHaveLength(5);
+    });
+});
+
+describe('registro de la partida', () => {
+    it('run.log registra cada acción y rebuildFromLog reproduce la partida', async () => {
+        store().addMoney(10000);
+        store().buyAt(firstBuyable());
+        store().rerollAt(firstBuyable());
+        await settle();
+
+        const types = (await readTextFile(await profileFile('run.log')))
+            .trim()
+            .split('\n')
+            .map((line) => JSON.parse(line).action.type);
+        expect(types).toEqual(['start', 'money', 'buy', 'reroll']);
+
+        const before = store();
+        const result = await store().rebuildFromLog();
+        expect(result?.steps).toHaveLength(3);
+        expect(store().money).toBe(before.money);
+        expect(store().shop.map((p) => p.id)).toEqual(before.shop.map((p) => p.id));
+    });
+});
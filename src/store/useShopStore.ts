@@ -2,33 +2,135 @@ import { create } from 'zustand';
 import {
     DEFAULT_CONFIG,
     DEFAULT_POKEMON,
-    loadConfig,
-    loadPokemonData,
+    loadConfigAndData,
+    saveConfig,
+    savePokemonData,
+    type ConfigDiagnostics,
+    type InvalidConfigPolicy,
 } from '../lib/config';
+import { computePrice, type PriceBreakdown } from '../lib/pricing';
 import { getCurrentProfile } from '../lib/profileManager';
-import { buildShopForRegion, findRerollCandidate, wouldRerollCauseTierDowngrade } from '../lib/storeLogic';
-import { loadSaveData, saveSaveData, type SaveData } from '../lib/saveManager';
+import { randomSeed } from '../lib/random';
+import { canSpendReroll, rerollBudgetOf } from '../lib/rerollPolicy';
+import { archiveHistory, historyLimitOf } from '../lib/history';
+import { historyFromReplay, replayRun, type ReplayResult } from '../lib/replay';
+import {
+    applyBuy,
+    applyCancelReservation,
+    applyCompleteReservation,
+    applyLock,
+    applyMoney,
+    applyRefresh,
+    applyRegion,
+    applyReroll,
+    applyReserve,
+    applySell,
+    regionKeyFor,
+    rerollExclusions,
+    rngFor,
+    sellRefundOf,
+    unavailableIdsOf,
+    undoMessage,
+    type RunContext,
+    type RunStep,
+} from '../lib/runActions';
+import { appendRunLog, hasRunLog, readRunLog, startRunLog } from '../lib/runLog';
+import {
+    buildShopForRegion,
+    requestedTierOf,
+    wouldRerollCauseTierDowngrade,
+} from '../lib/storeLogic';
+import {
+    loadSaveDataWithRecovery,
+    SaveDataError,
+    saveSaveData,
+    type SaveData,
+} from '../lib/saveManager';
+import { tierPriority } from '../lib/tiers';
+import { applyPatch, createJournalEntry, undoableOf, undoDepthOf } from '../lib/undoJournal';
 import type {
     AppConfig,
     HistoryEvent,
+    JournalEntry,
     Pokemon,
     PurchaseItem,
+    Reservation,
+    RunAction,
     ShopPokemon,
-    Snapshot,
-    Tier,
+    UndoableState,
+    ValidationIssue,
 } from '../types';
 
 // Configuración interna de la tienda
-const UNDO_LIMIT = 20; // máximo de acciones que se pueden deshacer
 const FLASH_MS = 2000; // duración del mensaje "No hay pokémon disponibles..."
 
 // Mapa para evitar solapamientos de temporizadores de "slot agotado"
 // clave = `${región}:${índice}`
 const exhaustedTimers = new Map<string, number>();
 
-// Genera una clave estable para el caché regional dentro de shopByIndex
-function regionKeyFor(index: number): number {
-    return -(index + 1); // evita colisión con índices de tienda >= 0
+// Los guardados se ejecutan de uno en uno: las acciones llaman a saveCurrentState sin await
+// y dos guardados a la vez archivarían los mismos eventos dos veces
+let saveQueue: Promise<void> = Promise.resolve();
+
+// Semilla inicial de una partida: la fijada en config o una aleatoria
+function initialRunSeed(cfg: AppConfig): number {
+    return typeof cfg.seed === 'number' && Number.isFinite(cfg.seed)
+        ? cfg.seed >>> 0
+        : randomSeed();
+}
+
+// Error de carga del guardado tal y como se muestra en la UI
+export type SaveLoadError = {
+    message: string;
+    issues: ValidationIssue[];
+};
+
+// Partida recuperada automáticamente desde una copia de seguridad
+export type SaveRecovery = {
+    backup: string; // nombre de la copia usada
+    issues: ValidationIssue[]; // problemas del save.sav original
+};
+
+// Carga el guardado del perfil (recurriendo a copias de seguridad si save.sav está dañado).
+// Si no hay nada recuperable devuelve el error en vez de lanzarlo:
+// la tienda arranca en memoria pero no se guarda nada hasta que el usuario decida qué hacer.
+async function tryLoadSaveData(profileId?: string): Promise<{
+    savedState: SaveData | null;
+    saveError: SaveLoadError | null;
+    saveRecovery: SaveRecovery | null;
+}> {
+    try {
+        const result = await loadSaveDataWithRecovery(profileId);
+        return {
+            savedState: result.saveData,
+            saveError: null,
+            saveRecovery: result.recoveredFrom
+                ? { backup: result.recoveredFrom, issues: result.issues }
+                : null,
+        };
+    } catch (err) {
+        if (err instanceof SaveDataError) {
+            return {
+                savedState: null,
+                saveError: { message: err.message, issues: err.issues },
+                saveRecovery: null,
+            };
+        }
+        throw err;
+    }
+}
+
+// Precio actual de un slot según las reglas de pricing y el estado de la partida
+export function priceOf(
+    s: Pick<ShopState, 'cfg' | 'regions' | 'currentRegionIndex' | 'visitedRegions' | 'purchases'>,
+    slot: ShopPokemon
+): PriceBreakdown {
+    const cfg = s.cfg ?? DEFAULT_CONFIG;
+    return computePrice(slot, cfg, {
+        region: s.regions[s.currentRegionIndex] ?? '',
+        visitedRegions: s.visitedRegions,
+        purchases: s.purchases,
+    });
 }
 
 export type ShopState = {
@@ -49,14 +151,22 @@ export type ShopState = {
     shopByIndex: Record<number, ShopPokemon[]>; // tiendas guardadas por índice
 
     // Estado del juego
-    rerollsUsedGlobal: number; // rerolls utilizados (ahora globales)
+    rerollsUsedGlobal: number; // rerolls utilizados (políticas 'global' y 'paid')
+    rerollsUsedBy: Record<string, number>; // rerolls utilizados por región o tier (políticas 'region' y 'tier')
+    runSeed: number; // semilla de la partida
+    rngNonce: number; // acciones aleatorias realizadas (deriva las sub-semillas)
     money: number; // dinero actual del jugador
     history: HistoryEvent[]; // historial de acciones
     purchases: PurchaseItem[]; // compras realizadas
-    undoStack: Snapshot[]; // pila de snapshots para deshacer acciones
+    reservations: Reservation[]; // reservas activas (la más reciente primero)
+    undoStack: JournalEntry[]; // acciones que se pueden deshacer (la más reciente primero)
+    redoStack: JournalEntry[]; // acciones deshechas que se pueden rehacer (la próxima primero)
+    saveError: SaveLoadError | null; // save.sav corrupto detectado al cargar (bloquea el guardado)
+    saveRecovery: SaveRecovery | null; // aviso de partida recuperada desde una copia
+    configDiagnostics: ConfigDiagnostics | null; // incidencias de config.json / datos en la última carga
 
     // Acciones disponibles
-    bootstrap: () => Promise<void>;
+    bootstrap: (policy?: InvalidConfigPolicy) => Promise<void>;
     bootstrapWithProfile: (profileId: string) => Promise<void>;
     selectRegionIndex: (i: number) => void;
     nextSelectedRegion: () => void;
@@ -65,11 +175,24 @@ export type ShopState = {
     refresh: () => void;
     addMoney: (amount: number) => void;
     buyAt: (index: number) => void;
+    sellPurchase: (purchaseId: string) => void;
     rerollAt: (index: number) => void;
+    toggleLockAt: (index: number) => void;
+    reserveAt: (index: number) => void;
+    completeReservation: (reservationId: string) => void;
+    cancelReservation: (reservationId: string) => void;
     undoLast: () => void;
+    redoLast: () => void;
+    undoTo: (historyId: string) => void;
     resetAll: () => Promise<void>;
     refreshForProfileSwitch: (oldProfileId?: string, newProfileId?: string) => Promise<void>;
     saveCurrentState: () => Promise<void>;
+    discardCorruptSave: () => Promise<void>;
+    dismissSaveRecovery: () => void;
+    dismissConfigDiagnostics: () => void;
+    updatePokemonData: (data: Pokemon[]) => Promise<void>;
+    updateConfig: (cfg: AppConfig) => Promise<void>;
+    rebuildFromLog: () => Promise<ReplayResult | null>;
 
     // Funciones auxiliares para inicialización
     initializeWithSavedState: (cfg: AppConfig, data: Pokemon[], regions: string[], savedState: SaveData) => Promise<void>;
@@ -77,19 +200,82 @@ export type ShopState = {
     initializeFallbackState: () => Promise<void>;
 };
 
-// Crea una instantánea del estado actual para poder deshacerla más tarde
-function snapshotOf(s: ShopState): Snapshot {
+// Registra en el diario la acción que acaba de llevar el estado desde `before` al actual.
+// La etiqueta y el enlace al historial salen del evento de la acción (por defecto, el último añadido).
+// Una acción nueva invalida lo que se podía rehacer.
+function recordUndo(st: ShopState, before: UndoableState, event: HistoryEvent | undefined = st.history[0]): Partial<ShopState> {
+    const entry = createJournalEntry(before, undoableOf(st), event?.message ?? '', event?.id);
+    if (!entry) return {};
+    return {
+        undoStack: [entry, ...st.undoStack].slice(0, undoDepthOf(st.cfg?.undoDepth)),
+        redoStack: [],
+    };
+}
+
+// Deshace las `count` acciones más recientes: cada una pasa a la pila de rehacer
+function undoEntries(st: ShopState, count: number): Partial<ShopState> {
+    const undone = st.undoStack.slice(0, count);
+    let state = undoableOf(st);
+    for (const entry of undone) state = applyPatch(state, entry.undo);
     return {
-        currentRegionIndex: s.currentRegionIndex,
-        selectedRegionIndex: s.selectedRegionIndex,
-        selectedShopIndex: s.selectedShopIndex,
-        shop: JSON.parse(JSON.stringify(s.shop)),
-        shopByIndex: JSON.parse(JSON.stringify(s.shopByIndex)),
-        rerollsUsedGlobal: s.rerollsUsedGlobal,
-        money: s.money,
-        purchases: JSON.parse(JSON.stringify(s.purchases)),
-        history: JSON.parse(JSON.stringify(s.history)),
+        ...state,
+        undoStack: st.undoStack.slice(count),
+        redoStack: [...undone.reverse(), ...st.redoStack],
+    };
+}
+
+// Región de un evento: la activa tras la acción (por defecto la actual)
+function regionAt(st: ShopState, regionIndex = st.currentRegionIndex): string | undefined {
+    return st.regions[regionIndex];
+}
+
+// Config, datos y semilla con los que se aplican las acciones de la partida
+function runContextOf(s: ShopState): RunContext {
+    return { cfg: s.cfg ?? DEFAULT_CONFIG, data: s.data, regions: s.regions, runSeed: s.runSeed };
+}
+
+// Aplica una acción ya calculada: estado, evento del historial (con la acción en meta) y diario de deshacer.
+// Los avisos del paso (p. ej. reservas caducadas) van al historial después del evento principal
+function withStep(st: ShopState, step: RunStep): Partial<ShopState> {
+    const ts = new Date().toISOString();
+    const region = regionAt(st, step.state.currentRegionIndex);
+    const event: HistoryEvent = {
+        id: crypto.randomUUID(),
+        ts,
+        type: step.type,
+        message: step.message,
+        meta: step.action,
+        region,
+        money: step.state.money,
     };
+    const notices: HistoryEvent[] = (step.notices ?? []).map((notice) => ({
+        ...notice,
+        id: crypto.randomUUID(),
+        ts,
+        region,
+        money: step.state.money,
+    }));
+    const next: ShopState = { ...st, ...step.state, history: [...notices.reverse(), event, ...st.history] };
+    return { ...step.state, history: next.history, ...recordUndo(next, undoableOf(st), event) };
+}
+
+// Escribe la acción en run.log (igual que el guardado, no se escribe nada mientras save.sav esté dañado).
+// `ts` debe ser el mismo que usó la acción para que la repetición reproduzca las fechas de compra y venta
+function logRunAction(s: ShopState, action: RunAction, ts = new Date().toISOString()): void {
+    if (!s.cfg || s.saveError) return;
+    appendRunLog({ ts, action });
+}
+
+// Empieza el log de la partida con el estado actual como punto de partida
+function startRunLogFrom(s: ShopState, resumed = false, profileId?: string): void {
+    if (!s.cfg || s.saveError) return;
+    startRunLog(
+        {
+            ts: new Date().toISOString(),
+            action: { type: 'start', runSeed: s.runSeed, state: undoableOf(s), ...(resumed ? { resumed } : {}) },
+        },
+        profileId
+    );
 }
 
 export const useShopStore = create<ShopState>()((set, get) => ({
@@ -104,25 +290,34 @@ export const useShopStore = create<ShopState>()((set, get) => ({
             shop: [],
             shopByIndex: {},
             rerollsUsedGlobal: 0,
+            rerollsUsedBy: {},
+            runSeed: 0,
+            rngNonce: 0,
             money: 0,
             history: [],
             purchases: [],
+            reservations: [],
             undoStack: [],
+            redoStack: [],
+            saveError: null,
+            saveRecovery: null,
+            configDiagnostics: null,
 
             // ================= Inicialización =================
-            bootstrap: async () => {
+            bootstrap: async (policy) => {
                 console.log(`[Tienda] Iniciando bootstrap`);
                 try {
-                    // Cargar configuración y datos de pokémon
-                    const cfg = await loadConfig();
-                    const data = await loadPokemonData(cfg);
+                    // Cargar y validar configuración y datos de pokémon
+                    const { cfg, data, diagnostics } = await loadConfigAndData(policy);
+                    set({ configDiagnostics: diagnostics });
                     const regions = cfg.regionsOrder.length ? cfg.regionsOrder : ['Kanto'];
 
                     console.log(`[Tienda] Cargados ${data.length} pokémon, configurando ${regions.length} regiones`);
 
                     // Intentar cargar estado guardado del perfil actual
                     const currentProfileId = await getCurrentProfile();
-                    const savedState = await loadSaveData();
+                    const { savedState, saveError, saveRecovery } = await tryLoadSaveData();
+                    set({ saveError, saveRecovery });
 
                     if (savedState) {
                         console.log(`[Tienda] Estado guardado encontrado para perfil: ${currentProfileId}`);
@@ -143,10 +338,9 @@ export const useShopStore = create<ShopState>()((set, get) => ({
             bootstrapWithProfile: async (profileId: string) => {
                 console.log(`[Store] Bootstrap with specific profile started: ${profileId}`);
                 try {
-                    console.log(`[Store] Loading config...`);
-                    const cfg = await loadConfig();
-                    console.log(`[Store] Config loaded, loading pokemon data...`);
-                    const data = await loadPokemonData(cfg);
+                    console.log(`[Store] Loading config and pokemon data...`);
+                    const { cfg, data, diagnostics } = await loadConfigAndData();
+                    set({ configDiagnostics: diagnostics });
                     console.log(`[Store] Loaded ${data.length} pokemon, setting up regions...`);
                     const regions = cfg.regionsOrder.length
                         ? cfg.regionsOrder
@@ -155,7 +349,8 @@ export const useShopStore = create<ShopState>()((set, get) => ({
 
                     // Load saved state for SPECIFIC profile
                     console.log(`[Store] Loading saved state for specific profile: ${profileId}`);
-                    const savedState = await loadSaveData(profileId);
+                    const { savedState, saveError, saveRecovery } = await tryLoadSaveData(profileId);
+                    set({ saveError, saveRecovery });
                     if (savedState) {
                         console.log(`[Store] Found saved state for profile: ${profileId}`, savedState);
                     } else {
@@ -171,10 +366,15 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                     let shop: ShopPokemon[] = [];
                     let shopByIndex: Record<number, ShopPokemon[]> = {};
                     let rerollsUsedGlobal = 0;
+                    let rerollsUsedBy: Record<string, number> = {};
+                    let runSeed = initialRunSeed(cfg);
+                    let rngNonce = 0;
                     let money = 0;
                     let purchases: PurchaseItem[] = [];
+                    let reservations: Reservation[] = [];
                     let history: HistoryEvent[] = [];
-                    let undoStack: Snapshot[] = [];
+                    let undoStack: JournalEntry[] = [];
+                    let redoStack: JournalEntry[] = [];
 
                     if (savedState) {
                         currentRegionIndex = savedState.currentRegionIndex ?? 0;
@@ -184,10 +384,15 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                         visitedRegions = savedState.visitedRegions || [];
                         shopByIndex = savedState.shopByIndex || {};
                         rerollsUsedGlobal = savedState.rerollsUsedGlobal ?? 0;
+                        rerollsUsedBy = savedState.rerollsUsedBy ?? {};
+                        runSeed = savedState.runSeed ?? runSeed;
+                        rngNonce = savedState.rngNonce ?? 0;
                         money = savedState.money ?? 0;
                         purchases = savedState.purchases || [];
+                        reservations = savedState.reservations || [];
                         history = savedState.history || [];
                         undoStack = savedState.undoStack || [];
+                        redoStack = savedState.redoStack || [];
 
                         const persistedIdx = Math.max(0, Math.min(currentRegionIndex, regions.length - 1));
                         const region = regions[persistedIdx];
@@ -197,17 +402,17 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                         const existingRegionShop = shopByIndex[rk];
                         const existingGroupShop = shopByIndex[shopIdx];
 
-                        const purchasedIds = new Set<number>(purchases.map((p) => p.pokemonId));
+                        const purchasedIds = unavailableIdsOf({ purchases, reservations });
 
                         shop = (existingRegionShop && existingRegionShop.length && existingRegionShop) ||
                                (existingGroupShop && existingGroupShop.length && existingGroupShop) ||
-                               (buildShopForRegion(data, region, cfg, purchasedIds) as ShopPokemon[]);
+                               (buildShopForRegion(data, region, cfg, purchasedIds, rngFor(runSeed, 'shop', region, ++rngNonce)) as ShopPokemon[]);
                     } else {
                         console.log(`[Store] No saved state, creating fresh shop for profile: ${profileId}`);
                         const region = regions[0];
                         const purchasedIds = new Set<number>();
-                        shop = buildShopForRegion(data, region, cfg, purchasedIds) as ShopPokemon[];
-                        shopByIndex = { [0]: shop };
+                        shop = buildShopForRegion(data, region, cfg, purchasedIds, rngFor(runSeed, 'shop', region, ++rngNonce)) as ShopPokemon[];
+                        shopByIndex = { [0]: shop, [regionKeyFor(0)]: shop };
                         visitedRegions = [region];
                     }
 
@@ -224,15 +429,23 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                         shop,
                         shopByIndex,
                         rerollsUsedGlobal,
+                        rerollsUsedBy,
+                        runSeed,
+                        rngNonce,
                         money,
                         purchases,
+                        reservations,
                         history,
                         undoStack,
+                        redoStack,
                     });
 
                     console.log(`[Store] Bootstrap completed for profile: ${profileId}`);
                     // Save state after bootstrap
                     await get().saveCurrentState();
+                    // Partida nueva: log nuevo. Partida guardada sin log (anterior al registro): se retoma desde aquí
+                    if (!savedState) startRunLogFrom(get(), false, profileId);
+                    else if (!(await hasRunLog(profileId))) startRunLogFrom(get(), true, profileId);
                 } catch (err) {
                     console.error(`[Store] Bootstrap error for profile ${profileId}:`, err);
                     // Fallback to fresh state
@@ -247,13 +460,18 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                         selectedShopIndex: 0,
                         lastShopIndex: 0,
                         shop,
-                        shopByIndex: { [0]: shop },
+                        shopByIndex: { [0]: shop, [regionKeyFor(0)]: shop },
                         visitedRegions: [region],
                         rerollsUsedGlobal: 0,
+                        rerollsUsedBy: {},
+                        runSeed: initialRunSeed(DEFAULT_CONFIG),
+                        rngNonce: 0,
                         money: 0,
                         purchases: [],
+                        reservations: [],
                         history: [],
                         undoStack: [],
+                        redoStack: [],
                     });
                     // Save state after bootstrap fallback
                     await get().saveCurrentState();
@@ -297,106 +515,11 @@ export const useShopStore = create<ShopState>()((set, get) => ({
             applySelectedRegionAndRefresh: () => {
                 const s = get();
                 if (!s.cfg) return;
-                // Snapshot para deshacer
-                set((st) => ({
-                    undoStack: [snapshotOf(st), ...st.undoStack].slice(
-                        0,
-                        UNDO_LIMIT
-                    ),
-                }));
-
-                const regionIdx = s.selectedRegionIndex;
-                const shopIdx = s.selectedShopIndex;
-                const lastShopIdx = s.lastShopIndex;
-                const targetRegion = s.regions[regionIdx];
 
-                const rk = regionKeyFor(regionIdx);
-                const visited = new Set<string>(s.visitedRegions);
-                const isNewRegionName = !visited.has(targetRegion);
-
-                const purchasedIds = new Set<number>(
-                    s.purchases.map((p) => p.pokemonId)
-                );
-
-                // 1) Si ya existe snapshot por región, úsalo SIEMPRE (objetivo: “cuando vuelva, que sea la misma”)
-                let newShop = (s.shopByIndex[rk] ?? []) as ShopPokemon[];
-
-                // 2) Si NO existe snapshot por región, aplicamos la lógica actual:
-                //    - si cambia el shopIdx (ha pasado el umbral N) => (re)genera
-                //    - si no, usa la tienda canónica del grupo (o genera si no existe)
-                if (!newShop.length) {
-                    if (lastShopIdx !== shopIdx) {
-                        newShop = buildShopForRegion(
-                            s.data,
-                            targetRegion,
-                            s.cfg,
-                            purchasedIds
-                        ) as ShopPokemon[];
-                    } else {
-                        newShop = (s.shopByIndex[shopIdx] ??
-                            []) as ShopPokemon[];
-                        if (!newShop.length) {
-                            newShop = buildShopForRegion(
-                                s.data,
-                                targetRegion,
-                                s.cfg,
-                                purchasedIds
-                            ) as ShopPokemon[];
-                        }
-                    }
-                }
-
-                // --- Rerolls logic ---
-                let nextRerollsUsed = s.rerollsUsedGlobal;
-                if (isNewRegionName) {
-                    visited.add(targetRegion);
-                    const uniqueCount = visited.size;
-                    const rrEvery = s.cfg.rerollRechargeEveryRegions;
-                    if (
-                        (rrEvery > 0 && uniqueCount % rrEvery === 1) ||
-                        rrEvery === 1
-                    ) {
-                        nextRerollsUsed = 0;
-                    }
-                }
-
-                const groupSize = s.cfg.shopRefreshEveryRegions ?? 1;
-                const groupStart =
-                    Math.floor(regionIdx / groupSize) * groupSize;
-                const groupEnd = Math.min(
-                    groupStart + groupSize - 1,
-                    s.regions.length - 1
-                );
-
-                set((st) => {
-                    const nextShopByIndex = {
-                        ...st.shopByIndex,
-                        [shopIdx]: newShop,
-                    };
-                    for (let i = groupStart; i <= groupEnd; i++) {
-                        nextShopByIndex[regionKeyFor(i)] = newShop;
-                    }
-                    return {
-                        currentRegionIndex: regionIdx,
-                        lastShopIndex: shopIdx,
-                        shop: newShop,
-                        shopByIndex: nextShopByIndex,
-                        visitedRegions: Array.from(visited),
-                        rerollsUsedGlobal: nextRerollsUsed,
-                        history: [
-                            {
-                                id: crypto.randomUUID(),
-                                ts: new Date().toISOString(),
-                                type: 'refresh',
-                                message: `Región activa: ${targetRegion}`,
-                            },
-                            ...st.history,
-                        ],
-                    };
-                });
-                console.log(
-                    `Aplicada región ${targetRegion} con grupos ${groupStart}-${groupEnd} sincronizados`
-                );
+                const step = applyRegion(s, runContextOf(s), s.selectedRegionIndex, s.selectedShopIndex);
+                set((st) => withStep(st, step));
+                console.log(`[Tienda] Aplicada región ${s.regions[s.selectedRegionIndex]}`);
+                logRunAction(get(), step.action);
 
                 // Save state after applying region
                 get().saveCurrentState();
@@ -406,69 +529,15 @@ export const useShopStore = create<ShopState>()((set, get) => ({
             refresh: () => {
                 const s = get();
                 if (!s.cfg) return;
-                const activeRegion = s.regions[s.currentRegionIndex];
-                const shopIdx = s.selectedShopIndex;
-                const selectedRegion = s.regions[s.selectedRegionIndex];
-                const purchasedIds = new Set<number>(
-                    s.purchases.map((p) => p.pokemonId)
-                );
-                if (activeRegion !== selectedRegion) {
+                if (s.currentRegionIndex !== s.selectedRegionIndex) {
                     get().applySelectedRegionAndRefresh();
                     return;
                 }
-                set((st) => ({
-                    undoStack: [snapshotOf(st), ...st.undoStack].slice(
-                        0,
-                        UNDO_LIMIT
-                    ),
-                }));
-                const shop = buildShopForRegion(
-                    s.data,
-                    activeRegion,
-                    s.cfg,
-                    purchasedIds
-                ) as ShopPokemon[];
-                const nextUsed = s.cfg.rerollResetOnRefresh
-                    ? 0
-                    : s.rerollsUsedGlobal;
-                // Al refrescar manualmente, sí se permite regenerar la tienda actual
-                const groupSize = s.cfg.shopRefreshEveryRegions ?? 1;
-                const groupStart =
-                    Math.floor(s.currentRegionIndex / groupSize) * groupSize;
-                const groupEnd = Math.min(
-                    groupStart + groupSize - 1,
-                    s.regions.length - 1
-                );
 
-                set((st) => {
-                    // Claves a actualizar: canónica del grupo + todos los snapshots de región del grupo
-                    const nextShopByIndex = {
-                        ...st.shopByIndex,
-                        [shopIdx]: shop,
-                    };
-                    let allRegions = [];
-                    for (let i = groupStart; i <= groupEnd; i++) {
-                        const rk = regionKeyFor(i);
-                        nextShopByIndex[rk] = shop;
-                        allRegions.push(st.regions[i]);
-                    }
-                    return {
-                        shop,
-                        shopByIndex: nextShopByIndex,
-                        rerollsUsedGlobal: nextUsed,
-                        history: [
-                            {
-                                id: crypto.randomUUID(),
-                                ts: new Date().toISOString(),
-                                type: 'refresh',
-                                message: `Tienda regenerada en ${allRegions.join(
-                                    ', '
-                                )}.`,
-                            },
-                            ...st.history,
-                        ],
-                    };
-                });
+                // Al refrescar manualmente, sí se permite regenerar la tienda actual
+                const step = applyRefresh(s, runContextOf(s));
+                set((st) => withStep(st, step));
+                logRunAction(get(), step.action);
 
                 // Save state after refresh
                 get().saveCurrentState();
@@ -478,24 +547,9 @@ export const useShopStore = create<ShopState>()((set, get) => ({
             addMoney: (amount) => {
                 if (!Number.isFinite(amount) || amount === 0) return;
 
-                // Crear snapshot para poder deshacer
-                set((st) => ({
-                    undoStack: [snapshotOf(st), ...st.undoStack].slice(0, UNDO_LIMIT),
-                }));
-
-                // Actualizar dinero e historial
-                set((s) => ({
-                    money: s.money + amount,
-                    history: [
-                        {
-                            id: crypto.randomUUID(),
-                            ts: new Date().toISOString(),
-                            type: amount > 0 ? 'money:add' : 'money:subtract',
-                            message: `Saldo ${amount > 0 ? '+' : ''}${amount}. Nuevo saldo: ${s.money + amount}`,
-                        },
-                        ...s.history,
-                    ],
-                }));
+                const step = applyMoney(get(), amount);
+                set((st) => withStep(st, step));
+                logRunAction(get(), step.action);
 
                 get().saveCurrentState();
             },
@@ -503,20 +557,21 @@ export const useShopStore = create<ShopState>()((set, get) => ({
             // ================= Sistema de Compras =================
             buyAt: (index) => {
                 const s = get();
-                const cfg = s.cfg;
-                if (!cfg) return;
+                if (!s.cfg) return;
 
                 const slot = s.shop[index];
-                if (!slot || slot.__purchased) return;
+                if (!slot || slot.__purchased || slot.__reserved) return; // los reservados se completan con completeReservation
 
-                if (s.money < slot.precio) {
+                if (s.money < priceOf(s, slot).final) {
                     set((st) => ({
                         history: [
                             {
                                 id: crypto.randomUUID(),
                                 ts: new Date().toISOString(),
-                                type: 'buy',
+                                type: 'buy:failed',
                                 message: `Compra fallida de ${slot.nombre}: saldo insuficiente.`,
+                                region: regionAt(st),
+                                money: st.money,
                             },
                             ...st.history,
                         ],
@@ -524,116 +579,36 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                     return;
                 }
 
-                // snapshot para deshacer
-                set((st) => ({
-                    undoStack: [snapshotOf(st), ...st.undoStack].slice(
-                        0,
-                        UNDO_LIMIT
-                    ),
-                }));
+                const ts = new Date().toISOString();
+                const step = applyBuy(s, runContextOf(s), index, { ts });
+                if (!step) return;
+                set((st) => withStep(st, step));
+                logRunAction(get(), step.action, ts);
 
-                const region = s.regions[s.currentRegionIndex];
-                const shopIdx = s.selectedShopIndex;
+                // Save state after purchase
+                get().saveCurrentState();
+            },
 
-                // Registrar compra
-                const purchase: PurchaseItem = {
-                    id: crypto.randomUUID(),
-                    ts: new Date().toISOString(),
-                    region,
-                    pokemonId: slot.id,
-                    nombre: slot.nombre,
-                    tier: slot.tier,
-                    precio: slot.precio,
-                };
-
-                // Construir nueva tienda según shopBuyAutofill
-                let newShop = s.shop.slice();
-                console.log(cfg.shopBuySlotAutofill)
-                if (cfg.shopBuySlotAutofill) {
-                    // Reglas para buscar candidato del MISMO tier y región
-                    const forbidId = slot.id; // evita que salga el mismo inmediatamente
-                    const purchasedIds = new Set<number>(
-                        s.purchases.map((p) => p.pokemonId)
-                    );
-                    // Si includePurchasedInRerollPool === false, también excluye el recién comprado
-                    if (!cfg.includePurchasedInRerollPool)
-                        purchasedIds.add(slot.id);
-
-                    // usedIds: ids visibles en tienda excepto el propio índice que vamos a reemplazar
-                    const usedIds = new Set<number>();
-                    if (!cfg.allowDuplicates) {
-                        s.shop.forEach((p, i) => {
-                            if (!p || i === index) return;
-                            usedIds.add(p.id);
-                        });
-                    }
+            // ================= Venta de Compras =================
+            sellPurchase: (purchaseId) => {
+                const s = get();
+                if (!s.cfg) return;
+                const purchase = s.purchases.find((p) => p.id === purchaseId);
+                if (!purchase || purchase.soldAt) return;
 
-                    const cand = findRerollCandidate(
-                        s.data,
-                        region,
-                        slot.tier as Tier,
-                        usedIds,
-                        purchasedIds,
-                        forbidId,
-                        cfg
+                if (s.cfg.confirmSell ?? true) {
+                    const confirmed = window.confirm(
+                        `¿Vender ${purchase.nombre} por ${sellRefundOf(s.cfg, purchase)}$ (pagaste ${purchase.precio}$)?`
                     );
-
-                    if (cand) {
-                        newShop[index] = { ...cand };
-                    } else {
-                        // Sin candidato → hueco
-                        newShop[index] = {
-                            id: -1,
-                            nombre: '—',
-                            tier: slot.tier,
-                            precio: 0,
-                            regiones: [region],
-                        } as any;
-                    }
-                } else {
-                    // Comportamiento actual: marcar como comprado y dejar el hueco "Comprado"
-                    newShop[index] = {
-                        ...slot,
-                        __purchased: true,
-                        __exhausted: false,
-                    };
+                    if (!confirmed) return;
                 }
 
-                // Sincronizar el grupo (igual que hacías en reroll/refresh)
-                const groupSize = cfg.shopRefreshEveryRegions ?? 1;
-                const groupStart =
-                    Math.floor(s.currentRegionIndex / groupSize) * groupSize;
-                const groupEnd = Math.min(
-                    groupStart + groupSize - 1,
-                    s.regions.length - 1
-                );
+                const ts = new Date().toISOString();
+                const step = applySell(s, runContextOf(s), purchaseId, ts);
+                if (!step) return;
+                set((st) => withStep(st, step));
+                logRunAction(get(), step.action, ts);
 
-                set((st) => {
-                    const nextShopByIndex = {
-                        ...st.shopByIndex,
-                        [shopIdx]: newShop,
-                    };
-                    for (let i = groupStart; i <= groupEnd; i++) {
-                        nextShopByIndex[-(i + 1)] = newShop; // regionKeyFor(i)
-                    }
-                    return {
-                        money: st.money - slot.precio,
-                        shop: newShop,
-                        shopByIndex: nextShopByIndex,
-                        purchases: [purchase, ...st.purchases],
-                        history: [
-                            {
-                                id: crypto.randomUUID(),
-                                ts: new Date().toISOString(),
-                                type: 'buy',
-                                message: `Compra de ${slot.nombre} por ${slot.precio} en ${region}`,
-                            },
-                            ...st.history,
-                        ],
-                    };
-                });
-
-                // Save state after purchase
                 get().saveCurrentState();
             },
 
@@ -643,35 +618,31 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                 if (!s.cfg) return;
                 const region = s.regions[s.currentRegionIndex];
                 const shopIdx = s.selectedShopIndex;
-                const used = s.rerollsUsedGlobal;
-                const max = s.cfg.rerollsPerRegion;
-                if (used >= max) return; // la UI ya desactiva, aquí protegemos
                 const slot = s.shop[index];
-                if (!slot) return;
+                if (!slot || slot.__locked || slot.__reserved) return; // los bloqueados y reservados no se rerollean
+                // Sin presupuesto (o sin dinero en la política de pago): la UI ya desactiva, aquí protegemos
+                if (!canSpendReroll(rerollBudgetOf(s, s.cfg, region, slot), s.money)) return;
 
-                // Ids visibles (evitar duplicados si allowDuplicates=false)
-                const usedIds = new Set<number>();
-                if (!s.cfg?.allowDuplicates) {
-                    for (const x of s.shop) if (x) usedIds.add(x.id);
-                }
-                const forbidId = slot.id; // no permitir el mismo al rerollear
-                const purchasedIds = new Set<number>(
-                    s.purchases.map((p) => p.pokemonId)
-                );
+                const ctx = runContextOf(s);
 
                 // Verificar si el reroll causaría una degradación de tier
+                const { usedIds, purchasedIds } = rerollExclusions(s, ctx);
                 const downgradeCheck = wouldRerollCauseTierDowngrade(
                     s.data,
                     region,
-                    slot.tier as Tier,
+                    requestedTierOf(slot),
                     usedIds,
                     purchasedIds,
-                    forbidId,
+                    slot.id,
                     s.cfg
                 );
 
-                // Si habría degradación, mostrar confirmación
-                if (downgradeCheck.wouldDowngrade && downgradeCheck.fallbackTier) {
+                // Si habría degradación respecto al tier que tiene ahora el slot, mostrar confirmación
+                if (
+                    downgradeCheck.wouldDowngrade &&
+                    downgradeCheck.fallbackTier &&
+                    tierPriority(downgradeCheck.fallbackTier, s.cfg.tiers) < tierPriority(slot.tier, s.cfg.tiers)
+                ) {
                     const confirmed = window.confirm(
                         `El tier se reducirá de ${slot.tier} a ${downgradeCheck.fallbackTier} al rerollear. ¿Continuar?`
                     );
@@ -680,16 +651,8 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                     }
                 }
 
-                const cand = findRerollCandidate(
-                    s.data,
-                    region,
-                    slot.tier as Tier,
-                    usedIds,
-                    purchasedIds,
-                    forbidId,
-                    s.cfg
-                );
-                if (!cand) {
+                const step = applyReroll(s, ctx, index);
+                if (!step) {
                     // Aviso temporal sin consumir reroll
                     const prev = slot;
                     const newShop = s.shop.slice();
@@ -725,84 +688,157 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                 }
 
                 // Consumir reroll y aplicar
-                set((st) => ({
-                    undoStack: [snapshotOf(st), ...st.undoStack].slice(
-                        0,
-                        UNDO_LIMIT
-                    ),
-                }));
-                const newShop = s.shop.slice();
-                newShop[index] = { ...cand };
-                const groupSize = s.cfg?.shopRefreshEveryRegions ?? 1;
-                const groupStart =
-                    Math.floor(s.currentRegionIndex / groupSize) * groupSize;
-                const groupEnd = Math.min(
-                    groupStart + groupSize - 1,
-                    s.regions.length - 1
+                set((st) => withStep(st, step));
+                logRunAction(get(), step.action);
+
+                // Save state after reroll
+                get().saveCurrentState();
+            },
+
+            // ================= Bloqueo de Slots =================
+            toggleLockAt: (index) => {
+                const s = get();
+                if (!s.cfg) return;
+
+                const step = applyLock(s, runContextOf(s), index);
+                if (!step) return; // hueco, comprado o sin bloqueos libres (la UI ya lo indica)
+                set((st) => withStep(st, step));
+                logRunAction(get(), step.action);
+
+                get().saveCurrentState();
+            },
+
+            // ================= Reservas =================
+            reserveAt: (index) => {
+                const s = get();
+                if (!s.cfg) return;
+
+                const ts = new Date().toISOString();
+                const step = applyReserve(s, runContextOf(s), index, { ts });
+                if (!step) return; // reservas desactivadas, slot no reservable o sin saldo para el depósito (la UI ya lo indica)
+                set((st) => withStep(st, step));
+                logRunAction(get(), step.action, ts);
+
+                get().saveCurrentState();
+            },
+
+            completeReservation: (reservationId) => {
+                const s = get();
+                if (!s.cfg) return;
+
+                const ts = new Date().toISOString();
+                const step = applyCompleteReservation(s, runContextOf(s), reservationId, { ts });
+                if (!step) return;
+                set((st) => withStep(st, step));
+                logRunAction(get(), step.action, ts);
+
+                get().saveCurrentState();
+            },
+
+            cancelReservation: (reservationId) => {
+                const s = get();
+                if (!s.cfg) return;
+                const reservation = s.reservations.find((r) => r.id === reservationId);
+                if (!reservation) return;
+
+                const confirmed = window.confirm(
+                    `¿Cancelar la reserva de ${reservation.nombre}? Se pierde el depósito de ${reservation.deposit}$.`
                 );
+                if (!confirmed) return;
+
+                const step = applyCancelReservation(s, reservationId);
+                if (!step) return;
+                set((st) => withStep(st, step));
+                logRunAction(get(), step.action);
+
+                get().saveCurrentState();
+            },
+
+            // ================= Sistema de Deshacer =================
+            // El historial no se deshace: se conserva y se le añade el evento de deshacer/rehacer
+            undoLast: () => {
+                const top = get().undoStack[0];
+                if (!top) return;
+                const action: RunAction = { type: 'undo', count: 1 };
                 set((st) => {
-                    const nextShopByIndex = {
-                        ...st.shopByIndex,
-                        [shopIdx]: newShop,
+                    const restored = undoEntries(st, 1);
+                    return {
+                        ...restored,
+                        history: [
+                            {
+                                id: crypto.randomUUID(),
+                                ts: new Date().toISOString(),
+                                type: 'undo',
+                                message: undoMessage(top.label, 1),
+                                meta: action,
+                                region: regionAt(st, restored.currentRegionIndex),
+                                money: restored.money,
+                            },
+                            ...st.history,
+                        ],
                     };
-                    for (let i = groupStart; i <= groupEnd; i++) {
-                        nextShopByIndex[regionKeyFor(i)] = newShop;
-                    }
+                });
+                logRunAction(get(), action);
+
+                // Save state after undo
+                get().saveCurrentState();
+            },
+
+            redoLast: () => {
+                const next = get().redoStack[0];
+                if (!next) return;
+                const action: RunAction = { type: 'redo' };
+                set((st) => {
+                    const restored = applyPatch(undoableOf(st), next.redo);
                     return {
-                        shop: newShop,
-                        shopByIndex: nextShopByIndex,
-                        rerollsUsedGlobal: used + 1,
+                        ...restored,
+                        undoStack: [next, ...st.undoStack].slice(0, undoDepthOf(st.cfg?.undoDepth)),
+                        redoStack: st.redoStack.slice(1),
                         history: [
                             {
                                 id: crypto.randomUUID(),
                                 ts: new Date().toISOString(),
-                                type: 'reroll',
-                                message: `Reroll en ${slot.nombre} → ${
-                                    cand.nombre
-                                } (Tier ${String(slot.tier).toUpperCase()}).`,
+                                type: 'redo',
+                                message: `Rehecho: ${next.label}`,
+                                meta: action,
+                                region: regionAt(st, restored.currentRegionIndex),
+                                money: restored.money,
                             },
                             ...st.history,
                         ],
                     };
                 });
+                logRunAction(get(), action);
 
-                // Save state after reroll
                 get().saveCurrentState();
             },
 
-            // ================= Sistema de Deshacer =================
-            undoLast: () => {
-                const s = get();
-                const top = s.undoStack[0];
-                if (!top) return;
-                const rest = s.undoStack.slice(1);
-                // Restaurar todo MENOS el historial (debe quedar intacto)
+            // Deshace la acción del evento `historyId` y todas las posteriores
+            undoTo: (historyId) => {
+                const index = get().undoStack.findIndex((entry) => entry.historyId === historyId);
+                if (index < 0) return;
+                const target = get().undoStack[index];
+                const action: RunAction = { type: 'undo', count: index + 1 };
                 set((st) => {
+                    const restored = undoEntries(st, index + 1);
                     return {
-                        currentRegionIndex: top.currentRegionIndex,
-                        selectedRegionIndex: top.selectedRegionIndex,
-                        shop: top.shop,
-                        shopByIndex: top.shopByIndex,
-                        visitedRegions: Array.from(
-                            new Set([...(get().visitedRegions || [])])
-                        ),
-                        rerollsUsedGlobal: top.rerollsUsedGlobal,
-                        money: top.money,
-                        purchases: top.purchases,
-                        undoStack: rest,
+                        ...restored,
                         history: [
                             {
                                 id: crypto.randomUUID(),
                                 ts: new Date().toISOString(),
                                 type: 'undo',
-                                message: `Última acción deshecha.`,
+                                message: undoMessage(target.label, index + 1),
+                                meta: action,
+                                region: regionAt(st, restored.currentRegionIndex),
+                                money: restored.money,
                             },
                             ...st.history,
                         ],
                     };
                 });
+                logRunAction(get(), action);
 
-                // Save state after undo
                 get().saveCurrentState();
             },
 
@@ -828,10 +864,17 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                     shop: [],
                     shopByIndex: {},
                     rerollsUsedGlobal: 0,
+                    rerollsUsedBy: {},
+                    runSeed: 0,
+                    rngNonce: 0,
                     money: 0,
                     purchases: [],
+                    reservations: [],
                     undoStack: [],
+                    redoStack: [],
                     history: [],
+                    saveError: null,
+                    saveRecovery: null,
                 });
 
                 // Reinicializar con configuración limpia
@@ -845,6 +888,8 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                             ts: new Date().toISOString(),
                             type: 'reset' as const,
                             message: 'Datos borrados por el usuario.',
+                            region: regionAt(state),
+                            money: state.money,
                         },
                         ...state.history,
                     ],
@@ -863,7 +908,7 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                     if (oldProfileId) {
                         console.log(`[Tienda] Guardando estado actual al perfil anterior: ${oldProfileId}`);
                         const state = get();
-                        if (state.cfg) {
+                        if (state.cfg && !state.saveError) {
                             const stateToSave = {
                                 profileId: oldProfileId,
                                 regions: state.regions,
@@ -875,10 +920,15 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                                 shop: state.shop,
                                 shopByIndex: state.shopByIndex,
                                 rerollsUsedGlobal: state.rerollsUsedGlobal,
+                                rerollsUsedBy: state.rerollsUsedBy,
+                                runSeed: state.runSeed,
+                                rngNonce: state.rngNonce,
                                 money: state.money,
                                 history: state.history,
                                 purchases: state.purchases,
+                                reservations: state.reservations,
                                 undoStack: state.undoStack,
+                                redoStack: state.redoStack,
                             };
                             // Guardar al perfil anterior con ID específico
                             await saveSaveData(stateToSave, oldProfileId);
@@ -902,10 +952,17 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                         shop: [],
                         shopByIndex: {},
                         rerollsUsedGlobal: 0,
+                        rerollsUsedBy: {},
+                        runSeed: 0,
+                        rngNonce: 0,
                         money: 0,
                         purchases: [],
+                        reservations: [],
                         undoStack: [],
+                        redoStack: [],
                         history: [],
+                        saveError: null,
+                        saveRecovery: null,
                     });
 
                     // Force a small delay to ensure state is cleared
@@ -929,36 +986,138 @@ export const useShopStore = create<ShopState>()((set, get) => ({
             },
 
             // ================= Guardar Estado Actual =================
-            saveCurrentState: async () => {
-                try {
-                    const state = get();
-                    if (!state.cfg) {
-                        console.log(`[Tienda] Sin configuración cargada, omitiendo guardado`);
-                        return;
+            saveCurrentState: () => {
+                const run = saveQueue.then(async () => {
+                    try {
+                        let state = get();
+                        if (!state.cfg) {
+                            console.log(`[Tienda] Sin configuración cargada, omitiendo guardado`);
+                            return;
+                        }
+                        if (state.saveError) {
+                            console.warn(`[Tienda] Guardado corrupto pendiente de decisión, omitiendo guardado`);
+                            return;
+                        }
+
+                        const currentProfileId = await getCurrentProfile();
+
+                        // Los eventos que pasan de historyLimit se archivan en history-archive.jsonl
+                        // (se recortan del estado actual y se archivan justo los que se han quitado)
+                        const limit = historyLimitOf(state.cfg.historyLimit);
+                        let overflow: HistoryEvent[] = [];
+                        set((st) => {
+                            if (limit <= 0 || st.history.length <= limit) return {};
+                            overflow = st.history.slice(limit);
+                            return { history: st.history.slice(0, limit) };
+                        });
+                        if (overflow.length && !(await archiveHistory([...overflow].reverse(), currentProfileId))) {
+                            // Sin archivar no se pierden: vuelven al final del historial
+                            const removed = overflow;
+                            set((st) => ({ history: [...st.history, ...removed] }));
+                        }
+                        state = get();
+
+                        const stateToSave = {
+                            profileId: currentProfileId,
+                            regions: state.regions,
+                            currentRegionIndex: state.currentRegionIndex,
+                            selectedRegionIndex: state.selectedRegionIndex,
+                            selectedShopIndex: state.selectedShopIndex,
+                            lastShopIndex: state.lastShopIndex,
+                            visitedRegions: state.visitedRegions,
+                            shop: state.shop,
+                            shopByIndex: state.shopByIndex,
+                            rerollsUsedGlobal: state.rerollsUsedGlobal,
+                            rerollsUsedBy: state.rerollsUsedBy,
+                            runSeed: state.runSeed,
+                            rngNonce: state.rngNonce,
+                            money: state.money,
+                            history: state.history,
+                            purchases: state.purchases,
+                            reservations: state.reservations,
+                            undoStack: state.undoStack,
+                            redoStack: state.redoStack,
+                        };
+
+                        await saveSaveData(stateToSave);
+                    } catch (err) {
+                        console.error(`[Tienda] Error guardando estado actual:`, err);
                     }
+                });
+                saveQueue = run;
+                return run;
+            },
 
-                    const currentProfileId = await getCurrentProfile();
-                    const stateToSave = {
-                        profileId: currentProfileId,
-                        regions: state.regions,
-                        currentRegionIndex: state.currentRegionIndex,
-                        selectedRegionIndex: state.selectedRegionIndex,
-                        selectedShopIndex: state.selectedShopIndex,
-                        lastShopIndex: state.lastShopIndex,
-                        visitedRegions: state.visitedRegions,
-                        shop: state.shop,
-                        shopByIndex: state.shopByIndex,
-                        rerollsUsedGlobal: state.rerollsUsedGlobal,
-                        money: state.money,
-                        history: state.history,
-                        purchases: state.purchases,
-                        undoStack: state.undoStack,
-                    };
+            // Descarta el save.sav corrupto y guarda la partida nueva que se está mostrando
+            discardCorruptSave: async () => {
+                set({ saveError: null });
+                await get().saveCurrentState();
+                startRunLogFrom(get());
+            },
 
-                    await saveSaveData(stateToSave);
-                } catch (err) {
-                    console.error(`[Tienda] Error guardando estado actual:`, err);
+            // Rehace la partida repitiendo run.log (p. ej. cuando save.sav está dañado).
+            // El historial se regenera desde el log; el diario de deshacer empieza vacío
+            rebuildFromLog: async () => {
+                const s = get();
+                if (!s.cfg) return null;
+                const log = await readRunLog();
+                if (!log) return null;
+                if (log.issues.length) {
+                    console.warn(`[Tienda] ${log.issues.length} línea(s) ilegibles en run.log, se omiten`);
                 }
+
+                const result = replayRun(log.entries, { cfg: s.cfg, data: s.data, regions: s.regions });
+                const final = result.steps.length ? result.steps[result.steps.length - 1].state : result.initial;
+                set({
+                    ...final,
+                    runSeed: result.runSeed,
+                    history: [
+                        {
+                            id: crypto.randomUUID(),
+                            ts: new Date().toISOString(),
+                            type: 'reset',
+                            message: `Partida reconstruida desde el registro (${result.steps.length} acciones)`,
+                            region: s.regions[final.currentRegionIndex],
+                            money: final.money,
+                        },
+                        ...historyFromReplay(result, s.regions),
+                    ],
+                    undoStack: [],
+                    redoStack: [],
+                    saveError: null,
+                });
+                console.log(`[Tienda] Partida reconstruida desde run.log: ${result.steps.length} acciones`);
+                await get().saveCurrentState();
+                return result;
+            },
+
+            dismissSaveRecovery: () => set({ saveRecovery: null }),
+
+            dismissConfigDiagnostics: () => set({ configDiagnostics: null }),
+
+            // ================= Catálogo de Pokémon =================
+            // Guarda el catálogo editado y recarga la tienda conservando la partida:
+            // el estado se guarda antes y bootstrap lo vuelve a leer de save.sav
+            updatePokemonData: async (data) => {
+                const cfg = get().cfg;
+                if (!cfg) return;
+
+                await get().saveCurrentState();
+                await savePokemonData(cfg, data);
+                await get().bootstrap();
+                console.log(`[Tienda] Catálogo actualizado: ${data.length} pokémon`);
+            },
+
+            // ================= Configuración =================
+            // Guarda config.json y la aplica al momento, conservando la partida igual que updatePokemonData
+            updateConfig: async (cfg) => {
+                const s = get();
+                if (!s.cfg) return;
+
+                await s.saveCurrentState();
+                await saveConfig(cfg, s.data);
+                await get().bootstrap();
+                console.log(`[Tienda] Configuración actualizada`);
             },
 
             // ================= Funciones Auxiliares de Inicialización =================
@@ -971,11 +1130,16 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                 const rk = regionKeyFor(persistedIdx);
                 const existingRegionShop = savedState.shopByIndex?.[rk];
                 const existingGroupShop = savedState.shopByIndex?.[shopIdx];
-                const purchasedIds = new Set<number>((savedState.purchases || []).map((p) => p.pokemonId));
+                const purchasedIds = unavailableIdsOf({
+                    purchases: savedState.purchases || [],
+                    reservations: savedState.reservations || [],
+                });
+                const runSeed = savedState.runSeed ?? initialRunSeed(cfg);
+                let rngNonce = savedState.rngNonce ?? 0;
 
                 const shop = (existingRegionShop && existingRegionShop.length && existingRegionShop) ||
                            (existingGroupShop && existingGroupShop.length && existingGroupShop) ||
-                           (buildShopForRegion(data, region, cfg, purchasedIds) as ShopPokemon[]);
+                           (buildShopForRegion(data, region, cfg, purchasedIds, rngFor(runSeed, 'shop', region, ++rngNonce)) as ShopPokemon[]);
 
                 set({
                     cfg,
@@ -989,19 +1153,26 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                     shopByIndex: savedState.shopByIndex || {},
                     visitedRegions: savedState.visitedRegions || [region],
                     rerollsUsedGlobal: savedState.rerollsUsedGlobal || 0,
+                    rerollsUsedBy: savedState.rerollsUsedBy || {},
+                    runSeed,
+                    rngNonce,
                     money: savedState.money || 0,
                     purchases: savedState.purchases || [],
+                    reservations: savedState.reservations || [],
                     history: savedState.history || [],
                     undoStack: savedState.undoStack || [],
+                    redoStack: savedState.redoStack || [],
                 });
 
                 await get().saveCurrentState();
+                if (!(await hasRunLog())) startRunLogFrom(get(), true);
             },
 
             initializeFreshState: async (cfg, data, regions) => {
                 const region = regions[0];
                 const purchasedIds = new Set<number>();
-                const shop = buildShopForRegion(data, region, cfg, purchasedIds) as ShopPokemon[];
+                const runSeed = initialRunSeed(cfg);
+                const shop = buildShopForRegion(data, region, cfg, purchasedIds, rngFor(runSeed, 'shop', region, 1)) as ShopPokemon[];
 
                 set({
                     cfg,
@@ -1015,13 +1186,19 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                     shopByIndex: { [0]: shop, [regionKeyFor(0)]: shop },
                     visitedRegions: [region],
                     rerollsUsedGlobal: 0,
+                    rerollsUsedBy: {},
+                    runSeed,
+                    rngNonce: 1,
                     money: 0,
                     purchases: [],
+                    reservations: [],
                     history: [],
                     undoStack: [],
+                    redoStack: [],
                 });
 
                 await get().saveCurrentState();
+                startRunLogFrom(get());
             },
 
             initializeFallbackState: async () => {
@@ -1030,7 +1207,8 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                 const regions = cfg.regionsOrder.length ? cfg.regionsOrder : ['Kanto'];
                 const region = regions[0];
                 const purchasedIds = new Set<number>();
-                const shop = buildShopForRegion(data, region, cfg, purchasedIds) as ShopPokemon[];
+                const runSeed = initialRunSeed(cfg);
+                const shop = buildShopForRegion(data, region, cfg, purchasedIds, rngFor(runSeed, 'shop', region, 1)) as ShopPokemon[];
 
                 set({
                     cfg,
@@ -1041,15 +1219,21 @@ export const useShopStore = create<ShopState>()((set, get) => ({
                     selectedShopIndex: 0,
                     lastShopIndex: 0,
                     shop,
-                    shopByIndex: { [0]: shop },
+                    shopByIndex: { [0]: shop, [regionKeyFor(0)]: shop },
                     visitedRegions: [region],
                     rerollsUsedGlobal: 0,
+                    rerollsUsedBy: {},
+                    runSeed,
+                    rngNonce: 1,
                     money: 0,
                     purchases: [],
+                    reservations: [],
                     history: [],
                     undoStack: [],
+                    redoStack: [],
                 });
 
                 await get().saveCurrentState();
+                startRunLogFrom(get());
             },
         }));
@@ -1,4 +1,4 @@
-// Tipo dinámico para representar tiers: S, A, B, C... Z
+// Tipo dinámico para representar tiers: S, A, B, C... Z, o los de config.tiers
 export type Tier = string;
 
 // Estructura base de un pokémon
@@ -8,12 +8,19 @@ export interface Pokemon {
     tier: Tier; // clasificación de poder
     precio: number; // costo en la tienda
     regiones: string[]; // regiones donde aparece
+    peso?: number; // rareza dentro de su tier: probabilidad relativa de salir (por defecto 1)
+    pesoPorRegion?: Record<string, number>; // peso en regiones concretas (clave = región, sustituye a peso)
 }
 
 // Pokémon en la tienda con estados adicionales
 export interface ShopPokemon extends Pokemon {
     __purchased?: boolean; // marcado como comprado
     __exhausted?: boolean; // temporalmente agotado (sin candidatos para reroll)
+    __priceVariance?: number; // factor de variación de precio tirado al generar el slot (pricing.variance)
+    __fallbackFrom?: Tier; // tier pedido cuando el slot se rellenó con otro por el fallback de tiers
+    __locked?: boolean; // bloqueado: se conserva al actualizar o regenerar la tienda
+    __reserved?: string; // id de la reserva que retiene el slot (ver Reservation)
+    __rerolls?: number; // rerolls gastados en este slot (política de reroll 'slot')
 }
 
 // Tipos de eventos en el historial de acciones
@@ -21,12 +28,20 @@ export type HistoryEventType =
     | 'money:add' // añadir dinero
     | 'money:subtract' // restar dinero
     | 'buy' // comprar pokémon
+    | 'buy:failed' // intento de compra sin saldo suficiente (no cambia el estado)
+    | 'sell' // vender un pokémon comprado
     | 'reroll' // rerollear slot
+    | 'lock' // bloquear o desbloquear un slot
+    | 'reserve' // reservar un slot pagando el depósito
+    | 'reserve:complete' // pagar el resto y completar la compra reservada
+    | 'reserve:cancel' // cancelar una reserva (se pierde el depósito)
+    | 'reserve:expire' // reserva caducada al cambiar de grupo de regiones (se pierde el depósito)
     | 'region:next' // navegar a siguiente región
     | 'region:prev' // navegar a región anterior
     | 'refresh' // actualizar tienda
     | 'reset' // reiniciar todo
-    | 'undo'; // deshacer acción
+    | 'undo' // deshacer acción
+    | 'redo'; // rehacer acción deshecha
 
 // Entrada del historial de acciones
 export interface HistoryEvent {
@@ -34,7 +49,9 @@ export interface HistoryEvent {
     ts: string; // timestamp ISO
     type: HistoryEventType; // tipo de evento
     message: string; // descripción legible
-    meta?: Record<string, unknown>; // metadatos opcionales
+    meta?: RunAction; // acción que generó el evento (la misma que se escribe en run.log)
+    region?: string; // región activa tras el evento (ausente en eventos antiguos)
+    money?: number; // saldo tras el evento (ausente en eventos antiguos)
 }
 
 // Registro de una compra realizada
@@ -46,19 +63,126 @@ export interface PurchaseItem {
     nombre: string; // nombre del pokémon
     tier: Tier; // tier del pokémon
     precio: number; // precio pagado
+    precioBase: number; // precio base del catálogo en el momento de la compra
+    soldAt?: string; // timestamp de venta (ausente = no vendido)
+    refund?: number; // dinero devuelto al vender
+    returnedToPool?: boolean; // si true, al venderlo volvió a poder salir en la tienda
 }
 
-// Instantánea del estado para sistema de deshacer
-export interface Snapshot {
+// Reserva de un slot: se paga un depósito y el slot queda retenido durante varios cambios de grupo de regiones.
+// Al completarla se paga el resto del precio fijado al reservar; si caduca o se cancela, el depósito se pierde
+export interface Reservation {
+    id: string; // identificador único (también en ShopPokemon.__reserved)
+    ts: string; // timestamp de la reserva
+    region: string; // región donde se reservó
+    pokemonId: number; // ID del pokémon reservado
+    nombre: string; // nombre del pokémon
+    tier: Tier; // tier del pokémon
+    precio: number; // precio total, fijado al reservar
+    precioBase: number; // precio base del catálogo al reservar
+    deposit: number; // depósito pagado (parte de precio)
+    regionsLeft: number; // cambios de grupo de regiones que aguanta antes de caducar
+}
+
+// Parte del estado de la partida que se puede deshacer (el historial no se deshace nunca)
+export interface UndoableState {
     currentRegionIndex: number; // índice de región activa
     selectedRegionIndex: number; // índice de región seleccionada
     selectedShopIndex: number; // índice de tienda seleccionada
+    lastShopIndex: number; // índice previo de recarga automática
+    visitedRegions: string[]; // regiones visitadas
     shop: ShopPokemon[]; // tienda actual
     shopByIndex: Record<number, ShopPokemon[]>; // tiendas por índice
-    rerollsUsedGlobal: number; // rerolls utilizados
+    rerollsUsedGlobal: number; // rerolls utilizados (políticas 'global' y 'paid')
+    rerollsUsedBy: Record<string, number>; // rerolls utilizados por región o por tier (políticas 'region' y 'tier')
+    rngNonce: number; // contador de acciones aleatorias
     money: number; // dinero actual
     purchases: PurchaseItem[]; // compras realizadas
-    history: HistoryEvent[]; // historial (se conserva en undo)
+    reservations: Reservation[]; // reservas activas (la más reciente primero)
+}
+
+// Cambio sobre una lista: equivale a list.splice(index, remove, ...insert)
+export interface ListPatch<T> {
+    index: number;
+    remove: number;
+    insert: T[];
+}
+
+// Cambio entre dos estados: solo se guardan las partes que difieren
+export interface StatePatch {
+    values?: Partial<
+        Pick<
+            UndoableState,
+            | 'currentRegionIndex'
+            | 'selectedRegionIndex'
+            | 'selectedShopIndex'
+            | 'lastShopIndex'
+            | 'rerollsUsedGlobal'
+            | 'rngNonce'
+            | 'money'
+        >
+    >;
+    visitedRegions?: ListPatch<string>;
+    shop?: ListPatch<ShopPokemon>;
+    purchases?: ListPatch<PurchaseItem>;
+    reservations?: ListPatch<Reservation>;
+    shopByIndex?: Record<string, ListPatch<ShopPokemon> | null>; // parche de cada tienda que cambia; null = quitar la clave
+    rerollsUsedBy?: Record<string, number>; // contadores completos tras el cambio
+}
+
+// Acción reversible del diario de deshacer/rehacer
+export interface JournalEntry {
+    id: string; // identificador único
+    ts: string; // timestamp de la acción
+    label: string; // descripción (el mensaje del historial)
+    historyId?: string; // evento del historial creado por la acción
+    undo: StatePatch; // lleva del estado posterior al anterior
+    redo: StatePatch; // lleva del estado anterior al posterior
+}
+
+// Acción registrada en el log de la partida (run.log): entradas y resultados,
+// para poder repetir la partida desde su estado inicial y comprobar que sale igual
+export type RunAction =
+    | { type: 'start'; runSeed: number; state: UndoableState; resumed?: boolean } // resumed = partida anterior al log
+    | { type: 'region'; regionIndex: number; shopIndex: number; rngNonce: number; shopIds: number[] }
+    | { type: 'refresh'; rngNonce: number; shopIds: number[] }
+    | { type: 'money'; amount: number }
+    | {
+          type: 'buy';
+          index: number; // slot comprado
+          pokemonId: number;
+          price: number; // precio pagado
+          purchaseId: string;
+          rngNonce: number;
+          autofillId?: number; // pokémon que ocupó el slot (shopBuySlotAutofill)
+      }
+    | { type: 'sell'; purchaseId: string; refund: number }
+    | { type: 'reroll'; index: number; fromId: number; toId: number; rngNonce: number; cost?: number } // cost = política 'paid'
+    | { type: 'lock'; index: number; locked: boolean }
+    | { type: 'reserve'; index: number; pokemonId: number; price: number; deposit: number; reservationId: string }
+    | {
+          type: 'reserve:complete';
+          reservationId: string;
+          paid: number; // resto pagado
+          purchaseId: string;
+          autofillId?: number; // pokémon que ocupó el slot (shopBuySlotAutofill)
+      }
+    | { type: 'reserve:cancel'; reservationId: string }
+    | { type: 'undo'; count: number }
+    | { type: 'redo' };
+
+// Línea de run.log
+export interface RunLogEntry {
+    ts: string; // timestamp ISO
+    action: RunAction;
+}
+
+// Incidencia de validación: ruta del campo afectado y descripción del problema
+export interface ValidationIssue {
+    path: string; // p. ej. "purchases[3].precio"
+    message: string;
+    line?: number; // línea del archivo JSON (si se conoce)
+    severity?: 'error' | 'warning'; // por defecto 'error'
 }
 
 export interface AppConfig {
@@ -68,7 +192,12 @@ export interface AppConfig {
     tierWeights?: Record<string, number>;
 
     regionsOrder: string[];
-    rerollsPerRegion: number; // máximo de rerolls globales
+    rerollsPerRegion: number; // máximo de rerolls globales (o de cada región / tier según rerollPolicy)
+    rerollPolicy?: RerollPolicy; // cómo se cuentan los rerolls (por defecto 'global')
+    rerollTierBudgets?: Record<string, number>; // política 'tier': rerolls de cada tier (sin entrada = rerollsPerRegion)
+    rerollsPerSlot?: number; // política 'slot': rerolls de cada slot hasta que la tienda se regenera (por defecto 1)
+    rerollCost?: number; // política 'paid': precio del primer reroll (por defecto 100)
+    rerollCostIncrease?: number; // política 'paid': % que sube el precio con cada reroll (por defecto 50)
 
     // Intervalos:
     // - shopRefreshEveryRegions: cada cuántos CAMBIOS de región se puede regenerar la tienda de UNA región.
@@ -82,9 +211,79 @@ export interface AppConfig {
     rerollResetOnRefresh: boolean; // al pulsar Actualizar
     allowDuplicates: boolean;
     dataFile: string; // nombre del JSON de pokémon
+    tiers?: TierDefinition[]; // tiers con rango, nombre, color e icono (ausente = orden por letra S > A > B…)
     tierColors?: Record<string, string>; // mapa Tier->color CSS
     defaultTierColor?: string; // color por defecto para tiers desconocidos
     includePurchasedInRerollPool?: boolean; // si true, comprados pueden volver a salir en reroll
     shopBuySlotAutofill?: boolean; // Rellenar automáticamente el slot tras comprar (si hay huecos)
     tierFallback?: boolean; // si true, cuando no hay Pokémon en un tier, busca en tiers inferiores y luego superiores
+    // Cadena de fallback explícita por tier (ej: { S: ['A', 'B'], C: [] }). Los tiers sin entrada usan la búsqueda
+    // automática de tierFallback; [] = ese tier no tiene fallback
+    tierFallbackChain?: Record<string, Tier[]>;
+    tierFallbackNoUpgrade?: boolean; // si true, el fallback nunca sustituye un tier por otro mejor
+    sellRefundPercent?: number; // % del precio pagado que se devuelve al vender (por defecto 50)
+    sellReturnsToPool?: boolean; // si true, los vendidos pueden volver a salir en la tienda y los rerolls
+    confirmSell?: boolean; // pedir confirmación antes de vender (por defecto true)
+    maxLockedSlots?: number; // slots que se pueden bloquear a la vez en la tienda (por defecto 2, 0 = sin bloqueos)
+    reserveDepositPercent?: number; // % del precio que se paga como depósito al reservar (por defecto 25)
+    reserveHoldRegions?: number; // cambios de grupo de regiones que dura una reserva (por defecto 2, 0 = sin reservas)
+    undoDepth?: number; // acciones que se pueden deshacer (por defecto 20)
+    historyLimit?: number; // eventos del historial en save.sav; los anteriores se archivan (por defecto 500, 0 = sin límite)
+    seed?: number | null; // semilla fija para las partidas nuevas (null/ausente = aleatoria)
+    regionOverrides?: Record<string, RegionOverride>; // ajustes por región (clave = nombre de región)
+    pricing?: PricingConfig; // reglas de precio dinámico (ausente = precio del catálogo)
+}
+
+// Políticas de reroll:
+// - 'global': un contador para toda la partida contra rerollsPerRegion (el modelo clásico)
+// - 'region': cada región tiene su propio presupuesto de rerollsPerRegion
+// - 'tier': cada tier tiene su presupuesto (rerollTierBudgets, o rerollsPerRegion si no aparece)
+// - 'slot': cada slot se puede rerollear rerollsPerSlot veces
+// - 'paid': sin límite, pero cada reroll cuesta dinero y el precio sube con cada uno
+// Las recargas (rerollRechargeEveryRegions, rerollResetOnRefresh) ponen a cero todos los contadores.
+export type RerollPolicy = 'global' | 'region' | 'tier' | 'slot' | 'paid';
+
+// Definición de un tier en config.tiers. El rango decide el orden (mayor = mejor):
+// tienda, cuotas, fallback y aviso de degradación lo usan en lugar de la letra.
+export interface TierDefinition {
+    id: Tier; // el tier tal como aparece en el catálogo y en quota/tierWeights (sin distinguir mayúsculas)
+    name?: string; // nombre a mostrar (por defecto, el id)
+    color?: string; // color CSS (tiene preferencia sobre tierColors)
+    rank: number; // prioridad: mayor = mejor tier
+    icon?: string; // texto corto o emoji que se muestra junto al tier
+}
+
+// Preset de reglas: config (y catálogo opcional) con la que se crea un perfil nuevo
+export interface RulePreset {
+    id: string; // 'builtin:<clave>' para los de serie, 'user:<archivo>' para los guardados
+    name: string;
+    description: string;
+    builtin?: boolean;
+    config: AppConfig;
+    data?: Pokemon[]; // catálogo propio (ausente = catálogo por defecto)
+}
+
+// Reglas de precio dinámico. Los valores son porcentajes (5 = 5 %).
+// El multiplicador por región está en regionOverrides[región].priceMultiplier.
+export interface PricingConfig {
+    inflationPerRegion?: number; // subida por cada región distinta visitada (tras la primera)
+    inflationPerPurchase?: number; // subida por cada compra realizada
+    saturationDiscount?: number; // descuento por cada compra previa del mismo tier
+    maxSaturationDiscount?: number; // tope del descuento por saturación (por defecto 50)
+    variance?: number; // variación aleatoria ± por slot, fijada al generar la tienda
+    rounding?: number; // redondear el precio final a múltiplos de este valor (por defecto 1)
+}
+
+// Ajustes de una región que sustituyen a los globales de AppConfig.
+// quota, tierWeights y tierFallbackChain reemplazan por completo a los globales (no se combinan).
+export interface RegionOverride {
+    shopSize?: number;
+    quota?: Record<string, number>;
+    tierWeights?: Record<string, number>;
+    allowDuplicates?: boolean;
+    rerollsPerRegion?: number;
+    priceMultiplier?: number; // multiplica el precio de los pokémon de la región (1 = sin cambio)
+    tierFallback?: boolean;
+    tierFallbackChain?: Record<string, Tier[]>;
+    tierFallbackNoUpgrade?: boolean;
 }
@@ -2,6 +2,8 @@
 import react from '@vitejs/plugin-react-swc'; // o '@vitejs/plugin-react'
 import { defineConfig } from 'vite';
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
     plugins: [react()],
-});
+    // El CLI (build:cli) se compila como SSR: no necesita los archivos de public/
+    publicDir: isSsrBuild ? false : 'public',
+}));